@@ -0,0 +1,307 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import { timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { Logger } from "pino";
+
+import { IExecutor } from "../executors/executor";
+import { PostponingReason } from "../hooks/HookEnums";
+import { OrderInfoStatus } from "../interfaces";
+import {
+  IManageableOrderProcessor,
+  isManageableOrderProcessor,
+} from "../processors/base";
+import { ReserveRebalancer } from "../rebalancer";
+
+export type AdminServerOpts = {
+  /**
+   * Port to listen to
+   */
+  port: number;
+
+  /**
+   * Host to bind to. Never expose the API publicly. Default: 127.0.0.1
+   */
+  host?: string;
+
+  /**
+   * Bearer token required by endpoints changing the state of the executor (POST and DELETE), passed in the
+   * `Authorization: Bearer <token>` header. Such endpoints are disabled unless the token is set
+   */
+  authToken?: string;
+
+  /**
+   * Hostnames accepted in the Host header in addition to the bind address (e.g. the hostname of the machine when
+   * binding to 0.0.0.0), the port of the API is implied. Requests with other Host (or Origin) headers are rejected to
+   * protect the API from DNS rebinding
+   */
+  allowedHosts?: string[];
+};
+
+type Route = {
+  method: string;
+  path: RegExp;
+  handler: (params: string[]) => Promise<[number, unknown]>;
+};
+
+/**
+ * Local REST API to inspect and control a running executor:
+ *
+ * GET    /orders                                    lists orders waiting in processors' queues and mempools
+ * POST   /orders/:orderId/reprocess                 forces immediate processing of the order
+ * DELETE /orders/:orderId                           evicts the order from all queues
+ * GET    /chains                                    lists take chains along with their fulfillment state
+ * POST   /chains/:takeChainId/pause                 pauses fulfillment on the take chain
+ * POST   /chains/:takeChainId/resume                resumes fulfillment on the take chain
+ * POST   /chains/:takeChainId/unlock/:giveChainId   sends unlocks even if the batch is not full
+ * GET    /rebalancer/proposals                      lists rebalancing proposals awaiting approval
+ * POST   /rebalancer/proposals/:id/approve          places the order proposed by the rebalancer
+ */
+export class AdminServer {
+  private server: Server;
+  private readonly logger: Logger;
+  private readonly routes: Route[] = [
+    {
+      method: "GET",
+      path: /^\/orders$/,
+      handler: async () => [200, this.listOrders()],
+    },
+    {
+      method: "POST",
+      path: /^\/orders\/(0x[0-9a-fA-F]+)\/reprocess$/,
+      handler: async ([orderId]) =>
+        this.findProcessorFor(orderId, (p) => p.reprocessOrder(orderId)),
+    },
+    {
+      method: "DELETE",
+      path: /^\/orders\/(0x[0-9a-fA-F]+)$/,
+      handler: async ([orderId]) =>
+        this.findProcessorFor(orderId, (p) => p.evictOrder(orderId)),
+    },
+    {
+      method: "GET",
+      path: /^\/chains$/,
+      handler: async () => [200, this.listChains()],
+    },
+    {
+      method: "POST",
+      path: /^\/chains\/(\d+)\/pause$/,
+      handler: async ([takeChainId]) =>
+        this.withProcessor(takeChainId, async (p) => p.pause()),
+    },
+    {
+      method: "POST",
+      path: /^\/chains\/(\d+)\/resume$/,
+      handler: async ([takeChainId]) =>
+        this.withProcessor(takeChainId, async (p) => p.resume()),
+    },
+    {
+      method: "POST",
+      path: /^\/chains\/(\d+)\/unlock\/(\d+)$/,
+      handler: async ([takeChainId, giveChainId]) => {
+        if (!this.executor.chains[Number(giveChainId) as ChainId]) {
+          return [404, { error: `give chain ${giveChainId} not configured` }];
+        }
+        return this.withProcessor(takeChainId, (p) =>
+          p.forceUnlock(Number(giveChainId))
+        );
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/rebalancer\/proposals$/,
+      handler: async () =>
+        this.withRebalancer(async (rebalancer) => [
+          200,
+          rebalancer.getProposals(),
+        ]),
+    },
+    {
+      method: "POST",
+      path: /^\/rebalancer\/proposals\/(\d+)\/approve$/,
+      handler: async ([proposalId]) =>
+        this.withRebalancer(async (rebalancer) => {
+          const approval = await rebalancer.approve(proposalId);
+          if (!approval) {
+            return [404, { error: `proposal ${proposalId} not found` }];
+          }
+          return approval.placed
+            ? [200, approval.proposal]
+            : [409, { error: approval.reason }];
+        }),
+    },
+  ];
+
+  constructor(
+    private readonly opts: AdminServerOpts,
+    private readonly executor: IExecutor,
+    logger: Logger
+  ) {
+    this.logger = logger.child({ service: "AdminServer" });
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => this.handle(req, res));
+
+    const host = this.opts.host || "127.0.0.1";
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.opts.port, host, resolve);
+    });
+    this.logger.info(
+      `admin API is listening at http://${host}:${this.opts.port}`
+    );
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = (req.url || "").split("?")[0];
+    let status = 404;
+    let body: unknown = { error: "not found" };
+    try {
+      for (const route of this.routes) {
+        const match = route.path.exec(path);
+        if (route.method === req.method && match) {
+          this.logger.info(`${req.method} ${path}`);
+          const rejection = this.authorize(req);
+          if (rejection) {
+            this.logger.warn(`${req.method} ${path} rejected: ${rejection[1]}`);
+            [status, body] = [rejection[0], { error: rejection[1] }];
+          } else {
+            [status, body] = await route.handler(match.slice(1));
+          }
+          break;
+        }
+      }
+    } catch (e) {
+      this.logger.error(`${req.method} ${path} failed: ${e}`);
+      this.logger.error(e);
+      status = 500;
+      body = { error: `${e}` };
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Returns the status and the reason to reject the request with, if any. Browsers may be tricked into sending
+   * requests to the local API (CSRF, DNS rebinding), so the Host and Origin headers must point to the API itself, and
+   * state-changing requests must carry the token which is never known to a browser
+   */
+  private authorize(req: IncomingMessage): [number, string] | undefined {
+    const allowedHosts = this.getAllowedHosts();
+    if (!req.headers.host || !allowedHosts.includes(req.headers.host)) {
+      return [403, `unexpected Host header: ${req.headers.host}`];
+    }
+    const origin = req.headers.origin;
+    if (
+      origin !== undefined &&
+      !allowedHosts.some((host) => origin === `http://${host}`)
+    ) {
+      return [403, `unexpected Origin header: ${origin}`];
+    }
+
+    if (req.method === "GET") return undefined;
+    if (!this.opts.authToken) {
+      return [403, `authToken is not configured, the endpoint is disabled`];
+    }
+    const expected = Buffer.from(`Bearer ${this.opts.authToken}`);
+    const actual = Buffer.from(req.headers.authorization || "");
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      return [401, `missing or invalid bearer token`];
+    }
+  }
+
+  private getAllowedHosts(): string[] {
+    const { port } = this.opts;
+    const host = this.opts.host || "127.0.0.1";
+    const hosts = [host.includes(":") ? `[${host}]` : host];
+    if (["127.0.0.1", "localhost", "::1"].includes(host)) {
+      hosts.push("127.0.0.1", "localhost", "[::1]");
+    }
+    return [...hosts, ...(this.opts.allowedHosts || [])].map(
+      (it) => `${it}:${port}`
+    );
+  }
+
+  private getManageableProcessors(): [ChainId, IManageableOrderProcessor][] {
+    return Object.values(this.executor.chains)
+      .filter((chain) => isManageableOrderProcessor(chain.orderProcessor))
+      .map((chain) => [
+        chain.chain,
+        chain.orderProcessor as IManageableOrderProcessor,
+      ]);
+  }
+
+  private listOrders() {
+    return this.getManageableProcessors().flatMap(([chainId, processor]) =>
+      processor.getQueuedOrders().map((order) => ({
+        takeChain: ChainId[chainId],
+        orderId: order.orderId,
+        status: OrderInfoStatus[order.status],
+        queue: order.queue,
+        attempts: order.attempts,
+        lastPostponingReason:
+          order.lastPostponingReason !== undefined
+            ? PostponingReason[order.lastPostponingReason]
+            : null,
+      }))
+    );
+  }
+
+  private listChains() {
+    return this.getManageableProcessors().map(([chainId, processor]) => ({
+      chainId,
+      chain: ChainId[chainId],
+      paused: processor.isPaused(),
+    }));
+  }
+
+  private async findProcessorFor(
+    orderId: string,
+    action: (processor: IManageableOrderProcessor) => boolean
+  ): Promise<[number, unknown]> {
+    for (const [, processor] of this.getManageableProcessors()) {
+      if (action(processor)) return [200, { orderId }];
+    }
+    return [404, { error: `order ${orderId} not found in any queue` }];
+  }
+
+  private async withRebalancer(
+    action: (rebalancer: ReserveRebalancer) => Promise<[number, unknown]>
+  ): Promise<[number, unknown]> {
+    if (!this.executor.rebalancer) {
+      return [400, { error: `rebalancer is not enabled` }];
+    }
+    return action(this.executor.rebalancer);
+  }
+
+  private async withProcessor(
+    takeChainId: string,
+    action: (processor: IManageableOrderProcessor) => Promise<void>
+  ): Promise<[number, unknown]> {
+    const chain = this.executor.chains[Number(takeChainId) as ChainId];
+    if (!chain) {
+      return [404, { error: `take chain ${takeChainId} not configured` }];
+    }
+    if (!isManageableOrderProcessor(chain.orderProcessor)) {
+      return [
+        400,
+        { error: `processor of ${ChainId[chain.chain]} can't be managed` },
+      ];
+    }
+    await action(chain.orderProcessor);
+    return [
+      200,
+      { chain: ChainId[chain.chain], paused: chain.orderProcessor.isPaused() },
+    ];
+  }
+}
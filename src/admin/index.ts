@@ -0,0 +1,3 @@
+import { AdminServer, AdminServerOpts } from "./admin.server";
+
+export { AdminServer, AdminServerOpts };
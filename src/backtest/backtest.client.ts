@@ -0,0 +1,71 @@
+import {
+  ChainId,
+  getNativeToken,
+  PMMClient,
+  tokenAddressToString,
+  tokenStringToBuffer,
+} from "@debridge-finance/dln-client";
+import BigNumber from "bignumber.js";
+
+import { findTokenValue, MarketSnapshot } from "./market.snapshot";
+
+const getNativeCurrencyDecimals = (chainId: ChainId) =>
+  chainId === ChainId.Solana ? 9 : 18;
+
+/**
+ * Creates the client which serves the data needed to estimate orders (token decimals and the cost of the taker
+ * flow) from the market snapshot, so orders can be estimated without RPC nodes
+ */
+export function createBacktestClient(snapshot: MarketSnapshot): PMMClient {
+  const getDecimals = async (
+    chainId: ChainId,
+    tokenAddress: Uint8Array | string
+  ): Promise<number> => {
+    const token =
+      typeof tokenAddress === "string"
+        ? tokenStringToBuffer(chainId, tokenAddress)
+        : tokenAddress;
+    const decimals = findTokenValue(snapshot.decimals, chainId, token);
+    if (decimals !== undefined) return decimals;
+    if (
+      tokenAddressToString(chainId, token) ===
+      tokenAddressToString(chainId, getNativeToken(chainId))
+    )
+      return getNativeCurrencyDecimals(chainId);
+
+    throw new Error(
+      `decimals of ${tokenAddressToString(chainId, token)} on ${
+        ChainId[chainId]
+      } are missing in the market snapshot`
+    );
+  };
+
+  const getTakerFlowNativeCost = async (
+    giveChainId: ChainId,
+    takeChainId: ChainId
+  ): Promise<BigNumber> => {
+    const cost = snapshot.takerFlowCosts[takeChainId];
+    if (cost === undefined) {
+      throw new Error(
+        `taker flow cost on ${ChainId[takeChainId]} is missing in the market snapshot`
+      );
+    }
+    return new BigNumber(cost)
+      .multipliedBy(
+        new BigNumber(10).pow(getNativeCurrencyDecimals(takeChainId))
+      )
+      .integerValue();
+  };
+
+  const client = {
+    getDecimals,
+    getNativeCurrencyDecimals,
+    getTakerFlowNativeCost,
+    getTakerFlowNativeCostForSingleOrder: (
+      batchSize: number,
+      giveChainId: ChainId,
+      takeChainId: ChainId
+    ) => getTakerFlowNativeCost(giveChainId, takeChainId),
+  };
+  return client as unknown as PMMClient;
+}
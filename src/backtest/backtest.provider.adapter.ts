@@ -0,0 +1,42 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import BigNumber from "bignumber.js";
+
+import { ProviderAdapter } from "../providers/provider.adapter";
+
+import { findTokenValue, MarketSnapshot } from "./market.snapshot";
+
+// balance of tokens missing in the market snapshot
+const UNLIMITED_BALANCE = new BigNumber(2).pow(255).toFixed(0);
+
+/**
+ * Serves balances recorded in the market snapshot and never sends txns
+ */
+export class BacktestProviderAdapter implements ProviderAdapter {
+  connection: unknown = undefined;
+  quorumConnection: unknown = undefined;
+  wallet: unknown = undefined;
+
+  constructor(
+    private readonly chainId: ChainId,
+    public readonly address: string,
+    private readonly snapshot: MarketSnapshot,
+    private readonly getDecimals: (
+      chainId: ChainId,
+      token: Uint8Array
+    ) => Promise<number>
+  ) {}
+
+  async sendTransaction(): Promise<string> {
+    throw new Error("txns can't be sent during backtests");
+  }
+
+  async getBalance(token: Uint8Array): Promise<string> {
+    const balance = findTokenValue(this.snapshot.balances, this.chainId, token);
+    if (balance === undefined) return UNLIMITED_BALANCE;
+
+    const decimals = await this.getDecimals(this.chainId, token);
+    return new BigNumber(balance)
+      .multipliedBy(new BigNumber(10).pow(decimals))
+      .toFixed(0);
+  }
+}
@@ -0,0 +1,475 @@
+import {
+  ChainId,
+  Evm,
+  getNativeToken,
+  OrderData,
+  PMMClient,
+  setSlippageOverloader,
+  tokenAddressToString,
+  TokensBucket,
+} from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import { Keypair } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import bs58 from "bs58";
+import { Logger } from "pino";
+import Web3 from "web3";
+
+import {
+  ChainDefinition,
+  ExecutorLaunchConfig,
+  SupportedChain,
+} from "../config";
+import {
+  ExecutorInitializingChain,
+  ExecutorSupportedChain,
+  getConfirmationRanges,
+  IExecutor,
+} from "../executors/executor";
+import * as filters from "../filters";
+import { PostponingReason, RejectionReason } from "../hooks/HookEnums";
+import { GetNextOrder, IncomingOrder, OrderInfoStatus } from "../interfaces";
+import * as processors from "../processors";
+import {
+  checkFinalization,
+  checkOrderSupport,
+  estimateRoughReserveAmount,
+  estimateTakeAmount,
+} from "../processors/order.estimation";
+import { UnconfirmedOrdersBudget } from "../processors/unconfirmed.orders.budget";
+import { RecordedOrder } from "../recorder";
+import { OrderStateStore } from "../stores";
+
+import { createBacktestClient } from "./backtest.client";
+import { BacktestProviderAdapter } from "./backtest.provider.adapter";
+import { MarketSnapshot } from "./market.snapshot";
+import { SnapshotPriceService } from "./snapshot.price.service";
+import { SnapshotSwapConnector } from "./snapshot.swap.connector";
+
+// orders are never restored during backtests
+const discardingOrderStateStore: OrderStateStore = {
+  init: async () => {},
+  put: () => {},
+  delete: () => {},
+  getAll: async () => [],
+};
+
+export type BacktestOpts = {
+  /**
+   * Desired profitability the orders are estimated with, overriding the param of the configured processors.
+   * Default: minProfitabilityBps of the processor of the take chain
+   */
+  minProfitabilityBps?: number;
+
+  /**
+   * Number of orders to unlock in a batch, affects the cost of the taker flow of orders coming from and to EVM chains.
+   * Overrides the param of the configured processors.
+   * Default: batchUnlockSize of the processor of the take chain
+   */
+  batchUnlockSize?: number;
+};
+
+export type BacktestVerdict =
+  | "filtered"
+  | "rejected"
+  | "postponed"
+  | "fulfilled";
+
+export type BacktestOrderResult = {
+  orderId: string;
+  route: string;
+  verdict: BacktestVerdict;
+  rejectionReason?: RejectionReason;
+  postponingReason?: PostponingReason;
+  message?: string;
+
+  /**
+   * USD worth of the give amount minus the USD worth of the take amount and the cost of the taker flow. Given for
+   * estimated orders only
+   */
+  profitUsd?: number;
+};
+
+export type BacktestRouteSummary = {
+  route: string;
+  orders: number;
+  fulfilled: number;
+  filtered: number;
+  rejected: number;
+  postponed: number;
+
+  /**
+   * Estimated profit of fulfilled orders
+   */
+  profitUsd: number;
+};
+
+export type BacktestReport = {
+  orders: BacktestOrderResult[];
+  routes: BacktestRouteSummary[];
+};
+
+/**
+ * Runs the executor's configuration (filters and the estimation steps of the universal processor) against
+ * the recorded orders without touching RPC nodes: prices, token decimals, the cost of the taker flow and taker
+ * balances are taken from the market snapshot, and swaps are estimated at the exchange rate derived from
+ * recorded prices. Every order is evaluated once, using the latest announcement of its creation
+ */
+export class Backtest implements IExecutor {
+  readonly tokenPriceService: SnapshotPriceService;
+  readonly swapConnector: SnapshotSwapConnector;
+  readonly client: PMMClient;
+  readonly chains: { [key in ChainId]?: ExecutorSupportedChain } = {};
+  readonly buckets: TokensBucket[];
+  // orders are passed to the backtest directly
+  readonly orderFeed: GetNextOrder;
+
+  private readonly logger: Logger;
+  private readonly spentAmounts = new Map<string, BigNumber>(); // key: chain + reserve token
+  private readonly processorParams = new Map<
+    ChainId,
+    processors.UniversalProcessorParams
+  >(); // key: take chain
+
+  constructor(
+    private readonly config: ExecutorLaunchConfig,
+    private readonly snapshot: MarketSnapshot,
+    private readonly opts: BacktestOpts,
+    logger: Logger
+  ) {
+    this.logger = logger.child({ service: "Backtest" });
+    this.buckets = config.buckets;
+    this.client = createBacktestClient(snapshot);
+    this.tokenPriceService = new SnapshotPriceService(snapshot);
+    this.swapConnector = new SnapshotSwapConnector(
+      snapshot,
+      this.tokenPriceService,
+      (chainId, token) => this.client.getDecimals(chainId, token)
+    );
+  }
+
+  async init(): Promise<void> {
+    // the same as the executor does: slippage is not reserved for the pre-fulfill swap
+    setSlippageOverloader(() => 0);
+
+    for (const chain of this.config.chains) {
+      // the same processor the executor would pick for the chain
+      const processorInitializer = (chain.orderProcessor ||
+        this.config.orderProcessor ||
+        processors.universalProcessor()) as Partial<processors.UniversalProcessorInitializer>;
+      if (!processorInitializer.params) {
+        throw new Error(
+          `${
+            ChainId[chain.chain]
+          } is configured with the custom order processor, while the backtest supports only the universal processor`
+        );
+      }
+      this.processorParams.set(chain.chain, processorInitializer.params);
+
+      const getDecimals = (chainId: ChainId, token: Uint8Array) =>
+        this.client.getDecimals(chainId, token);
+      const initializingChain: ExecutorInitializingChain = {
+        chain: chain.chain,
+        chainRpc: chain.chainRpc,
+        dryRun: true,
+        unlockProvider: new BacktestProviderAdapter(
+          chain.chain,
+          this.getAddress(chain, chain.unlockAuthorityPrivateKey),
+          this.snapshot,
+          getDecimals
+        ),
+        fulfillProvider: new BacktestProviderAdapter(
+          chain.chain,
+          this.getAddress(chain, chain.takerPrivateKey),
+          this.snapshot,
+          getDecimals
+        ),
+        client: this.client as unknown as Evm.PmmEvmClient,
+      };
+
+      const dstFiltersInitializers = [...(chain.dstFilters || [])];
+      if (chain.disabled) {
+        dstFiltersInitializers.push(filters.disableFulfill());
+      }
+      const filterInitContext = {
+        chain: initializingChain,
+        logger: this.logger,
+      };
+      const dstFilters = await Promise.all(
+        [...dstFiltersInitializers, ...(this.config.filters || [])].map(
+          (filter) => filter(chain.chain, filterInitContext)
+        )
+      );
+      const srcFilters = await Promise.all(
+        (chain.srcFilters || []).map((filter) =>
+          filter(chain.chain, filterInitContext)
+        )
+      );
+
+      this.chains[chain.chain] = {
+        ...initializingChain,
+        srcFilters,
+        dstFilters,
+        usdAmountConfirmations: getConfirmationRanges(
+          chain.chain as unknown as SupportedChain,
+          chain
+        ),
+        unconfirmedOrdersBudget:
+          chain.constraints?.unconfirmedOrdersBudgetInUSD !== undefined
+            ? new UnconfirmedOrdersBudget(
+                chain.chain,
+                chain.constraints.unconfirmedOrdersBudgetInUSD,
+                discardingOrderStateStore,
+                this.logger
+              )
+            : undefined,
+        orderProcessor: {
+          process: async () => {
+            throw new Error("orders are not processed during backtests");
+          },
+        },
+        beneficiary: chain.beneficiary,
+      };
+    }
+  }
+
+  async run(records: RecordedOrder[]): Promise<BacktestReport> {
+    const createdOrders = new Map<string, IncomingOrder<any>>();
+    for (const { orderInfo } of records) {
+      if (
+        orderInfo.status !== OrderInfoStatus.Created &&
+        orderInfo.status !== OrderInfoStatus.ArchivalCreated
+      )
+        continue;
+      createdOrders.set(orderInfo.orderId, orderInfo);
+    }
+    this.logger.info(
+      `evaluating ${createdOrders.size} order(s) out of ${records.length} record(s)`
+    );
+
+    const results: BacktestOrderResult[] = [];
+    for (const orderInfo of Array.from(createdOrders.values())) {
+      const logger = this.logger.child({ orderId: orderInfo.orderId });
+      try {
+        results.push(await this.evaluate(orderInfo, logger));
+      } catch (e) {
+        logger.error(`evaluation failed: ${e}`);
+        results.push({
+          orderId: orderInfo.orderId,
+          route: this.getRoute(orderInfo.order),
+          verdict: "postponed",
+          postponingReason: PostponingReason.UNHANDLED_ERROR,
+          message: `${e}`,
+        });
+      }
+      // the order has not been fulfilled unless the reservation has been committed
+      const giveChain = this.chains[orderInfo.order.give.chainId];
+      giveChain?.unconfirmedOrdersBudget?.cancel(orderInfo.orderId);
+    }
+
+    return {
+      orders: results,
+      routes: this.summarize(results),
+    };
+  }
+
+  private async evaluate(
+    orderInfo: IncomingOrder<any>,
+    logger: Logger
+  ): Promise<BacktestOrderResult> {
+    const { order, orderId } = orderInfo;
+    const result = { orderId, route: this.getRoute(order) };
+
+    const giveChain = this.chains[order.give.chainId];
+    const takeChain = this.chains[order.take.chainId];
+    if (!giveChain || !takeChain) {
+      const missingChain = giveChain ? order.take.chainId : order.give.chainId;
+      return {
+        ...result,
+        verdict: "filtered",
+        message: `${ChainId[missingChain]} not configured`,
+      };
+    }
+
+    const verdicts = await Promise.all(
+      [...takeChain.dstFilters, ...giveChain.srcFilters].map(
+        async (filter, index) =>
+          filters.toFilterVerdict(
+            await filter(order, {
+              logger,
+              config: this,
+              giveChain,
+              takeChain,
+              orderId,
+            }),
+            `filter #${index}`
+          )
+      )
+    );
+    const rejections = verdicts.filter((verdict) => !verdict.approved);
+    if (rejections.length > 0) {
+      return {
+        ...result,
+        verdict: "filtered",
+        message: `order has been filtered off by ${rejections
+          .map(
+            (verdict) =>
+              `${verdict.filter} (${verdict.reason || "no reason given"})`
+          )
+          .join(", ")}`,
+      };
+    }
+    filters.commitVerdicts(verdicts);
+
+    const context = { logger, config: this, giveChain };
+    const rejection =
+      checkOrderSupport(orderInfo, this.buckets) ||
+      (await checkFinalization(orderInfo, order, context, logger));
+    if (rejection) {
+      return {
+        ...result,
+        verdict: "rejected",
+        rejectionReason: rejection.reason,
+        message: rejection.message,
+      };
+    }
+
+    const { pickedBucket, reserveDstTokenDecimals, roughReserveDstAmount } =
+      await estimateRoughReserveAmount(order, context, takeChain);
+    const spentKey = `${order.take.chainId}:${tokenAddressToString(
+      order.take.chainId,
+      pickedBucket.reserveDstToken
+    )}`;
+    const availableBalance = new BigNumber(
+      await takeChain.fulfillProvider.getBalance(pickedBucket.reserveDstToken)
+    ).minus(this.spentAmounts.get(spentKey) || 0);
+    if (availableBalance.lt(roughReserveDstAmount)) {
+      return {
+        ...result,
+        verdict: "postponed",
+        postponingReason: PostponingReason.NOT_ENOUGH_BALANCE,
+        message: `not enough funds of the reserve token, available balance: ${availableBalance.div(
+          new BigNumber(10).pow(reserveDstTokenDecimals)
+        )}`,
+      };
+    }
+
+    const processorParams = this.processorParams.get(order.take.chainId)!;
+    const estimation = await estimateTakeAmount(
+      order,
+      context,
+      takeChain,
+      {
+        minProfitabilityBps:
+          this.opts.minProfitabilityBps ?? processorParams.minProfitabilityBps,
+        batchUnlockSize:
+          this.opts.batchUnlockSize ?? processorParams.batchUnlockSize,
+      },
+      logger
+    );
+    const profitUsd = await this.getProfitUsd(order);
+
+    if (!estimation.isProfitable) {
+      return {
+        ...result,
+        verdict: "postponed",
+        postponingReason: PostponingReason.NOT_PROFITABLE,
+        message: `order is not profitable: estimated take amount is ${estimation.profitableTakeAmount}, while order requires ${order.take.amount}`,
+        profitUsd,
+      };
+    }
+
+    this.spentAmounts.set(
+      spentKey,
+      new BigNumber(estimation.requiredReserveDstAmount).plus(
+        this.spentAmounts.get(spentKey) || 0
+      )
+    );
+    giveChain.unconfirmedOrdersBudget?.commit(orderInfo);
+    return {
+      ...result,
+      verdict: "fulfilled",
+      profitUsd,
+    };
+  }
+
+  private async getProfitUsd(order: OrderData): Promise<number> {
+    const takerFlowCost = this.snapshot.takerFlowCosts[order.take.chainId] || 0;
+    const [giveUsd, takeUsd, nativeTakePrice] = await Promise.all([
+      this.getUsdWorth(
+        order.give.chainId,
+        order.give.tokenAddress,
+        order.give.amount
+      ),
+      this.getUsdWorth(
+        order.take.chainId,
+        order.take.tokenAddress,
+        order.take.amount
+      ),
+      this.tokenPriceService.getPrice(
+        order.take.chainId,
+        getNativeToken(order.take.chainId)
+      ),
+    ]);
+    return giveUsd - takeUsd - takerFlowCost * nativeTakePrice;
+  }
+
+  private async getUsdWorth(
+    chainId: ChainId,
+    token: Uint8Array,
+    amount: bigint
+  ): Promise<number> {
+    const [price, decimals] = await Promise.all([
+      this.tokenPriceService.getPrice(chainId, token),
+      this.client.getDecimals(chainId, token),
+    ]);
+    return new BigNumber(amount.toString())
+      .multipliedBy(price)
+      .div(new BigNumber(10).pow(decimals))
+      .toNumber();
+  }
+
+  private summarize(results: BacktestOrderResult[]): BacktestRouteSummary[] {
+    const routes = new Map<string, BacktestRouteSummary>();
+    for (const result of results) {
+      const summary = routes.get(result.route) || {
+        route: result.route,
+        orders: 0,
+        fulfilled: 0,
+        filtered: 0,
+        rejected: 0,
+        postponed: 0,
+        profitUsd: 0,
+      };
+      summary.orders++;
+      summary[result.verdict]++;
+      if (result.verdict === "fulfilled")
+        summary.profitUsd += result.profitUsd!;
+      routes.set(result.route, summary);
+    }
+    return Array.from(routes.values());
+  }
+
+  private getRoute(order: OrderData): string {
+    return [
+      `${ChainId[order.give.chainId]}:${tokenAddressToString(
+        order.give.chainId,
+        order.give.tokenAddress
+      )}`,
+      `${ChainId[order.take.chainId]}:${tokenAddressToString(
+        order.take.chainId,
+        order.take.tokenAddress
+      )}`,
+    ].join(" -> ");
+  }
+
+  private getAddress(chain: ChainDefinition, privateKey: string): string {
+    if (chain.chain === ChainId.Solana) {
+      const secretKey = privateKey.startsWith("0x")
+        ? helpers.hexToBuffer(privateKey)
+        : bs58.decode(privateKey);
+      return Keypair.fromSecretKey(secretKey).publicKey.toBase58();
+    }
+    return new Web3().eth.accounts.privateKeyToAccount(privateKey).address;
+  }
+}
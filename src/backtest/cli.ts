@@ -0,0 +1,155 @@
+import BigNumber from "bignumber.js";
+import { config as loadEnv } from "dotenv";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import pino, { Logger } from "pino";
+import pretty from "pino-pretty";
+
+import { ExecutorLaunchConfig } from "../config";
+import { PostponingReason, RejectionReason } from "../hooks/HookEnums";
+import { HooksEngine } from "../hooks/HooksEngine";
+import { GetNextOrder } from "../interfaces";
+import { WsNextOrder } from "../orderFeeds/ws.order.feed";
+import { OrderFeedRecorder, readOrderFeedRecording } from "../recorder";
+
+import { Backtest, BacktestOpts } from "./backtest";
+import { MarketSnapshot } from "./market.snapshot";
+
+(BigInt.prototype as any).toJSON = function () {
+  return this.toString();
+};
+
+// Almost never return exponential notation:
+BigNumber.config({ EXPONENTIAL_AT: 1e9 });
+
+loadEnv();
+
+const USAGE = `Usage:
+  npm run backtest -- capture <config> <recording.jsonl> [duration in seconds, default: 3600]
+  npm run backtest -- run <config> <recording.jsonl> <snapshot.json> [--minProfitabilityBps=4] [--batchUnlockSize=10] [--out=report.json]`;
+
+async function loadConfig(configPath: string): Promise<ExecutorLaunchConfig> {
+  return import(path.resolve(process.cwd(), configPath));
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Records orders coming from the order feed of the given config, without executing them
+ */
+async function capture(args: string[], logger: Logger) {
+  const [configPath, recordingPath, duration] = args;
+  if (!configPath || !recordingPath) throw new Error(USAGE);
+  const config = await loadConfig(configPath);
+
+  const recorder = new OrderFeedRecorder(path.resolve(recordingPath));
+  await recorder.init(logger);
+
+  let orderFeed = config.orderFeed as GetNextOrder;
+  if (typeof orderFeed === "string" || !orderFeed) {
+    orderFeed = new WsNextOrder(orderFeed);
+  }
+  orderFeed.setEnabledChains(config.chains.map((chain) => chain.chain));
+  orderFeed.setLogger(logger);
+  await orderFeed.init(
+    async (order, rawPayload) => recorder.record(order, rawPayload),
+    [],
+    [],
+    new HooksEngine({}, logger)
+  );
+
+  const durationSeconds = Number(duration || 3600);
+  logger.info(`capturing the order feed for ${durationSeconds}s`);
+  await new Promise((resolve) => setTimeout(resolve, durationSeconds * 1000));
+  await recorder.flush();
+}
+
+async function run(args: string[], logger: Logger) {
+  const [configPath, recordingPath, snapshotPath] = args;
+  if (!configPath || !recordingPath || !snapshotPath) throw new Error(USAGE);
+
+  const config = await loadConfig(configPath);
+  const snapshot = JSON.parse(
+    await readFile(snapshotPath, "utf-8")
+  ) as MarketSnapshot;
+  const minProfitabilityBps = getOption(args, "minProfitabilityBps");
+  const batchUnlockSize = getOption(args, "batchUnlockSize");
+  const opts: BacktestOpts = {
+    minProfitabilityBps:
+      minProfitabilityBps !== undefined
+        ? Number(minProfitabilityBps)
+        : undefined,
+    batchUnlockSize:
+      batchUnlockSize !== undefined ? Number(batchUnlockSize) : undefined,
+  };
+
+  const backtest = new Backtest(config, snapshot, opts, logger);
+  await backtest.init();
+  const report = await backtest.run(
+    await readOrderFeedRecording(recordingPath, logger)
+  );
+
+  const orders = report.orders.map((result) => ({
+    ...result,
+    rejectionReason:
+      result.rejectionReason !== undefined
+        ? RejectionReason[result.rejectionReason]
+        : undefined,
+    postponingReason:
+      result.postponingReason !== undefined
+        ? PostponingReason[result.postponingReason]
+        : undefined,
+  }));
+  console.table(
+    orders.map(
+      ({ orderId, verdict, rejectionReason, postponingReason, profitUsd }) => ({
+        orderId,
+        verdict,
+        reason: rejectionReason || postponingReason,
+        profitUsd: profitUsd?.toFixed(2),
+      })
+    )
+  );
+  console.table(
+    report.routes.map((summary) => ({
+      ...summary,
+      profitUsd: summary.profitUsd.toFixed(2),
+    }))
+  );
+
+  const out = getOption(args, "out");
+  if (out) {
+    await writeFile(
+      out,
+      JSON.stringify({ orders, routes: report.routes }, null, 2)
+    );
+    logger.info(`report has been written to ${out}`);
+  }
+}
+
+async function main() {
+  const logger = pino(
+    { level: process.env.LOG_LEVEL || "info" },
+    pretty({ colorize: process.stdout.isTTY, sync: true, singleLine: true })
+  );
+  const [command, ...args] = process.argv.slice(2);
+  switch (command) {
+    case "capture":
+      return capture(args, logger);
+    case "run":
+      return run(args, logger);
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(`Backtest failed`);
+    console.error(e);
+    process.exit(1);
+  });
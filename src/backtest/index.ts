@@ -0,0 +1,19 @@
+import {
+  Backtest,
+  BacktestOpts,
+  BacktestOrderResult,
+  BacktestReport,
+  BacktestRouteSummary,
+  BacktestVerdict,
+} from "./backtest";
+import { MarketSnapshot } from "./market.snapshot";
+
+export {
+  Backtest,
+  BacktestOpts,
+  BacktestOrderResult,
+  BacktestReport,
+  BacktestRouteSummary,
+  BacktestVerdict,
+  MarketSnapshot,
+};
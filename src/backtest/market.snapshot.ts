@@ -0,0 +1,57 @@
+import { ChainId, tokenAddressToString } from "@debridge-finance/dln-client";
+
+type TokenValues = { [key in ChainId]?: { [tokenAddress: string]: number } };
+
+/**
+ * Market conditions the backtest is run against. Tokens are referred by their addresses; the native currency is
+ * referred by the zero address (0x0000000000000000000000000000000000000000 for EVM chains,
+ * 11111111111111111111111111111111 for Solana)
+ */
+export type MarketSnapshot = {
+  /**
+   * USD prices of tokens
+   */
+  prices: TokenValues;
+
+  /**
+   * Decimals of tokens. Decimals of the native currency are known and may be omitted
+   */
+  decimals: TokenValues;
+
+  /**
+   * Cost of the taker flow (fulfill, send unlock and claim unlock, assuming unlocks are sent in batches) of a single
+   * order, in the native currency of the take chain (e.g. 0.002 = 0.002 ETH)
+   */
+  takerFlowCosts: { [key in ChainId]?: number };
+
+  /**
+   * Balances of reserve tokens held by the taker, in token units (e.g. 1000 = 1000 USDC). Balances of tokens
+   * missing here are considered unlimited
+   */
+  balances?: TokenValues;
+
+  /**
+   * Loss of the pre-fulfill swap compared to the exchange rate derived from USD prices, in bps.
+   * Default: 0
+   */
+  swapLossBps?: number;
+};
+
+export function findTokenValue(
+  values: TokenValues | undefined,
+  chainId: ChainId,
+  token: Uint8Array
+): number | undefined {
+  const chainValues = values?.[chainId];
+  if (!chainValues) return undefined;
+
+  const tokenAddress = tokenAddressToString(chainId, token);
+  if (chainValues[tokenAddress] !== undefined) return chainValues[tokenAddress];
+
+  // EVM addresses are often given checksummed
+  if (chainId === ChainId.Solana) return undefined;
+  const entry = Object.entries(chainValues).find(
+    ([address]) => address.toLowerCase() === tokenAddress.toLowerCase()
+  );
+  return entry?.[1];
+}
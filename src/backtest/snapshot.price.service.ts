@@ -0,0 +1,30 @@
+import {
+  ChainId,
+  getNativeToken,
+  PriceTokenService,
+  tokenAddressToString,
+} from "@debridge-finance/dln-client";
+
+import { findTokenValue, MarketSnapshot } from "./market.snapshot";
+
+/**
+ * Serves USD prices recorded in the market snapshot
+ */
+export class SnapshotPriceService extends PriceTokenService {
+  constructor(private readonly snapshot: MarketSnapshot) {
+    super();
+  }
+
+  async getPrice(chainId: ChainId, token: Uint8Array | null): Promise<number> {
+    const tokenAddress = token || getNativeToken(chainId);
+    const price = findTokenValue(this.snapshot.prices, chainId, tokenAddress);
+    if (price === undefined) {
+      throw new Error(
+        `price of ${tokenAddressToString(chainId, tokenAddress)} on ${
+          ChainId[chainId]
+        } is missing in the market snapshot`
+      );
+    }
+    return price;
+  }
+}
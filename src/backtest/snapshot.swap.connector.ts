@@ -0,0 +1,54 @@
+import {
+  BPS_DENOMINATOR,
+  ChainId,
+  SwapConnector,
+} from "@debridge-finance/dln-client";
+import {
+  SwapConnectorEstimationRequest,
+  SwapConnectorEstimationResult,
+  SwapConnectorResult,
+} from "@debridge-finance/dln-client/dist/types/swapConnector/swap.connector";
+import BigNumber from "bignumber.js";
+
+import { MarketSnapshot } from "./market.snapshot";
+import { SnapshotPriceService } from "./snapshot.price.service";
+
+/**
+ * Estimates swaps at the exchange rate derived from USD prices recorded in the market snapshot, reduced by the
+ * swapLossBps. Swap txns can't be built during backtests
+ */
+export class SnapshotSwapConnector implements SwapConnector {
+  constructor(
+    private readonly snapshot: MarketSnapshot,
+    private readonly priceService: SnapshotPriceService,
+    private readonly getDecimals: (
+      chainId: ChainId,
+      token: Uint8Array
+    ) => Promise<number>
+  ) {}
+
+  async getEstimate(
+    request: SwapConnectorEstimationRequest
+  ): Promise<SwapConnectorEstimationResult> {
+    const { chainId, fromTokenAddress, toTokenAddress, amountIn } = request;
+    const [fromPrice, toPrice, fromDecimals, toDecimals] = await Promise.all([
+      this.priceService.getPrice(chainId, fromTokenAddress),
+      this.priceService.getPrice(chainId, toTokenAddress),
+      this.getDecimals(chainId, fromTokenAddress),
+      this.getDecimals(chainId, toTokenAddress),
+    ]);
+
+    const amountOut = new BigNumber(amountIn.toString())
+      .multipliedBy(fromPrice)
+      .div(toPrice)
+      .multipliedBy(new BigNumber(10).pow(toDecimals - fromDecimals))
+      .multipliedBy(BPS_DENOMINATOR - (this.snapshot.swapLossBps || 0))
+      .div(BPS_DENOMINATOR)
+      .integerValue(BigNumber.ROUND_FLOOR);
+    return { amountOut: BigInt(amountOut.toFixed(0)) };
+  }
+
+  async getSwap<Chain extends ChainId>(): Promise<SwapConnectorResult<Chain>> {
+    throw new Error("swap txns can't be built during backtests");
+  }
+}
@@ -5,11 +5,17 @@ import {
   TokensBucket,
 } from "@debridge-finance/dln-client";
 
+import { AdminServerOpts } from "./admin";
 import { OrderFilterInitializer } from "./filters/order.filter";
-import { GetNextOrder } from "./interfaces";
-import { OrderProcessorInitializer } from "./processors";
 import { Hooks } from "./hooks/HookEnums";
 import { HookHandler } from "./hooks/HookHandler";
+import { GetNextOrder } from "./interfaces";
+import { MetricsServerOpts } from "./metrics";
+import { BalanceMonitorOpts } from "./monitor";
+import { OrderProcessorInitializer } from "./processors";
+import { ReserveRebalancerOpts } from "./rebalancer";
+import { OrderFeedRecorder } from "./recorder";
+import { OrderStateStore } from "./stores";
 
 type address = string;
 
@@ -25,7 +31,8 @@ export enum SupportedChain {
 
 export class EvmRebroadcastAdapterOpts {
   /**
-   * defines a multiplier to increase a pending txn's gasPrice for pushing it off the mempool.
+   * defines a multiplier to increase a pending txn's gasPrice (or both maxFeePerGas and maxPriorityFeePerGas for
+   * EIP-1559 txns) for pushing it off the mempool.
    * Default: 1.1
    */
   bumpGasPriceMultiplier?: number;
@@ -74,6 +81,13 @@ export type ChainEnvironment = {
   evm?: {
     forwarderContract?: address;
     evmRebroadcastAdapterOpts?: EvmRebroadcastAdapterOpts;
+
+    /**
+     * Use EIP-1559 (type-2) txns with maxFeePerGas and maxPriorityFeePerGas derived from eth_feeHistory
+     * instead of legacy txns with gasPrice.
+     * Default: true for Ethereum, Arbitrum, Polygon and Avalanche, false for other chains
+     */
+    eip1559?: boolean;
   };
 
   solana?: {
@@ -95,15 +109,30 @@ export interface ChainDefinition {
   chain: ChainId;
 
   /**
-   * URL to the chain's RPC node
+   * URL to the chain's RPC node, or a list of URLs of the chain's RPC nodes. When a list is given, every request is
+   * sent to a healthy node (faster nodes are picked more often) and fails over to other nodes if the picked one
+   * is unreachable, while txns are broadcasted to all healthy nodes
+   */
+  chainRpc: string | string[];
+
+  /**
+   * Number of RPC nodes (listed in chainRpc) which must return the same result for critical reads: order statuses
+   * and balances.
+   * Default: 1 (no quorum)
    */
-  chainRpc: string;
+  rpcQuorum?: number;
 
   /**
    * Forcibly disable fulfills in this chain?
    */
   disabled?: boolean;
 
+  /**
+   * Run the full estimation pipeline for orders coming to this chain, but never broadcast fulfill and unlock txns.
+   * Overrides the global dryRun setting
+   */
+  dryRun?: boolean;
+
 
   /**
   * chain context related
@@ -130,6 +159,15 @@ export interface ChainDefinition {
      * ```
      */
     requiredConfirmationsThresholds?: Array<{thresholdAmountInUSD: number, minBlockConfirmations: number}>;
+
+    /**
+     * Max total USD worth of orders coming from this chain which were fulfilled before their finalization (as allowed
+     * by requiredConfirmationsThresholds), so the loss caused by the chain reorg is capped. The worth of the order is
+     * released once the order gets finalized or its unlock is claimed. Non-finalized orders exceeding the budget are
+     * rejected, letting them come finalized.
+     * Default: unlimited
+     */
+    unconfirmedOrdersBudgetInUSD?: number;
   }
 
   //
@@ -203,6 +241,53 @@ export interface ExecutorLaunchConfig {
    */
   orderFeed?: string | GetNextOrder;
 
+  /**
+   * Persistent storage of the orders kept in processors' queues, mempool and batch unlock queues,
+   * used to restore them after restart
+   * Default: FileOrderStateStore (executor.state.jsonl in the current working directory)
+   */
+  orderStateStore?: OrderStateStore;
+
+  /**
+   * Records every order delivered to the executor into the JSON-lines file, which can be played back later
+   * using the ReplayOrderFeed
+   * Default: disabled
+   */
+  orderFeedRecorder?: OrderFeedRecorder;
+
+  /**
+   * Starts the HTTP server exposing Prometheus metrics at GET /metrics
+   * Default: disabled
+   */
+  metrics?: MetricsServerOpts;
+
+  /**
+   * Starts the local HTTP API to inspect queues and control the running executor
+   * Default: disabled
+   */
+  adminApi?: AdminServerOpts;
+
+  /**
+   * Keeps reserves of token buckets distributed between chains by placing DLN orders from chains having surplus
+   * to chains having deficit
+   * Default: disabled
+   */
+  rebalancer?: ReserveRebalancerOpts;
+
+  /**
+   * Polls balances of reserve tokens and native currency held by the taker and unlock authority wallets, firing
+   * the ReserveBalanceLow and GasBalanceLow hooks once they drop below the given thresholds
+   * Default: disabled
+   */
+  balanceMonitor?: BalanceMonitorOpts;
+
+  /**
+   * Run the full estimation pipeline for all orders, but never broadcast fulfill and unlock txns. Orders that would
+   * have been fulfilled are reported via the OrderWouldBeFulfilled hook
+   * Default: false
+   */
+  dryRun?: boolean;
+
   chains: ChainDefinition[];
 
   /**
@@ -3,7 +3,9 @@ import pino, { Logger } from "pino";
 import pretty from "pino-pretty";
 import { createWriteStream } from "pino-sentry";
 
+import { AdminServer } from "../admin";
 import { ExecutorLaunchConfig } from "../config";
+import { MetricsServer } from "../metrics";
 
 import { Executor } from "./executor";
 
@@ -19,7 +21,15 @@ export class ExecutorEngine {
   }
 
   async init() {
-    return this.executor.init(this.executorConfig);
+    await this.executor.init(this.executorConfig);
+
+    if (this.executorConfig.metrics) {
+      await new MetricsServer(this.executorConfig.metrics, this.logger).start();
+    }
+
+    if (this.executorConfig.adminApi) {
+      await new AdminServer(this.executorConfig.adminApi, this.executor, this.logger).start();
+    }
   }
 
   private createLogger() {
@@ -1,4 +1,5 @@
 import {
+  buffersAreEqual,
   ChainId,
   CoingeckoPriceFeed,
   Evm,
@@ -11,6 +12,7 @@ import {
   SwapConnector,
   SwapConnectorImpl,
   TokensBucket,
+  tokenStringToBuffer,
 } from "@debridge-finance/dln-client";
 import { helpers } from "@debridge-finance/solana-utils";
 import { Connection, Keypair, PublicKey } from "@solana/web3.js";
@@ -20,17 +22,32 @@ import { Logger } from "pino";
 import { ChainDefinition, ExecutorLaunchConfig, SupportedChain } from "../config";
 import { PRODUCTION } from "../environments";
 import * as filters from "../filters";
-import { OrderFilter } from "../filters";
-import { GetNextOrder, IncomingOrder, OrderInfoStatus } from "../interfaces";
+import { FilterVerdict, OrderFilter, toFilterVerdict } from "../filters";
+import { withOrderPatch } from "../helpers";
+import { HooksEngine } from "../hooks/HooksEngine";
+import {
+  GetNextOrder,
+  IncomingOrder,
+  OrderFeedSubscription,
+  OrderInfoStatus,
+} from "../interfaces";
+import { metrics } from "../metrics";
+import { BalanceMonitor } from "../monitor";
 import { WsNextOrder } from "../orderFeeds/ws.order.feed";
 import * as processors from "../processors";
+import { isManageableOrderProcessor } from "../processors/base";
+import { UnconfirmedOrdersBudget } from "../processors/unconfirmed.orders.budget";
 import { EvmProviderAdapter } from "../providers/evm.provider.adapter";
 import { ProviderAdapter } from "../providers/provider.adapter";
+import { createEvmRpcProvider } from "../providers/rpc/evm.rpc.provider";
+import { createSolanaRpcConnection } from "../providers/rpc/solana.rpc.connection";
 import { SolanaProviderAdapter } from "../providers/solana.provider.adapter";
-import { HooksEngine } from "../hooks/HooksEngine";
+import { ReserveRebalancer } from "../rebalancer";
+import { OrderFeedRecorder } from "../recorder";
+import { FileOrderStateStore, OrderStateStore, StoredOrderKind } from "../stores";
 
 
-const BLOCK_CONFIRMATIONS_HARD_CAPS: { [key in SupportedChain]: number } = {
+export const BLOCK_CONFIRMATIONS_HARD_CAPS: { [key in SupportedChain]: number } = {
   [SupportedChain.Avalanche]: 15,
   [SupportedChain.Arbitrum]: 15,
   [SupportedChain.BSC]: 15,
@@ -42,7 +59,8 @@ const BLOCK_CONFIRMATIONS_HARD_CAPS: { [key in SupportedChain]: number } = {
 
 export type ExecutorInitializingChain = {
   chain: ChainId;
-  chainRpc: string;
+  chainRpc: string | string[];
+  dryRun: boolean;
   unlockProvider: ProviderAdapter;
   fulfillProvider: ProviderAdapter;
   client: Solana.PmmClient | Evm.PmmEvmClient;
@@ -56,10 +74,12 @@ type UsdWorthBlockConfirmationConstraints = Array<{
 
 export type ExecutorSupportedChain = {
   chain: ChainId;
-  chainRpc: string;
+  chainRpc: string | string[];
+  dryRun: boolean;
   srcFilters: OrderFilter[];
   dstFilters: OrderFilter[];
   usdAmountConfirmations: UsdWorthBlockConfirmationConstraints;
+  unconfirmedOrdersBudget?: UnconfirmedOrdersBudget;
   orderProcessor: processors.IOrderProcessor;
   unlockProvider: ProviderAdapter;
   fulfillProvider: ProviderAdapter;
@@ -67,6 +87,34 @@ export type ExecutorSupportedChain = {
   client: Solana.PmmClient | Evm.PmmEvmClient;
 };
 
+/**
+ * Converts required confirmation thresholds of the chain into ranges of USD worth of orders
+ */
+export function getConfirmationRanges(chain: SupportedChain, definition: ChainDefinition): UsdWorthBlockConfirmationConstraints {
+  const ranges: UsdWorthBlockConfirmationConstraints = [];
+  const requiredConfirmationsThresholds = definition.constraints?.requiredConfirmationsThresholds || [];
+  requiredConfirmationsThresholds
+    .sort((a, b) => a.thresholdAmountInUSD < b.thresholdAmountInUSD ? -1 : 1) // sort by usdWorth ASC
+    .forEach((threshold, index, thresholdsSortedByUsdWorth) => {
+      const prev = index === 0 ? {minBlockConfirmations: 0, thresholdAmountInUSD: 0} : thresholdsSortedByUsdWorth[index - 1];
+
+      if (threshold.minBlockConfirmations <= prev.minBlockConfirmations) {
+        throw new Error(`Unable to set required confirmation threshold for $${threshold.thresholdAmountInUSD} on ${SupportedChain[chain]}: minBlockConfirmations (${threshold.minBlockConfirmations}) must be greater than ${prev.minBlockConfirmations}`)
+      }
+      if (BLOCK_CONFIRMATIONS_HARD_CAPS[chain] <= threshold.minBlockConfirmations) {
+        throw new Error(`Unable to set required confirmation threshold for $${threshold.thresholdAmountInUSD} on ${SupportedChain[chain]}: minBlockConfirmations (${threshold.minBlockConfirmations}) must be less than max block confirmations (${BLOCK_CONFIRMATIONS_HARD_CAPS[chain]})`)
+      }
+
+      ranges.push({
+        usdWorthFrom: prev.thresholdAmountInUSD,
+        usdWorthTo: threshold.thresholdAmountInUSD,
+        minBlockConfirmations: threshold.minBlockConfirmations
+      })
+    });
+
+  return ranges;
+}
+
 export interface IExecutor {
   readonly tokenPriceService: PriceTokenService;
   readonly swapConnector: SwapConnector;
@@ -74,6 +122,7 @@ export interface IExecutor {
   readonly chains: { [key in ChainId]?: ExecutorSupportedChain };
   readonly buckets: TokensBucket[];
   readonly client: PMMClient;
+  readonly rebalancer?: ReserveRebalancer;
 }
 
 export class Executor implements IExecutor {
@@ -83,7 +132,11 @@ export class Executor implements IExecutor {
   chains: { [key in ChainId]?: ExecutorSupportedChain } = {};
   buckets: TokensBucket[] = [];
   client: PMMClient;
+  rebalancer?: ReserveRebalancer;
 
+  private orderStateStore: OrderStateStore;
+  private orderFeedRecorder?: OrderFeedRecorder;
+  private hooksEngine: HooksEngine;
   private isInitialized = false;
   private readonly url1Inch = "https://nodes.debridge.finance";
   constructor(private readonly logger: Logger) { }
@@ -106,6 +159,15 @@ export class Executor implements IExecutor {
 
     this.buckets = config.buckets;
     const hooksEngine = new HooksEngine(config.hookHandlers || {}, this.logger);
+    this.hooksEngine = hooksEngine;
+
+    this.orderStateStore = config.orderStateStore || new FileOrderStateStore();
+    await this.orderStateStore.init(this.logger);
+
+    if (config.orderFeedRecorder) {
+      this.orderFeedRecorder = config.orderFeedRecorder;
+      await this.orderFeedRecorder.init(this.logger);
+    }
 
     const clients: { [key in number]: any } = {};
     for (const chain of config.chains) {
@@ -117,7 +179,9 @@ export class Executor implements IExecutor {
 
       let client, unlockProvider, fulfillProvider;
       if (chain.chain === ChainId.Solana) {
-        const solanaConnection = new Connection(chain.chainRpc);
+        const solanaConnection = Array.isArray(chain.chainRpc)
+          ? createSolanaRpcConnection(chain.chainRpc, chain.rpcQuorum, this.logger.child({ chainId: chain.chain }))
+          : new Connection(chain.chainRpc);
         const solanaPmmSrc = new PublicKey(
           chain.environment?.pmmSrc ||
           PRODUCTION.chains[ChainId.Solana]!.pmmSrc!
@@ -165,15 +229,33 @@ export class Executor implements IExecutor {
           config.chains.map(chainConfig => chainConfig.chain),
           jupiterConnector
         );
-        if (altInitTx) {
+        if (altInitTx && (chain.dryRun ?? config.dryRun)) {
+          this.logger.info(`dry run: Solana Address Lookup Table (ALT) does not exist, initialization tx is not broadcasted`)
+        } else if (altInitTx) {
           this.logger.info(`Initializing Solana Address Lookup Table (ALT)`)
           await fulfillProvider.sendTransaction(altInitTx, { logger: this.logger })
         } else {
           this.logger.info(`Solana Address Lookup Table (ALT) already exists`)
         }
       } else {
-        unlockProvider = new EvmProviderAdapter(chain.chain, chain.chainRpc, chain.unlockAuthorityPrivateKey);
-        fulfillProvider = new EvmProviderAdapter(chain.chain, chain.chainRpc, chain.takerPrivateKey, chain.environment?.evm?.evmRebroadcastAdapterOpts);
+        // the pool of RPC nodes is shared by both providers
+        const evmRpc = Array.isArray(chain.chainRpc)
+          ? createEvmRpcProvider(chain.chainRpc, chain.rpcQuorum, this.logger.child({ chainId: chain.chain }))
+          : chain.chainRpc;
+        unlockProvider = new EvmProviderAdapter(
+          chain.chain,
+          evmRpc,
+          chain.unlockAuthorityPrivateKey,
+          undefined,
+          chain.environment?.evm?.eip1559
+        );
+        fulfillProvider = new EvmProviderAdapter(
+          chain.chain,
+          evmRpc,
+          chain.takerPrivateKey,
+          chain.environment?.evm?.evmRebroadcastAdapterOpts,
+          chain.environment?.evm?.eip1559
+        );
 
         client = new Evm.PmmEvmClient({
           enableContractsCache: true,
@@ -207,6 +289,7 @@ export class Executor implements IExecutor {
       const initializingChain = {
         chain: chain.chain,
         chainRpc: chain.chainRpc,
+        dryRun: chain.dryRun ?? config.dryRun ?? false,
         unlockProvider,
         fulfillProvider: fulfillProvider,
         client,
@@ -216,6 +299,7 @@ export class Executor implements IExecutor {
         buckets: config.buckets,
         logger: this.logger,
         hooksEngine,
+        orderStateStore: this.orderStateStore,
       });
 
       const dstFiltersInitializers = chain.dstFilters || [];
@@ -245,13 +329,22 @@ export class Executor implements IExecutor {
       this.chains[chain.chain] = {
         chain: chain.chain,
         chainRpc: chain.chainRpc,
+        dryRun: initializingChain.dryRun,
         srcFilters,
         dstFilters,
         orderProcessor,
         unlockProvider,
         fulfillProvider: fulfillProvider,
         client,
-        usdAmountConfirmations: this.getConfirmationRanges(chain.chain as unknown as SupportedChain, chain),
+        usdAmountConfirmations: getConfirmationRanges(chain.chain as unknown as SupportedChain, chain),
+        unconfirmedOrdersBudget: chain.constraints?.unconfirmedOrdersBudgetInUSD !== undefined
+          ? new UnconfirmedOrdersBudget(
+              chain.chain,
+              chain.constraints.unconfirmedOrdersBudgetInUSD,
+              this.orderStateStore,
+              this.logger
+            )
+          : undefined,
         beneficiary: chain.beneficiary,
       };
 
@@ -260,6 +353,8 @@ export class Executor implements IExecutor {
 
     this.client = new PMMClient(clients);
 
+    await this.restoreOrders();
+
     let orderFeed = config.orderFeed as GetNextOrder;
     if (typeof orderFeed === "string" || !orderFeed) {
       orderFeed = new WsNextOrder(orderFeed);
@@ -268,6 +363,7 @@ export class Executor implements IExecutor {
       Object.values(this.chains).map((chain) => chain.chain)
     );
     orderFeed.setLogger(this.logger);
+    orderFeed.setSubscription(this.getOrderFeedSubscription(config));
     this.orderFeed = orderFeed;
 
     const unlockAuthorities = Object.values(this.chains).map((chain) => {
@@ -285,38 +381,107 @@ export class Executor implements IExecutor {
     // Override internal slippage calculation: do not reserve slippage buffer for pre-fulfill swap
     setSlippageOverloader(() => 0);
 
+    if (config.rebalancer) {
+      this.rebalancer = new ReserveRebalancer(config.rebalancer, this, hooksEngine, this.logger);
+      this.rebalancer.start();
+    }
+
+    if (config.balanceMonitor) {
+      new BalanceMonitor(config.balanceMonitor, this, hooksEngine, this.logger).start();
+    }
+
     this.isInitialized = true;
   }
 
-  private getConfirmationRanges(chain: SupportedChain, definition: ChainDefinition): UsdWorthBlockConfirmationConstraints {
-    const ranges: UsdWorthBlockConfirmationConstraints = [];
-    const requiredConfirmationsThresholds = definition.constraints?.requiredConfirmationsThresholds || [];
-    requiredConfirmationsThresholds
-      .sort((a, b) => a.thresholdAmountInUSD < b.thresholdAmountInUSD ? -1 : 1) // sort by usdWorth ASC
-      .forEach((threshold, index, thresholdsSortedByUsdWorth) => {
-        const prev = index === 0 ? {minBlockConfirmations: 0, thresholdAmountInUSD: 0} : thresholdsSortedByUsdWorth[index - 1];
+  /**
+   * Passes orders persisted before the restart back to the processors of their take chains
+   */
+  private async restoreOrders() {
+    const storedOrders = await this.orderStateStore.getAll();
+    this.logger.info(`restoring ${storedOrders.length} order(s) from the order state store`);
+    for (const { kind, orderInfo, attempts, usdWorth, patch, queuedAt } of storedOrders) {
+      const logger = this.logger.child({ orderId: orderInfo.orderId });
+      const takeChain = this.chains[orderInfo.order.take.chainId];
+      const giveChain = this.chains[orderInfo.order.give.chainId];
+      if (!takeChain || !giveChain) {
+        logger.info(`order direction is not configured anymore, dropping stored order`);
+        this.orderStateStore.delete(kind, orderInfo.orderId);
+        continue;
+      }
 
-        if (threshold.minBlockConfirmations <= prev.minBlockConfirmations) {
-          throw new Error(`Unable to set required confirmation threshold for $${threshold.thresholdAmountInUSD} on ${SupportedChain[chain]}: minBlockConfirmations (${threshold.minBlockConfirmations}) must be greater than ${prev.minBlockConfirmations}`)
+      if (kind === StoredOrderKind.UnconfirmedExposure) {
+        logger.debug(`restoring the exposure of the order fulfilled before finalization`);
+        if (giveChain.unconfirmedOrdersBudget) {
+          giveChain.unconfirmedOrdersBudget.restore(orderInfo.orderId, usdWorth || 0);
+        } else {
+          this.orderStateStore.delete(kind, orderInfo.orderId);
         }
-        if (BLOCK_CONFIRMATIONS_HARD_CAPS[chain] <= threshold.minBlockConfirmations) {
-          throw new Error(`Unable to set required confirmation threshold for $${threshold.thresholdAmountInUSD} on ${SupportedChain[chain]}: minBlockConfirmations (${threshold.minBlockConfirmations}) must be less than max block confirmations (${BLOCK_CONFIRMATIONS_HARD_CAPS[chain]})`)
+        continue;
+      }
+
+      logger.debug(`passing the restored order to the processor`);
+      takeChain.orderProcessor.process({
+        orderInfo,
+        context: {
+          logger,
+          config: this,
+          giveChain,
+        },
+        attempts,
+        patch,
+        queuedAt,
+      }).catch((e) => logger.error(`processing of the restored order failed: ${e}`));
+    }
+  }
+
+  /**
+   * Derives orders the executor could ever fulfill from the config: enabled chains, bucket tokens and static
+   * token whitelists set by the whitelistedGiveToken (srcFilters) and whitelistedTakeToken (dstFilters) filters
+   */
+  private getOrderFeedSubscription(config: ExecutorLaunchConfig): OrderFeedSubscription {
+    const intersect = (tokens: Uint8Array[] | undefined, whitelist: Uint8Array[]) =>
+      (tokens || whitelist).filter(
+        (token, index, list) =>
+          whitelist.some((allowed) => buffersAreEqual(token, allowed)) &&
+          list.findIndex((other) => buffersAreEqual(token, other)) === index
+      );
+
+    const subscription: OrderFeedSubscription = { give: [], take: [] };
+    for (const chain of config.chains) {
+      // the give token must be covered by some bucket, otherwise the order is rejected as UNEXPECTED_GIVE_TOKEN
+      const bucketTokens = this.buckets.flatMap((bucket) => bucket.findTokens(chain.chain) || []);
+      let giveTokens = intersect(undefined, bucketTokens);
+      for (const initializer of chain.srcFilters || []) {
+        const whitelist = initializer.tokenConstraints?.giveTokens;
+        if (whitelist) {
+          giveTokens = intersect(giveTokens, whitelist.map((token) => tokenStringToBuffer(chain.chain, token)));
         }
+      }
+      if (giveTokens.length > 0) {
+        subscription.give.push({ chainId: chain.chain, tokens: giveTokens });
+      }
 
-        ranges.push({
-          usdWorthFrom: prev.thresholdAmountInUSD,
-          usdWorthTo: threshold.thresholdAmountInUSD,
-          minBlockConfirmations: threshold.minBlockConfirmations
-        })
-      });
+      // take tokens are not restricted by buckets, because the reserve token is swapped to the take token
+      // during the fulfillment
+      let takeTokens: Uint8Array[] | undefined;
+      for (const initializer of chain.dstFilters || []) {
+        const whitelist = initializer.tokenConstraints?.takeTokens;
+        if (whitelist) {
+          takeTokens = intersect(takeTokens, whitelist.map((token) => tokenStringToBuffer(chain.chain, token)));
+        }
+      }
+      subscription.take.push({ chainId: chain.chain, tokens: takeTokens });
+    }
 
-    return ranges;
+    return subscription;
   }
 
-  async execute(nextOrderInfo: IncomingOrder<any>) {
+  async execute(nextOrderInfo: IncomingOrder<any>, rawPayload?: unknown) {
+    this.orderFeedRecorder?.record(nextOrderInfo, rawPayload);
     const orderId = nextOrderInfo.orderId;
     const logger = this.logger.child({ orderId });
     logger.info(`new order received, type: ${OrderInfoStatus[nextOrderInfo.status]}`)
+    metrics.ordersReceived.inc({ status: OrderInfoStatus[nextOrderInfo.status] });
     logger.debug(nextOrderInfo);
     try {
       await this.executeOrder(nextOrderInfo, logger);
@@ -345,6 +510,23 @@ export class Executor implements IExecutor {
       return false;
     }
 
+    // the order fulfilled before its finalization is not subject to the chain reorg anymore
+    const finalizationInfo = (nextOrderInfo as IncomingOrder<OrderInfoStatus.Created>).finalization_info;
+    if (
+      giveChain.unconfirmedOrdersBudget &&
+      (nextOrderInfo.status === OrderInfoStatus.UnlockClaim ||
+        (nextOrderInfo.status === OrderInfoStatus.Created &&
+          typeof finalizationInfo === "object" &&
+          "Finalized" in finalizationInfo))
+    ) {
+      giveChain.unconfirmedOrdersBudget.release(orderId);
+    }
+
+    if (this.rebalancer?.isOwnOrder(order)) {
+      logger.info(`order is placed by the rebalancer, dropping`);
+      return false;
+    }
+
     // to accept an order, all filters must approve the order.
     // executor invokes three groups of filters:
     // 1) defined globally (config.filters)
@@ -365,29 +547,65 @@ export class Executor implements IExecutor {
     }
 
     //
-    // run filters for create or archival orders
+    // run filters for create or archival orders, and for patched orders because patches change amounts the filters
+    // have approved before
     //
+    const isPatch = [
+      OrderInfoStatus.TakeOfferDecreased,
+      OrderInfoStatus.GiveOfferIncreased,
+    ].includes(nextOrderInfo.status);
     if (
+      isPatch ||
       [OrderInfoStatus.Created, OrderInfoStatus.ArchivalCreated].includes(
         nextOrderInfo.status
       )
     ) {
       logger.debug("running filters against the order");
-      const orderFilters = await Promise.all(
-        listOrderFilters.map((filter) =>
-          filter(order, {
-            logger,
-            config: this,
-            giveChain,
-            takeChain,
-          })
+      const filteredOrder = isPatch
+        ? withOrderPatch(
+            order,
+            (nextOrderInfo as IncomingOrder<OrderInfoStatus.TakeOfferDecreased>).patch
+          )
+        : order;
+      const verdicts: FilterVerdict[] = await Promise.all(
+        listOrderFilters.map(async (filter, index) =>
+          toFilterVerdict(
+            await filter(filteredOrder, {
+              logger,
+              config: this,
+              giveChain,
+              takeChain,
+              orderId,
+            }),
+            `filter #${index}`
+          )
         )
       );
 
-      if (!orderFilters.every((it) => it)) {
-        logger.info("order has been filtered off, dropping");
+      const rejections = verdicts.filter((verdict) => !verdict.approved);
+      if (rejections.length > 0) {
+        const message = `order has been filtered off by ${rejections
+          .map(
+            (verdict) =>
+              `${verdict.filter} (${verdict.reason || "no reason given"})`
+          )
+          .join(", ")}`;
+        logger.info(`${message}, dropping`);
+        this.hooksEngine.handleOrderFiltered({
+          order: nextOrderInfo,
+          verdicts,
+          message,
+        });
+        // the order known to the processor must not be fulfilled on the patched terms
+        if (
+          isPatch &&
+          isManageableOrderProcessor(takeChain.orderProcessor)
+        ) {
+          takeChain.orderProcessor.evictOrder(orderId);
+        }
         return false;
       }
+      filters.commitVerdicts(verdicts);
     } else {
       logger.debug("accepting order as is");
     }
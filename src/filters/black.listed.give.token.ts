@@ -8,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilterInitContext,
   OrderFilterInitializer,
 } from "./order.filter";
@@ -23,19 +24,26 @@ export function blacklistedGiveToken(
     const addressesBuffer = addresses.map((address) =>
       tokenStringToBuffer(chainId, address)
     );
-    return async (order: OrderData, context: FilterContext) => {
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({
         filter: "blackListedGiveToken",
       });
-      const result = addressesBuffer.some((address) =>
+      const result = !addressesBuffer.some((address) =>
         buffersAreEqual(order.give.tokenAddress, address)
       );
 
-      const giveToken = !helpers.bufferToHex(
+      const giveToken = helpers.bufferToHex(
         Buffer.from(order.give.tokenAddress)
       );
       logger.info(`approve status: ${result}, giveToken ${giveToken}`);
-      return Promise.resolve(result);
+      return {
+        filter: "blacklistedGiveToken",
+        approved: result,
+        reason: `give token ${giveToken} is ${result ? "not " : ""}blacklisted`,
+      };
     };
   };
 }
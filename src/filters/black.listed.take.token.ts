@@ -8,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilterInitContext,
   OrderFilterInitializer,
 } from "./order.filter";
@@ -24,7 +25,10 @@ export function blacklistedTakeToken(
     const addressesBuffer = addresses.map((address) =>
       tokenStringToBuffer(chainId, address)
     );
-    return async (order: OrderData, context: FilterContext) => {
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({
         filter: "blackListedTakeToken",
       });
@@ -36,7 +40,11 @@ export function blacklistedTakeToken(
         Buffer.from(order.take.tokenAddress)
       );
       logger.info(`approve status: ${result}, takeToken ${takeToken}`);
-      return Promise.resolve(result);
+      return {
+        filter: "blacklistedTakeToken",
+        approved: result,
+        reason: `take token ${takeToken} is ${result ? "not " : ""}blacklisted`,
+      };
     };
   };
 }
@@ -0,0 +1,196 @@
+import { ChainId, OrderData } from "@debridge-finance/dln-client";
+
+import {
+  commitVerdicts,
+  FilterContext,
+  FilterVerdict,
+  OrderFilter,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+  toFilterVerdict,
+} from "./order.filter";
+
+export type FirstMatchRule = {
+  /**
+   * Filter selecting orders this rule applies to
+   */
+  when: OrderFilterInitializer;
+
+  /**
+   * Filter deciding on orders selected by this rule
+   */
+  then: OrderFilterInitializer;
+};
+
+function initAll(
+  initializers: OrderFilterInitializer[],
+  chainId: ChainId,
+  context: OrderFilterInitContext
+): Promise<OrderFilter[]> {
+  return Promise.all(
+    initializers.map((initializer) => initializer(chainId, context))
+  );
+}
+
+async function evaluate(
+  filter: OrderFilter,
+  order: OrderData,
+  context: FilterContext
+): Promise<FilterVerdict> {
+  // custom filters returning bare booleans have no name
+  return toFilterVerdict(await filter(order, context), "anonymous");
+}
+
+function describe(verdict: FilterVerdict): string {
+  return `${verdict.filter}: ${
+    verdict.reason || (verdict.approved ? "approved" : "rejected")
+  }`;
+}
+
+/**
+ * Approves the order if all given filters approve it. Filters are called one by one, and the first rejection
+ * stops the evaluation and is returned as the verdict
+ */
+export function and(
+  ...initializers: OrderFilterInitializer[]
+): OrderFilterInitializer {
+  return async (chainId: ChainId, context: OrderFilterInitContext) => {
+    const filters = await initAll(initializers, chainId, context);
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      const approvals: FilterVerdict[] = [];
+      for (const filter of filters) {
+        const verdict = await evaluate(filter, order, context);
+        if (!verdict.approved) return verdict;
+        approvals.push(verdict);
+      }
+      return {
+        filter: "and",
+        approved: true,
+        commit: () => commitVerdicts(approvals),
+      };
+    };
+  };
+}
+
+/**
+ * Approves the order if any of the given filters approves it. Filters are called one by one, and the first approval
+ * stops the evaluation and is returned as the verdict
+ */
+export function or(
+  ...initializers: OrderFilterInitializer[]
+): OrderFilterInitializer {
+  return async (chainId: ChainId, context: OrderFilterInitContext) => {
+    const filters = await initAll(initializers, chainId, context);
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      const rejections: FilterVerdict[] = [];
+      for (const filter of filters) {
+        const verdict = await evaluate(filter, order, context);
+        if (verdict.approved) return verdict;
+        rejections.push(verdict);
+      }
+      return {
+        filter: "or",
+        approved: false,
+        reason: rejections.map(describe).join("; "),
+      };
+    };
+  };
+}
+
+/**
+ * Approves the order if the given filter rejects it
+ */
+export function not(
+  initializer: OrderFilterInitializer
+): OrderFilterInitializer {
+  return async (chainId: ChainId, context: OrderFilterInitContext) => {
+    const filter = await initializer(chainId, context);
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      const verdict = await evaluate(filter, order, context);
+      return {
+        filter: `not(${verdict.filter})`,
+        approved: !verdict.approved,
+        reason: verdict.reason,
+      };
+    };
+  };
+}
+
+/**
+ * Finds the first rule whose `when` filter approves the order, and lets its `then` filter decide on the order.
+ * Orders matching no rule are rejected.
+ * For example, to accept orders of any size from trusted makers, and orders under $500 from anyone else:
+ *
+ * firstMatch(
+ *   { when: whitelistedMaker(trusted), then: takeAmountUsdEquivalentBetween(0, 100_000) },
+ *   { when: not(whitelistedMaker(trusted)), then: takeAmountUsdEquivalentBetween(0, 500) },
+ * )
+ */
+export function firstMatch(...rules: FirstMatchRule[]): OrderFilterInitializer {
+  return async (chainId: ChainId, context: OrderFilterInitContext) => {
+    const conditions = await initAll(
+      rules.map((rule) => rule.when),
+      chainId,
+      context
+    );
+    const verdicts = await initAll(
+      rules.map((rule) => rule.then),
+      chainId,
+      context
+    );
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      for (let i = 0; i < conditions.length; i++) {
+        if ((await evaluate(conditions[i], order, context)).approved) {
+          context.logger.debug(`firstMatch: rule #${i} matched`);
+          return evaluate(verdicts[i], order, context);
+        }
+      }
+      context.logger.info(`firstMatch: no rule matched, rejecting`);
+      return {
+        filter: "firstMatch",
+        approved: false,
+        reason: "no rule matched the order",
+      };
+    };
+  };
+}
+
+/**
+ * Combines the given filters under the name, so the same set of filters can be reused across srcFilters and
+ * dstFilters of several chains. Approves the order if all filters of the group approve it
+ */
+export function group(
+  name: string,
+  initializers: OrderFilterInitializer[]
+): OrderFilterInitializer {
+  const combined = and(...initializers);
+  return async (chainId: ChainId, context: OrderFilterInitContext) => {
+    const filter = await combined(chainId, context);
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      const logger = context.logger.child({ filterGroup: name });
+      const verdict = await evaluate(filter, order, { ...context, logger });
+      logger.info(`approve status: ${verdict.approved}`);
+      return {
+        filter: name,
+        approved: verdict.approved,
+        reason: verdict.approved ? undefined : describe(verdict),
+        commit: verdict.commit,
+      };
+    };
+  };
+}
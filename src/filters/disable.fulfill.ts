@@ -2,6 +2,7 @@ import { ChainId, OrderData } from "@debridge-finance/dln-client";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilterInitContext,
   OrderFilterInitializer,
 } from "./order.filter";
@@ -12,11 +13,18 @@ import {
  */
 export function disableFulfill(): OrderFilterInitializer {
   return async (chainId: ChainId, context: OrderFilterInitContext) => {
-    return async (order: OrderData, context: FilterContext) => {
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
       const result = false;
       const logger = context.logger.child({ filter: "disableFulfill" });
       logger.info(`approve status: ${result}`);
-      return Promise.resolve(false);
+      return {
+        filter: "disableFulfill",
+        approved: result,
+        reason: `fulfillment is disabled on ${ChainId[chainId]}`,
+      };
     };
   };
 }
@@ -0,0 +1,94 @@
+import {
+  buffersAreEqual,
+  ChainId,
+  OrderData,
+  tokenAddressToString,
+  tokenStringToBuffer,
+} from "@debridge-finance/dln-client";
+
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilter,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+} from "./order.filter";
+import { getTakeAmountUsdWorth } from "./usd.worth";
+
+export type ExternalCallFilterOpts = {
+  /**
+   * Receivers of the take amount which the external call is allowed to be executed against. Pass an empty list to
+   * skip all orders carrying external calls.
+   * Default: any receiver
+   */
+  targets?: string[];
+
+  /**
+   * Min USD equivalent of the execution fee (paid out of the take amount to the taker executing the call)
+   * Default: 0
+   */
+  minExecutionFeeUsd?: number;
+};
+
+/**
+ * Checks if the external call carried by the order is acceptable: its target is in the given list, and its execution
+ * fee is worth at least the given USD amount. Orders without external calls are approved.
+ */
+export function externalCall(
+  opts: ExternalCallFilterOpts = {}
+): OrderFilterInitializer {
+  return async (
+    chainId: ChainId,
+    context: OrderFilterInitContext
+  ): Promise<OrderFilter> => {
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      if (!order.externalCall) {
+        return {
+          filter: "externalCall",
+          approved: true,
+          reason: "order carries no external call",
+        };
+      }
+      const logger = context.logger.child({ filter: "externalCall" });
+      const target = tokenAddressToString(order.take.chainId, order.receiver);
+
+      if (
+        opts.targets &&
+        !opts.targets.some((address) =>
+          buffersAreEqual(
+            order.receiver,
+            tokenStringToBuffer(order.take.chainId, address)
+          )
+        )
+      ) {
+        const reason = `target ${target} is not allowed`;
+        logger.info(`approve status: false, ${reason}`);
+        return { filter: "externalCall", approved: false, reason };
+      }
+
+      if (opts.minExecutionFeeUsd) {
+        const executionFeeUsd = await getTakeAmountUsdWorth(
+          order,
+          context,
+          logger,
+          order.externalCall.executionFee
+        );
+        if (executionFeeUsd < opts.minExecutionFeeUsd) {
+          const reason = `execution fee ($${executionFeeUsd}) is less than $${opts.minExecutionFeeUsd}`;
+          logger.info(`approve status: false, ${reason}`);
+          return { filter: "externalCall", approved: false, reason };
+        }
+      }
+
+      logger.info(`approve status: true, target ${target}`);
+      return {
+        filter: "externalCall",
+        approved: true,
+        reason: `external call to ${target} is acceptable`,
+      };
+    };
+  };
+}
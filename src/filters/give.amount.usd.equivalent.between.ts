@@ -1,15 +1,13 @@
 import { ChainId, OrderData } from "@debridge-finance/dln-client";
 import { helpers } from "@debridge-finance/solana-utils";
-import BigNumber from "bignumber.js";
-
-import { createClientLogger } from "../logger";
-import { EvmProviderAdapter } from "../providers/evm.provider.adapter";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilterInitContext,
   OrderFilterInitializer,
 } from "./order.filter";
+import { getGiveAmountUsdWorth } from "./usd.worth";
 
 /**
  * Checks if the USD equivalent of the order's unlock amount (amount given by the maker upon order creation, deducted by the fees) is in the given range.
@@ -23,37 +21,16 @@ export const giveAmountUsdEquivalentBetween = (
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({
         filter: "giveAmountUsdEquivalentBetween",
       });
-      const clientLogger = createClientLogger(logger);
-      const giveWeb3 = (context.giveChain.fulfillProvider as EvmProviderAdapter)
-        .connection;
       const giveAddress = helpers.bufferToHex(
         Buffer.from(order.give.tokenAddress)
       );
       logger.debug(`giveAddress=${giveAddress}`);
 
-      const [givePrice, giveDecimals] = await Promise.all([
-        context.config.tokenPriceService.getPrice(
-          order.give.chainId,
-          order.give.tokenAddress,
-          { logger: clientLogger }
-        ),
-        context.config.client.getDecimals(
-          order.give.chainId,
-          order.give.tokenAddress,
-          giveWeb3
-        ),
-      ]);
-      logger.debug(`givePrice=${givePrice}`);
-      logger.debug(`giveDecimals=${giveDecimals}`);
-
-      const giveUsdAmount = BigNumber(givePrice)
-        .multipliedBy(order.give.amount.toString())
-        .dividedBy(new BigNumber(10).pow(giveDecimals))
-        .toNumber();
+      const giveUsdAmount = await getGiveAmountUsdWorth(order, context, logger);
       logger.debug(`giveUsdAmount=${giveUsdAmount}`);
 
       const result =
@@ -62,7 +39,12 @@ export const giveAmountUsdEquivalentBetween = (
       logger.info(
         `approve status: ${result}, giveUsdAmount: ${giveUsdAmount.toString()}`
       );
-      return Promise.resolve(result);
+      const range = `between $${minUSDEquivalent} and $${maxUSDEquivalent}`;
+      return {
+        filter: "giveAmountUsdEquivalentBetween",
+        approved: result,
+        reason: `give amount is worth $${giveUsdAmount}, expected ${range}`,
+      };
     };
   };
 };
@@ -1,9 +1,19 @@
 import { blacklistedGiveToken } from "./black.listed.give.token";
 import { blacklistedTakeToken } from "./black.listed.take.token";
+import { and, firstMatch, FirstMatchRule, group, not, or } from "./combinators";
 import { disableFulfill } from "./disable.fulfill";
+import { externalCall } from "./external.call";
 import { giveAmountUsdEquivalentBetween } from "./give.amount.usd.equivalent.between";
-import { OrderFilter } from "./order.filter";
+import { makerRateLimit } from "./maker.rate.limit";
+import {
+  commitVerdicts,
+  FilterVerdict,
+  OrderFilter,
+  toFilterVerdict,
+} from "./order.filter";
+import { RouteLimit, routeLimits, RouteSchedule } from "./route.limits";
 import { takeAmountUsdEquivalentBetween } from "./take.amount.usd.equivalent.between";
+import { getGiveAmountUsdWorth, getTakeAmountUsdWorth } from "./usd.worth";
 import { whitelistedGiveToken } from "./white.listed.give.token";
 import { whitelistedMaker } from "./white.listed.marker";
 import { whitelistedReceiver } from "./white.listed.receiver";
@@ -11,12 +21,28 @@ import { whitelistedTakeToken } from "./white.listed.take.token";
 import { whitelistedOrderId  } from "./white.listed.orderid";
 
 export {
+  and,
   blacklistedGiveToken,
   blacklistedTakeToken,
+  commitVerdicts,
   disableFulfill,
+  externalCall,
+  FilterVerdict,
+  firstMatch,
+  FirstMatchRule,
+  getGiveAmountUsdWorth,
+  getTakeAmountUsdWorth,
   giveAmountUsdEquivalentBetween,
+  group,
+  makerRateLimit,
+  not,
   OrderFilter,
+  or,
+  RouteLimit,
+  routeLimits,
+  RouteSchedule,
   takeAmountUsdEquivalentBetween,
+  toFilterVerdict,
   whitelistedGiveToken,
   whitelistedMaker,
   whitelistedTakeToken,
@@ -0,0 +1,155 @@
+import {
+  ChainId,
+  OrderData,
+  tokenAddressToString,
+} from "@debridge-finance/dln-client";
+
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilter,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+} from "./order.filter";
+import { getTakeAmountUsdWorth } from "./usd.worth";
+
+export type MakerRateLimitFilterOpts = {
+  /**
+   * Length of the sliding window, in seconds
+   */
+  window: number;
+
+  /**
+   * Max number of orders per maker within the window.
+   * Default: unlimited
+   */
+  maxOrders?: number;
+
+  /**
+   * Max USD equivalent of take amounts of orders per maker within the window.
+   * Default: unlimited
+   */
+  maxTakeAmountUsd?: number;
+
+  /**
+   * Apply the same limits to orders per receiver, so the actor can't bypass the limits by placing orders from
+   * different addresses.
+   * Default: false
+   */
+  trackReceiver?: boolean;
+};
+
+type TrackedOrder = {
+  orderId: string;
+  timestamp: number;
+  takeAmountUsd: number;
+};
+
+/**
+ * Limits the number of orders and the USD equivalent of their take amounts per maker (and optionally per receiver)
+ * over the sliding window, so a single actor can't drain reserves with a burst of orders. Only orders approved by
+ * all filters are counted against the limits, so orders evaluated simultaneously may overrun the limits slightly.
+ * The state of the filter is shared by all chains it is attached to: attach separate instances to limit makers
+ * per chain.
+ */
+export function makerRateLimit(
+  opts: MakerRateLimitFilterOpts
+): OrderFilterInitializer {
+  const windowMs = opts.window * 1000;
+  const trackedOrders = new Map<string, TrackedOrder[]>(); // key: maker or receiver along with its chain
+
+  function prune(now: number) {
+    for (const [key, orders] of trackedOrders) {
+      const actual = orders.filter((it) => now - it.timestamp < windowMs);
+      if (actual.length > 0) trackedOrders.set(key, actual);
+      else trackedOrders.delete(key);
+    }
+  }
+
+  function checkLimits(
+    actor: string,
+    orderId: string,
+    takeAmountUsd: number
+  ): string | undefined {
+    // the order evaluated before (e.g., announced once again upon finalization) is not counted twice
+    const orders = (trackedOrders.get(actor) || []).filter(
+      (it) => it.orderId !== orderId
+    );
+    if (opts.maxOrders !== undefined && orders.length + 1 > opts.maxOrders) {
+      return `${actor} has placed ${orders.length} order(s) within ${opts.window}s, max ${opts.maxOrders} allowed`;
+    }
+    const windowTakeAmountUsd = orders.reduce(
+      (sum, it) => sum + it.takeAmountUsd,
+      takeAmountUsd
+    );
+    if (
+      opts.maxTakeAmountUsd !== undefined &&
+      windowTakeAmountUsd > opts.maxTakeAmountUsd
+    ) {
+      const usd = windowTakeAmountUsd.toFixed(2);
+      return `${actor} would take $${usd} within ${opts.window}s, max $${opts.maxTakeAmountUsd} allowed`;
+    }
+  }
+
+  return async (
+    chainId: ChainId,
+    context: OrderFilterInitContext
+  ): Promise<OrderFilter> => {
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      const logger = context.logger.child({ filter: "makerRateLimit" });
+
+      let takeAmountUsd = 0;
+      if (opts.maxTakeAmountUsd !== undefined) {
+        takeAmountUsd = await getTakeAmountUsdWorth(order, context, logger);
+        logger.debug(`takeAmountUsd=${takeAmountUsd}`);
+      }
+
+      const now = Date.now();
+      prune(now);
+      const { orderId } = context;
+      const actors = [
+        `maker ${ChainId[order.give.chainId]}:${tokenAddressToString(
+          order.give.chainId,
+          order.maker
+        )}`,
+      ];
+      if (opts.trackReceiver) {
+        actors.push(
+          `receiver ${ChainId[order.take.chainId]}:${tokenAddressToString(
+            order.take.chainId,
+            order.receiver
+          )}`
+        );
+      }
+
+      for (const actor of actors) {
+        const reason = checkLimits(actor, orderId, takeAmountUsd);
+        if (reason) {
+          logger.info(`approve status: false, ${reason}`);
+          return { filter: "makerRateLimit", approved: false, reason };
+        }
+      }
+
+      logger.info(`approve status: true, ${actors.join(", ")} within limits`);
+      return {
+        filter: "makerRateLimit",
+        approved: true,
+        reason: `${actors.join(", ")} within limits`,
+        // the order is counted only once all other filters have approved it too
+        commit: () => {
+          for (const actor of actors) {
+            trackedOrders.set(actor, [
+              ...(trackedOrders.get(actor) || []).filter(
+                (it) => it.orderId !== orderId
+              ),
+              { orderId, timestamp: Date.now(), takeAmountUsd },
+            ]);
+          }
+        },
+      };
+    };
+  };
+}
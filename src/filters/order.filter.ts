@@ -12,6 +12,11 @@ export interface FilterContext {
   config: IExecutor;
   giveChain: ExecutorSupportedChain;
   takeChain: ExecutorSupportedChain;
+
+  /**
+   * Id of the order. The filtered order may carry amounts set by its patches, so its calculated id may differ
+   */
+  orderId: string;
 }
 
 export type OrderFilterInitContext = {
@@ -19,17 +24,62 @@ export type OrderFilterInitContext = {
   chain: ExecutorInitializingChain;
 };
 
-export type OrderFilterInitializer = (
+/**
+ * Tokens the filter restricts orders to, known before any order arrives. Used to narrow the subscription of the
+ * order feed
+ */
+export type OrderFilterTokenConstraints = {
+  giveTokens?: string[];
+  takeTokens?: string[];
+};
+
+export type OrderFilterInitializer = ((
   chainId: ChainId,
   context: OrderFilterInitContext
-) => Promise<OrderFilter>;
+) => Promise<OrderFilter>) & {
+  tokenConstraints?: OrderFilterTokenConstraints;
+};
+
+/**
+ * Explains the decision of the filter
+ */
+export type FilterVerdict = {
+  filter: string;
+  approved: boolean;
+  reason?: string;
+
+  /**
+   * Called once all filters have approved the order, so stateful filters account only for orders which are
+   * actually passed to the processor
+   */
+  commit?: () => void;
+};
 
 /**
  * Represents an order filter routine. Can be chained.
- * Returns true if order can be processed, false otherwise.
+ * Returns true (or the approving verdict) if order can be processed, false (or the rejecting verdict) otherwise.
  *
  */
 export type OrderFilter = (
   order: OrderData,
   context: FilterContext
-) => Promise<boolean>;
+) => Promise<boolean | FilterVerdict>;
+
+/**
+ * Converts the result of the filter to the verdict. Bare booleans are attributed to the given filter name
+ */
+export function toFilterVerdict(
+  result: boolean | FilterVerdict,
+  filter: string
+): FilterVerdict {
+  return typeof result === "boolean" ? { filter, approved: result } : result;
+}
+
+/**
+ * Commits the approving verdicts once the order has been approved by all filters
+ */
+export function commitVerdicts(verdicts: FilterVerdict[]): void {
+  for (const verdict of verdicts) {
+    if (verdict.approved) verdict.commit?.();
+  }
+}
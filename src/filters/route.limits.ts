@@ -0,0 +1,179 @@
+import { ChainId, OrderData, TokensBucket } from "@debridge-finance/dln-client";
+
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilter,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+} from "./order.filter";
+import { getTakeAmountUsdWorth } from "./usd.worth";
+
+export type RouteSchedule = {
+  /**
+   * Days of the week (UTC) the route is open on, 0 for Sunday.
+   * Default: every day
+   */
+  days?: number[];
+
+  /**
+   * Hour of the day (UTC) the route opens at, [0, 23].
+   * Default: 0
+   */
+  fromHour?: number;
+
+  /**
+   * Hour of the day (UTC) the route closes at, [1, 24]. May be less than fromHour for routes open over midnight.
+   * Default: 24
+   */
+  toHour?: number;
+};
+
+export type RouteLimit = {
+  giveChain: ChainId;
+  takeChain: ChainId;
+
+  /**
+   * Narrows the route down to orders giving tokens of this bucket. Routes with the bucket take precedence over
+   * routes without it.
+   * Default: any give token
+   */
+  bucket?: TokensBucket;
+
+  /**
+   * Default: true
+   */
+  enabled?: boolean;
+
+  /**
+   * Min USD equivalent of the order's take amount.
+   * Default: 0
+   */
+  minUsdWorth?: number;
+
+  /**
+   * Max USD equivalent of the order's take amount.
+   * Default: unlimited
+   */
+  maxUsdWorth?: number;
+
+  /**
+   * Time the route is open at. Orders coming at other times are rejected.
+   * Default: always open
+   */
+  schedule?: RouteSchedule;
+};
+
+export type RouteLimitsFilterOpts = {
+  /**
+   * Reject orders coming from/to directions which are not listed.
+   * Default: false
+   */
+  rejectUnlistedRoutes?: boolean;
+};
+
+function isOpen(schedule: RouteSchedule, date: Date): boolean {
+  if (schedule.days && !schedule.days.includes(date.getUTCDay())) return false;
+
+  const fromHour = schedule.fromHour ?? 0;
+  const toHour = schedule.toHour ?? 24;
+  const hour = date.getUTCHours();
+  return fromHour <= toHour
+    ? fromHour <= hour && hour < toHour
+    : fromHour <= hour || hour < toHour;
+}
+
+/**
+ * Applies limits to orders per direction (give chain, take chain), optionally narrowed by the bucket of the give
+ * token, so all directions can be managed from one table. A direction may be disabled, limited by the USD
+ * equivalent of the take amount, or opened on schedule.
+ */
+export function routeLimits(
+  routes: RouteLimit[],
+  opts: RouteLimitsFilterOpts = {}
+): OrderFilterInitializer {
+  for (const route of routes) {
+    const direction = `${ChainId[route.giveChain]}→${ChainId[route.takeChain]}`;
+    const { fromHour, toHour } = route.schedule || {};
+    if (fromHour !== undefined && (fromHour < 0 || fromHour > 23)) {
+      throw new Error(`${direction}: fromHour must be in [0, 23]`);
+    }
+    if (toHour !== undefined && (toHour < 1 || toHour > 24)) {
+      throw new Error(`${direction}: toHour must be in [1, 24]`);
+    }
+  }
+
+  return async (
+    chainId: ChainId,
+    context: OrderFilterInitContext
+  ): Promise<OrderFilter> => {
+    return async (
+      order: OrderData,
+      context: FilterContext
+    ): Promise<FilterVerdict> => {
+      const logger = context.logger.child({ filter: "routeLimits" });
+      const direction = `${ChainId[order.give.chainId]}→${
+        ChainId[order.take.chainId]
+      }`;
+
+      const directionRoutes = routes.filter(
+        (route) =>
+          route.giveChain === order.give.chainId &&
+          route.takeChain === order.take.chainId
+      );
+      const route =
+        directionRoutes.find((it) =>
+          it.bucket?.isOneOf(order.give.chainId, order.give.tokenAddress)
+        ) || directionRoutes.find((it) => !it.bucket);
+
+      const reject = (reason: string): FilterVerdict => {
+        logger.info(`approve status: false, ${reason}`);
+        return { filter: "routeLimits", approved: false, reason };
+      };
+
+      if (!route) {
+        if (opts.rejectUnlistedRoutes) {
+          return reject(`route ${direction} is not listed`);
+        }
+        logger.debug(`route ${direction} is not listed, approving`);
+        return {
+          filter: "routeLimits",
+          approved: true,
+          reason: `route ${direction} is not listed`,
+        };
+      }
+
+      if (route.enabled === false) {
+        return reject(`route ${direction} is disabled`);
+      }
+
+      if (route.schedule && !isOpen(route.schedule, new Date())) {
+        return reject(`route ${direction} is closed by schedule`);
+      }
+
+      if (route.minUsdWorth !== undefined || route.maxUsdWorth !== undefined) {
+        const takeUsdAmount = await getTakeAmountUsdWorth(
+          order,
+          context,
+          logger
+        );
+        logger.debug(`takeUsdAmount=${takeUsdAmount}`);
+
+        const minUsdWorth = route.minUsdWorth ?? 0;
+        const maxUsdWorth = route.maxUsdWorth ?? Infinity;
+        if (takeUsdAmount < minUsdWorth || maxUsdWorth < takeUsdAmount) {
+          return reject(
+            `take amount is worth $${takeUsdAmount}, route ${direction} expects between $${minUsdWorth} and $${maxUsdWorth}`
+          );
+        }
+      }
+
+      logger.info(`approve status: true, route ${direction}`);
+      return {
+        filter: "routeLimits",
+        approved: true,
+        reason: `order is within limits of route ${direction}`,
+      };
+    };
+  };
+}
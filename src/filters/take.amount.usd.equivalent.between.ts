@@ -1,15 +1,13 @@
 import { ChainId, OrderData } from "@debridge-finance/dln-client";
 import { helpers } from "@debridge-finance/solana-utils";
-import BigNumber from "bignumber.js";
-
-import { createClientLogger } from "../logger";
-import { EvmProviderAdapter } from "../providers/evm.provider.adapter";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilterInitContext,
   OrderFilterInitializer,
 } from "./order.filter";
+import { getTakeAmountUsdWorth } from "./usd.worth";
 
 /**
  * Checks if the USD equivalent of the order's requested amount (amount that should be supplied to fulfill the order successfully) is in the given range.
@@ -24,39 +22,16 @@ export const takeAmountUsdEquivalentBetween = (
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({
         filter: "takeAmountUsdEquivalentBetween",
       });
-      const clientLogger = createClientLogger(logger);
-      const takeWeb3 = (
-        context.takeChain
-          .fulfillProvider as EvmProviderAdapter
-      ).connection;
       const takeAddress = helpers.bufferToHex(
         Buffer.from(order.take.tokenAddress)
       );
       logger.debug(`takeAddress=${takeAddress}`);
 
-      const [takePrice, takeDecimals] = await Promise.all([
-        context.config.tokenPriceService.getPrice(
-          order.take.chainId,
-          order.take.tokenAddress,
-          { logger: clientLogger }
-        ),
-        context.config.client.getDecimals(
-          order.take.chainId,
-          order.take.tokenAddress,
-          takeWeb3
-        ),
-      ]);
-      logger.debug(`takePrice=${takePrice}`);
-      logger.debug(`takeDecimals=${takeDecimals}`);
-
-      const takeUsdAmount = BigNumber(takePrice)
-        .multipliedBy(order.take.amount.toString())
-        .dividedBy(new BigNumber(10).pow(takeDecimals))
-        .toNumber();
+      const takeUsdAmount = await getTakeAmountUsdWorth(order, context, logger);
       logger.debug(`takeUsdAmount=${takeUsdAmount}`);
 
       const result =
@@ -65,7 +40,12 @@ export const takeAmountUsdEquivalentBetween = (
       logger.info(
         `approve status: ${result}, takeUsdAmount: ${takeUsdAmount.toString()}`
       );
-      return Promise.resolve(result);
+      const range = `between $${minUSDEquivalent} and $${maxUSDEquivalent}`;
+      return {
+        filter: "takeAmountUsdEquivalentBetween",
+        approved: result,
+        reason: `take amount is worth $${takeUsdAmount}, expected ${range}`,
+      };
     };
   };
 };
@@ -0,0 +1,67 @@
+import { ChainId, OrderData } from "@debridge-finance/dln-client";
+import BigNumber from "bignumber.js";
+import { Logger } from "pino";
+import Web3 from "web3";
+
+import { createClientLogger } from "../logger";
+
+import { FilterContext } from "./order.filter";
+
+async function getUsdWorth(
+  chainId: ChainId,
+  tokenAddress: Uint8Array,
+  amount: bigint,
+  connection: Web3,
+  context: FilterContext,
+  logger: Logger
+): Promise<number> {
+  const [price, decimals] = await Promise.all([
+    context.config.tokenPriceService.getPrice(chainId, tokenAddress, {
+      logger: createClientLogger(logger),
+    }),
+    context.config.client.getDecimals(chainId, tokenAddress, connection),
+  ]);
+  logger.debug(`price=${price}, decimals=${decimals}`);
+
+  return BigNumber(price)
+    .multipliedBy(amount.toString())
+    .dividedBy(new BigNumber(10).pow(decimals))
+    .toNumber();
+}
+
+/**
+ * Returns the USD equivalent of the given amount of the take token, which is the order's take amount by default
+ */
+export function getTakeAmountUsdWorth(
+  order: OrderData,
+  context: FilterContext,
+  logger: Logger,
+  amount: bigint = order.take.amount
+): Promise<number> {
+  return getUsdWorth(
+    order.take.chainId,
+    order.take.tokenAddress,
+    amount,
+    context.takeChain.fulfillProvider.connection as Web3,
+    context,
+    logger
+  );
+}
+
+/**
+ * Returns the USD equivalent of the order's give amount
+ */
+export function getGiveAmountUsdWorth(
+  order: OrderData,
+  context: FilterContext,
+  logger: Logger
+): Promise<number> {
+  return getUsdWorth(
+    order.give.chainId,
+    order.give.tokenAddress,
+    order.give.amount,
+    context.giveChain.fulfillProvider.connection as Web3,
+    context,
+    logger
+  );
+}
@@ -8,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilter,
   OrderFilterInitContext,
   OrderFilterInitializer,
@@ -20,7 +21,7 @@ import {
 export function whitelistedGiveToken(
   addresses: string[]
 ): OrderFilterInitializer {
-  return async (
+  const initializer: OrderFilterInitializer = async (
     chainId: ChainId,
     context: OrderFilterInitContext
   ): Promise<OrderFilter> => {
@@ -30,7 +31,7 @@ export function whitelistedGiveToken(
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({
         filter: "WhiteListedGiveToken",
       });
@@ -42,7 +43,13 @@ export function whitelistedGiveToken(
         Buffer.from(order.give.tokenAddress)
       );
       logger.info(`approve status: ${result}, giveToken ${giveToken}`);
-      return Promise.resolve(result);
+      return {
+        filter: "whitelistedGiveToken",
+        approved: result,
+        reason: `give token ${giveToken} is ${result ? "" : "not "}whitelisted`,
+      };
     };
   };
+  initializer.tokenConstraints = { giveTokens: addresses };
+  return initializer;
 }
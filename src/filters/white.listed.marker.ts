@@ -8,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilter,
   OrderFilterInitContext,
   OrderFilterInitializer,
@@ -28,7 +29,7 @@ export function whitelistedMaker(addresses: string[]): OrderFilterInitializer {
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({ filter: "WhiteListedMarker" });
       const result = addressesBuffer.some((address) =>
         buffersAreEqual(order.maker, address)
@@ -36,7 +37,11 @@ export function whitelistedMaker(addresses: string[]): OrderFilterInitializer {
 
       const maker = helpers.bufferToHex(Buffer.from(order.maker));
       logger.info(`approve status: ${result}, maker ${maker}`);
-      return Promise.resolve(result);
+      return {
+        filter: "whitelistedMaker",
+        approved: result,
+        reason: `maker ${maker} is ${result ? "" : "not "}whitelisted`,
+      };
     };
   };
 }
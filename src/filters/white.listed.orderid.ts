@@ -1,7 +1,6 @@
 import {
   buffersAreEqual,
   ChainId,
-  Order,
   OrderData,
   tokenStringToBuffer,
 } from "@debridge-finance/dln-client";
@@ -9,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilter,
   OrderFilterInitContext,
   OrderFilterInitializer,
@@ -24,14 +24,18 @@ export function whitelistedOrderId(
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({ filter: "whitelistedOrderId" });
       const result = orderIds.some((orderId) =>
-        orderId === Order.calculateId(order)
+        orderId === context.orderId
       );
 
       logger.info(`approve status: ${result}, orderId is whitelisted`);
-      return Promise.resolve(result);
+      return {
+        filter: "whitelistedOrderId",
+        approved: result,
+        reason: `order id is ${result ? "" : "not "}whitelisted`,
+      };
     };
   };
 }
@@ -8,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilter,
   OrderFilterInitContext,
   OrderFilterInitializer,
@@ -30,7 +31,7 @@ export function whitelistedReceiver(
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({ filter: "WhiteListedReceiver" });
       const result = addressesBuffer.some((address) =>
         buffersAreEqual(order.receiver, address)
@@ -38,7 +39,11 @@ export function whitelistedReceiver(
 
       const receiver = helpers.bufferToHex(Buffer.from(order.receiver));
       logger.info(`approve status: ${result}, receiver ${receiver}`);
-      return Promise.resolve(result);
+      return {
+        filter: "whitelistedReceiver",
+        approved: result,
+        reason: `receiver ${receiver} is ${result ? "" : "not "}whitelisted`,
+      };
     };
   };
 }
@@ -8,6 +8,7 @@ import { helpers } from "@debridge-finance/solana-utils";
 
 import {
   FilterContext,
+  FilterVerdict,
   OrderFilter,
   OrderFilterInitContext,
   OrderFilterInitializer,
@@ -20,7 +21,7 @@ import {
 export function whitelistedTakeToken(
   addresses: string[]
 ): OrderFilterInitializer {
-  return async (
+  const initializer: OrderFilterInitializer = async (
     chainId: ChainId,
     context: OrderFilterInitContext
   ): Promise<OrderFilter> => {
@@ -30,7 +31,7 @@ export function whitelistedTakeToken(
     return async (
       order: OrderData,
       context: FilterContext
-    ): Promise<boolean> => {
+    ): Promise<FilterVerdict> => {
       const logger = context.logger.child({
         filter: "WhiteListedTakeToken",
       });
@@ -42,7 +43,13 @@ export function whitelistedTakeToken(
         Buffer.from(order.take.tokenAddress)
       );
       logger.info(`approve status: ${result}, takeToken ${takeToken}`);
-      return Promise.resolve(result);
+      return {
+        filter: "whitelistedTakeToken",
+        approved: result,
+        reason: `take token ${takeToken} is ${result ? "" : "not "}whitelisted`,
+      };
     };
   };
+  initializer.tokenConstraints = { takeTokens: addresses };
+  return initializer;
 }
@@ -1,6 +1,11 @@
-import { ChainId, OrderData } from "@debridge-finance/dln-client";
+import {
+  ChainId,
+  Order as DlnOrder,
+  OrderData,
+} from "@debridge-finance/dln-client";
 import { helpers } from "@debridge-finance/solana-utils";
 
+import { OrderPatch } from "./interfaces";
 import { Order } from "./pmm_common";
 
 export function timeDiff(timestamp: number) {
@@ -133,3 +138,99 @@ export function eventToOrderData(event: Order): OrderData {
   };
   return orderData;
 }
+
+/**
+ * Serializes the order into the hex string, so it can be written to JSON
+ */
+export function serializeOrderData(order: OrderData): string {
+  return helpers.bufferToHex(Buffer.from(DlnOrder.serialize(order)));
+}
+
+export function deserializeOrderData(serialized: string): OrderData {
+  const order = DlnOrder.deserialize(helpers.hexToBuffer(serialized));
+  // optional addresses are deserialized as empty buffers
+  if (order.allowedTaker?.length === 0) order.allowedTaker = undefined;
+  if (order.allowedCancelBeneficiary?.length === 0)
+    order.allowedCancelBeneficiary = undefined;
+  return order;
+}
+
+/**
+ * Returns the hex-encoded payload of the external call carried by the order event, if any
+ */
+export function eventToExternalCallData(event: Order): string | undefined {
+  if (!event.externalCall?.externalCallData.length) return undefined;
+  return helpers.bufferToHex(Buffer.from(event.externalCall.externalCallData));
+}
+
+/**
+ * Returns the fee paid out of the take amount to the executor of the order's external call. The call is executed
+ * within the fulfill txn, so the fee is earned by the taker
+ */
+export function getExecutionFee(order: OrderData): bigint {
+  return order.externalCall?.executionFee || 0n;
+}
+
+/**
+ * dln-client computes the orderId using the external call params (execution fee, fallback address, hash of the
+ * payload), but encodes the `externalCall` field of the EVM fulfill txn as is, so the payload itself must be passed
+ * there. This function returns the order which satisfies both: its `externalCall` is the buffer with the payload
+ * holding the params as well
+ */
+export function withExternalCallData(
+  order: OrderData,
+  externalCallData: string
+): OrderData {
+  if (!order.externalCall) return order;
+  const externalCall = Object.assign(
+    helpers.hexToBuffer(externalCallData),
+    order.externalCall
+  );
+  return { ...order, externalCall };
+}
+
+/**
+ * Returns the order with amounts set by its patches. The id of the returned order differs from the original one, so
+ * it must be used for estimations only and never passed to fulfill or unlock txns
+ */
+export function withOrderPatch(
+  order: OrderData,
+  patch?: OrderPatch
+): OrderData {
+  if (!patch) return order;
+  return {
+    ...order,
+    give: { ...order.give, amount: patch.giveAmount ?? order.give.amount },
+    take: { ...order.take, amount: patch.takeAmount ?? order.take.amount },
+  };
+}
+
+export type SerializedOrderPatch = {
+  takeAmount?: string;
+  giveAmount?: string;
+};
+
+/**
+ * Serializes amounts of the patch into strings, so it can be written to JSON
+ */
+export function serializeOrderPatch(patch: OrderPatch): SerializedOrderPatch {
+  return {
+    takeAmount: patch.takeAmount?.toString(),
+    giveAmount: patch.giveAmount?.toString(),
+  };
+}
+
+export function deserializeOrderPatch(
+  serialized: SerializedOrderPatch
+): OrderPatch {
+  return {
+    takeAmount:
+      serialized.takeAmount !== undefined
+        ? BigInt(serialized.takeAmount)
+        : undefined,
+    giveAmount:
+      serialized.giveAmount !== undefined
+        ? BigInt(serialized.giveAmount)
+        : undefined,
+  };
+}
@@ -7,6 +7,17 @@ export enum Hooks {
   OrderFulfilled,
   OrderUnlockSent,
   OrderUnlockFailed,
+  OrderWouldBeFulfilled,
+  ReserveRebalanceProposed,
+  ReserveRebalanceOrderPlaced,
+  ReserveRebalanceFailed,
+  ReserveBalanceLow,
+  GasBalanceLow,
+  OrderFeedLagged,
+  OrderPatched,
+  OrderFeedReconnectionFailed,
+  OrderFeedGapDetected,
+  OrderFiltered,
 }
 
 export enum PostponingReason {
@@ -49,6 +60,12 @@ export enum PostponingReason {
    * Unexpected error
    */
   UNHANDLED_ERROR,
+
+  /**
+   * indicates that the simulation of the fulfill txn reverts, and the order carries the external call which is the
+   * likely reason of the revert
+   */
+  EXTERNAL_CALL_SIMULATION_FAILED,
 }
 
 export enum RejectionReason {
@@ -84,7 +101,7 @@ export enum RejectionReason {
   NOT_ENOUGH_BLOCK_CONFIRMATIONS_FOR_ORDER_WORTH,
 
   /**
-   * future use: triggered when budget of unconfirmed orders exceeded
+   * indicates that fulfilling the non-finalized order would exceed the budget of unconfirmed orders of the give chain
    */
   UNCONFIRMED_ORDERS_BUDGED_EXCEEDED,
 
@@ -92,4 +109,10 @@ export enum RejectionReason {
    * indicates that non-finalized order is not covered by any custom block confirmation range
    */
   NOT_YET_FINALIZED,
+
+  /**
+   * indicates that the order carries the external call the taker is unable to execute (e.g., the order feed has not
+   * delivered its payload, or the take chain is not EVM)
+   */
+  UNSUPPORTED_EXTERNAL_CALL,
 }
@@ -1,6 +1,9 @@
+import { ChainId } from "@debridge-finance/dln-client";
 import { Logger } from "pino";
 
-import { Hooks } from "./HookEnums";
+import { metrics } from "../metrics";
+
+import { Hooks, PostponingReason, RejectionReason } from "./HookEnums";
 import { HookHandler } from "./HookHandler";
 import { HookParams } from "./types/HookParams";
 
@@ -21,6 +24,11 @@ export class HooksEngine {
     }
 
     handleOrderRejected(params: HookParams<Hooks.OrderRejected>) {
+        metrics.ordersRejected.inc({
+            reason: RejectionReason[params.reason],
+            giveChain: ChainId[params.order.order.give.chainId],
+            takeChain: ChainId[params.order.order.take.chainId],
+        });
         this.process(Hooks.OrderRejected, params);
     }
 
@@ -29,23 +37,96 @@ export class HooksEngine {
     }
 
     handleOrderPostponed(params: HookParams<Hooks.OrderPostponed>) {
+        metrics.ordersPostponed.inc({
+            reason: PostponingReason[params.reason],
+            giveChain: ChainId[params.order.order.give.chainId],
+            takeChain: ChainId[params.order.order.take.chainId],
+        });
         this.process(Hooks.OrderPostponed, params);
     }
 
     handleOrderFulfilled(params: HookParams<Hooks.OrderFulfilled>) {
+        metrics.ordersFulfilled.inc({
+            giveChain: ChainId[params.order.order.give.chainId],
+            takeChain: ChainId[params.order.order.take.chainId],
+        });
         this.process(Hooks.OrderFulfilled, params);
     }
 
     handleOrderUnlockSent(params: HookParams<Hooks.OrderUnlockSent>) {
+        metrics.unlocksSent.inc(
+            {
+                giveChain: ChainId[params.toChainId],
+                takeChain: ChainId[params.fromChainId],
+            },
+            params.orderIds.length
+        );
         this.process(Hooks.OrderUnlockSent, params);
     }
 
     handleOrderUnlockFailed(params: HookParams<Hooks.OrderUnlockFailed>) {
+        metrics.unlocksFailed.inc(
+            {
+                giveChain: ChainId[params.toChainId],
+                takeChain: ChainId[params.fromChainId],
+            },
+            params.orderIds.length
+        );
         this.process(Hooks.OrderUnlockFailed, params);
     }
 
-    private async process<T extends Hooks>(
-        hookEnum: Hooks,
+    handleOrderWouldBeFulfilled(params: HookParams<Hooks.OrderWouldBeFulfilled>) {
+        this.process(Hooks.OrderWouldBeFulfilled, params);
+    }
+
+    handleReserveRebalanceProposed(params: HookParams<Hooks.ReserveRebalanceProposed>) {
+        this.process(Hooks.ReserveRebalanceProposed, params);
+    }
+
+    handleReserveRebalanceOrderPlaced(params: HookParams<Hooks.ReserveRebalanceOrderPlaced>) {
+        this.process(Hooks.ReserveRebalanceOrderPlaced, params);
+    }
+
+    handleReserveRebalanceFailed(params: HookParams<Hooks.ReserveRebalanceFailed>) {
+        this.process(Hooks.ReserveRebalanceFailed, params);
+    }
+
+    handleReserveBalanceLow(params: HookParams<Hooks.ReserveBalanceLow>) {
+        this.process(Hooks.ReserveBalanceLow, params);
+    }
+
+    handleGasBalanceLow(params: HookParams<Hooks.GasBalanceLow>) {
+        this.process(Hooks.GasBalanceLow, params);
+    }
+
+    handleOrderFeedLagged(params: HookParams<Hooks.OrderFeedLagged>) {
+        this.process(Hooks.OrderFeedLagged, params);
+    }
+
+    handleOrderPatched(params: HookParams<Hooks.OrderPatched>) {
+        this.process(Hooks.OrderPatched, params);
+    }
+
+    handleOrderFeedReconnectionFailed(params: HookParams<Hooks.OrderFeedReconnectionFailed>) {
+        this.process(Hooks.OrderFeedReconnectionFailed, params);
+    }
+
+    handleOrderFeedGapDetected(params: HookParams<Hooks.OrderFeedGapDetected>) {
+        this.process(Hooks.OrderFeedGapDetected, params);
+    }
+
+    handleOrderFiltered(params: HookParams<Hooks.OrderFiltered>) {
+        this.process(Hooks.OrderFiltered, params);
+    }
+
+    private process<T extends Hooks>(hookEnum: T, params: HookParams<T>): void {
+        this.runHandlers<T>(hookEnum, params).catch((e) =>
+            this.logger.error(`Error in execution hook handlers in ${hookEnum}: ${e}`)
+        );
+    }
+
+    private async runHandlers<T extends Hooks>(
+        hookEnum: T,
         params: HookParams<T>
     ): Promise<void> {
         const handlers = this.hookHandlers[hookEnum];
@@ -1,7 +1,10 @@
 import { ChainId } from "@debridge-finance/dln-client";
 
-import { IncomingOrder } from "../../interfaces";
+import { FilterVerdict } from "../../filters/order.filter";
+import { IncomingOrder, OrderInfoStatus, OrderPatch } from "../../interfaces";
+import { WalletRole } from "../../monitor";
 import { OrderProcessorContext } from "../../processors/base";
+import { RebalanceProposal } from "../../rebalancer";
 import { Hooks, PostponingReason, RejectionReason } from "../HookEnums";
 
 import { OrderEstimation } from "./OrderEstimation";
@@ -63,4 +66,84 @@ export type HookParams<T extends Hooks> =
             estimation: OrderEstimation;
             context: OrderProcessorContext;
         }
+        : {}) &
+    (T extends Hooks.OrderWouldBeFulfilled
+        ? {
+            order: IncomingOrder<any>;
+            tx: unknown;
+            context: OrderProcessorContext;
+        }
+        : {}) &
+    (T extends Hooks.ReserveRebalanceProposed
+        ? {
+            proposal: RebalanceProposal;
+            approveOnly: boolean;
+        }
+        : {}) &
+    (T extends Hooks.ReserveRebalanceOrderPlaced
+        ? {
+            proposal: RebalanceProposal;
+            orderId?: string;
+            txHash: string;
+        }
+        : {}) &
+    (T extends Hooks.ReserveRebalanceFailed
+        ? {
+            proposal: RebalanceProposal;
+            message: string;
+        }
+        : {}) &
+    (T extends Hooks.ReserveBalanceLow
+        ? {
+            chainId: ChainId;
+            token: string;
+            address: string;
+            balance: number;
+            threshold: number;
+        }
+        : {}) &
+    (T extends Hooks.GasBalanceLow
+        ? {
+            chainId: ChainId;
+            role: WalletRole;
+            address: string;
+            balance: number;
+            threshold: number;
+        }
+        : {}) &
+    (T extends Hooks.OrderFeedLagged
+        ? {
+            orderFeed: string;
+            orderId: string;
+            status: OrderInfoStatus;
+            lag: number;
+        }
+        : {}) &
+    (T extends Hooks.OrderPatched
+        ? {
+            order: IncomingOrder<any>;
+            status: OrderInfoStatus;
+            patch: OrderPatch;
+            context: OrderProcessorContext;
+        }
+        : {}) &
+    (T extends Hooks.OrderFeedReconnectionFailed
+        ? {
+            attempts: number;
+            message: string;
+        }
+        : {}) &
+    (T extends Hooks.OrderFeedGapDetected
+        ? {
+            disconnectedAt: Date;
+            orderIds: string[];
+            message: string;
+        }
+        : {}) &
+    (T extends Hooks.OrderFiltered
+        ? {
+            order: IncomingOrder<any>;
+            verdicts: FilterVerdict[];
+            message: string;
+        }
         : {});
\ No newline at end of file
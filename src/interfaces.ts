@@ -31,9 +31,33 @@ export type IncomingOrder<T extends OrderInfoStatus> = {
   orderId: string;
   status: OrderInfoStatus;
   order: OrderData;
+
+  /**
+   * Hex-encoded payload of the external call carried by the order (if any), as passed by the order feed. Required
+   * to fulfill such order, because OrderData contains only the hash of the payload
+   */
+  externalCallData?: string;
 } & (T extends OrderInfoStatus.ArchivalFulfilled ? { unlockAuthority: string } : {}
 ) & (T extends OrderInfoStatus.Fulfilled ? { unlockAuthority: string } : {}
-) & (T extends OrderInfoStatus.Created ? { finalization_info: FinalizationInfo } : {})
+) & (T extends OrderInfoStatus.Created ? { finalization_info: FinalizationInfo } : {}
+) & (T extends OrderInfoStatus.TakeOfferDecreased ? { patch: OrderPatch } : {}
+) & (T extends OrderInfoStatus.GiveOfferIncreased ? { patch: OrderPatch } : {})
+
+/**
+ * Final amounts of the order set by its patches. The order itself (and thus its id) is never changed by patches,
+ * so patched amounts are carried along with the order
+ */
+export type OrderPatch = {
+  /**
+   * Final take amount set by the take offer decrease
+   */
+  takeAmount?: bigint;
+
+  /**
+   * Final give amount set by the give offer increase
+   */
+  giveAmount?: bigint;
+};
 
 export type ProcessOrder = (params: IncomingOrderContext) => Promise<void>;
 
@@ -41,17 +65,42 @@ export type IncomingOrderContext = {
   orderInfo: IncomingOrder<OrderInfoStatus>;
   context: OrderProcessorContext;
   attempts: number;
+
+  /**
+   * Patches of the order received so far
+   */
+  patch?: OrderPatch;
+
+  /**
+   * Time the fulfilled order has been added to the batch unlock queue before the restart, in ms
+   */
+  queuedAt?: number;
 };
 
-export type OrderProcessorFunc = (order: IncomingOrder<any>) => Promise<void>;
+/**
+ * Passes the order to the executor. Feeds may pass the payload the order has been decoded from, which is written
+ * along with the order by the OrderFeedRecorder
+ */
+export type OrderProcessorFunc = (order: IncomingOrder<any>, rawPayload?: unknown) => Promise<void>;
 
 export type UnlockAuthority = {
   chainId: ChainId;
   address: string;
 };
 
+/**
+ * Describes orders the executor could ever fulfill, so the order feed may skip other orders early.
+ * Orders must match both sides: come from one of the give chains and target one of the take chains. A side with
+ * no tokens listed accepts any token of its chain
+ */
+export type OrderFeedSubscription = {
+  give: { chainId: ChainId; tokens?: Uint8Array[] }[];
+  take: { chainId: ChainId; tokens?: Uint8Array[] }[];
+};
+
 export abstract class GetNextOrder {
   protected enabledChains: ChainId[];
+  protected subscription?: OrderFeedSubscription;
   protected logger: Logger;
   protected processNextOrder: OrderProcessorFunc;
 
@@ -74,4 +123,8 @@ export abstract class GetNextOrder {
   setLogger(logger: Logger) {
     this.logger = logger;
   }
+
+  setSubscription(subscription: OrderFeedSubscription) {
+    this.subscription = subscription;
+  }
 }
\ No newline at end of file
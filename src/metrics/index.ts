@@ -0,0 +1,4 @@
+import * as metrics from "./metrics";
+import { MetricsServer, MetricsServerOpts } from "./metrics.server";
+
+export { metrics, MetricsServer, MetricsServerOpts };
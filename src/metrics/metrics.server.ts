@@ -0,0 +1,56 @@
+import { createServer, Server } from "http";
+import { Logger } from "pino";
+
+import { registry } from "./metrics";
+
+export type MetricsServerOpts = {
+  /**
+   * Port to listen to
+   */
+  port: number;
+
+  /**
+   * Host to bind to. Default: 0.0.0.0
+   */
+  host?: string;
+};
+
+/**
+ * Exposes collected metrics in the Prometheus text format at GET /metrics
+ */
+export class MetricsServer {
+  private server: Server;
+  private readonly logger: Logger;
+
+  constructor(private readonly opts: MetricsServerOpts, logger: Logger) {
+    this.logger = logger.child({ service: "MetricsServer" });
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer(async (req, res) => {
+      if (req.method !== "GET" || req.url !== "/metrics") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      try {
+        const metrics = await registry.metrics();
+        res.writeHead(200, { "Content-Type": registry.contentType });
+        res.end(metrics);
+      } catch (e) {
+        this.logger.error(`unable to collect metrics: ${e}`);
+        this.logger.error(e);
+        res.writeHead(500).end();
+      }
+    });
+
+    const host = this.opts.host || "0.0.0.0";
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.opts.port, host, resolve);
+    });
+    this.logger.info(
+      `metrics are exposed at http://${host}:${this.opts.port}/metrics`
+    );
+  }
+}
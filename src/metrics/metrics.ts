@@ -0,0 +1,75 @@
+import { Counter, Gauge, Histogram, Registry } from "prom-client";
+
+export const registry = new Registry();
+
+export const ordersReceived = new Counter({
+  name: "dln_taker_orders_received_total",
+  help: "Number of orders received from the order feed, per order status",
+  labelNames: ["status"],
+  registers: [registry],
+});
+
+export const ordersRejected = new Counter({
+  name: "dln_taker_orders_rejected_total",
+  help: "Number of orders rejected by the processor, per rejection reason",
+  labelNames: ["reason", "giveChain", "takeChain"],
+  registers: [registry],
+});
+
+export const ordersPostponed = new Counter({
+  name: "dln_taker_orders_postponed_total",
+  help: "Number of orders postponed by the processor, per postponing reason",
+  labelNames: ["reason", "giveChain", "takeChain"],
+  registers: [registry],
+});
+
+export const ordersFulfilled = new Counter({
+  name: "dln_taker_orders_fulfilled_total",
+  help: "Number of orders fulfilled by the taker",
+  labelNames: ["giveChain", "takeChain"],
+  registers: [registry],
+});
+
+export const unlocksSent = new Counter({
+  name: "dln_taker_unlocks_sent_total",
+  help: "Number of orders unlocked by the taker",
+  labelNames: ["giveChain", "takeChain"],
+  registers: [registry],
+});
+
+export const unlocksFailed = new Counter({
+  name: "dln_taker_unlocks_failed_total",
+  help: "Number of orders the taker failed to unlock",
+  labelNames: ["giveChain", "takeChain"],
+  registers: [registry],
+});
+
+export const estimationDuration = new Histogram({
+  name: "dln_taker_order_estimation_duration_seconds",
+  help: "Time spent to validate and estimate the order before making a decision on its profitability",
+  labelNames: ["giveChain", "takeChain"],
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60],
+  registers: [registry],
+});
+
+export const fulfillConfirmationDuration = new Histogram({
+  name: "dln_taker_fulfill_tx_confirmation_duration_seconds",
+  help: "Time spent to broadcast the fulfill txn and wait for its confirmation",
+  labelNames: ["takeChain"],
+  buckets: [5, 10, 20, 30, 60, 120, 210, 300],
+  registers: [registry],
+});
+
+export const mempoolSize = new Gauge({
+  name: "dln_taker_mempool_size",
+  help: "Number of orders waiting in the mempool",
+  labelNames: ["giveChain", "takeChain"],
+  registers: [registry],
+});
+
+export const batchUnlockQueueSize = new Gauge({
+  name: "dln_taker_batch_unlock_queue_size",
+  help: "Number of fulfilled orders waiting in the batch unlock queue",
+  labelNames: ["giveChain", "takeChain"],
+  registers: [registry],
+});
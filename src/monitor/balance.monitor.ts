@@ -0,0 +1,220 @@
+import {
+  ChainId,
+  tokenAddressToString,
+  TokensBucket,
+  tokenStringToBuffer,
+  ZERO_EVM_ADDRESS,
+} from "@debridge-finance/dln-client";
+import BigNumber from "bignumber.js";
+import { Logger } from "pino";
+import Web3 from "web3";
+
+import { IExecutor } from "../executors/executor";
+import { HooksEngine } from "../hooks/HooksEngine";
+import { ProviderAdapter } from "../providers/provider.adapter";
+
+const SOLANA_NATIVE_TOKEN = "11111111111111111111111111111111";
+
+export type WalletRole = "taker" | "unlockAuthority";
+
+export type ReserveBalanceThreshold = {
+  /**
+   * Bucket whose reserve tokens are checked. The first token of the bucket is treated as the reserve token on
+   * every chain, the same way the order processor does
+   */
+  bucket: TokensBucket;
+
+  /**
+   * Min balance of the reserve token held by the taker on the given chain (in token units, e.g. 1000 = 1000 USDC)
+   */
+  minBalance: { [key in ChainId]?: number };
+};
+
+export type BalanceMonitorOpts = {
+  /**
+   * How often to poll balances, in seconds.
+   * Default: 300
+   */
+  interval?: number;
+
+  /**
+   * Low-water marks of reserve tokens held by the taker
+   */
+  reserves?: ReserveBalanceThreshold[];
+
+  /**
+   * Min balance of the native currency (in units, e.g. 0.5 = 0.5 ETH) both the taker and the unlock authority must
+   * hold on the given chain to pay for gas
+   */
+  gas?: { [key in ChainId]?: number };
+};
+
+type BalanceCheck = {
+  key: string;
+  chainId: ChainId;
+  token: Uint8Array;
+  provider: ProviderAdapter;
+  threshold: number;
+  onLow: (balance: number) => void;
+};
+
+/**
+ * Periodically polls balances of the taker and unlock authority wallets and fires the ReserveBalanceLow and
+ * GasBalanceLow hooks once the balance drops below the configured threshold. The hook is fired again only
+ * after the balance has recovered and dropped again
+ */
+export class BalanceMonitor {
+  private readonly logger: Logger;
+  private readonly lowBalances = new Set<string>();
+  private isPolling = false;
+
+  constructor(
+    private readonly opts: BalanceMonitorOpts,
+    private readonly executor: IExecutor,
+    private readonly hooksEngine: HooksEngine,
+    logger: Logger
+  ) {
+    this.logger = logger.child({ service: "BalanceMonitor" });
+  }
+
+  start() {
+    this.poll().catch((e) => this.logger.error(`polling failed: ${e}`));
+    setInterval(() => this.poll(), (this.opts.interval || 300) * 1000);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    for (const check of this.getChecks()) {
+      try {
+        await this.runCheck(check);
+      } catch (e) {
+        this.logger.error(
+          `unable to get balance of ${check.provider.address} on ${
+            ChainId[check.chainId]
+          }: ${e}`
+        );
+      }
+    }
+
+    this.isPolling = false;
+  }
+
+  private async runCheck(check: BalanceCheck): Promise<void> {
+    const [rawBalance, decimals] = await Promise.all([
+      check.provider.getBalance(check.token),
+      this.getDecimals(check.chainId, check.token),
+    ]);
+    const balance = new BigNumber(rawBalance)
+      .div(new BigNumber(10).pow(decimals))
+      .toNumber();
+
+    if (balance >= check.threshold) {
+      if (this.lowBalances.delete(check.key)) {
+        this.logger.info(
+          `${check.key}: balance is back to normal (${balance})`
+        );
+      }
+      return;
+    }
+
+    if (this.lowBalances.has(check.key)) return;
+    this.lowBalances.add(check.key);
+    this.logger.error(
+      `${check.key}: balance (${balance}) is below the threshold (${check.threshold})`
+    );
+    check.onLow(balance);
+  }
+
+  private getChecks(): BalanceCheck[] {
+    const checks: BalanceCheck[] = [];
+
+    for (const { bucket, minBalance } of this.opts.reserves || []) {
+      for (const [chainIdKey, threshold] of Object.entries(minBalance)) {
+        const chainId = Number(chainIdKey) as ChainId;
+        const chain = this.executor.chains[chainId];
+        const token = bucket.findFirstToken(chainId);
+        if (!chain || !token || threshold === undefined) continue;
+
+        const tokenAddress = tokenAddressToString(chainId, token);
+        checks.push({
+          key: `reserve:${ChainId[chainId]}:${tokenAddress}`,
+          chainId,
+          token,
+          provider: chain.fulfillProvider,
+          threshold,
+          onLow: (balance) =>
+            this.hooksEngine.handleReserveBalanceLow({
+              chainId,
+              token: tokenAddress,
+              address: chain.fulfillProvider.address,
+              balance,
+              threshold,
+            }),
+        });
+      }
+    }
+
+    for (const [chainIdKey, threshold] of Object.entries(this.opts.gas || {})) {
+      const chainId = Number(chainIdKey) as ChainId;
+      const chain = this.executor.chains[chainId];
+      if (!chain || threshold === undefined) continue;
+
+      const wallets: { role: WalletRole; provider: ProviderAdapter }[] = [
+        { role: "taker", provider: chain.fulfillProvider },
+      ];
+      // the unlock authority is often the same account as the taker
+      if (chain.unlockProvider.address !== chain.fulfillProvider.address) {
+        wallets.push({
+          role: "unlockAuthority",
+          provider: chain.unlockProvider,
+        });
+      }
+
+      for (const { role, provider } of wallets) {
+        checks.push({
+          key: `gas:${ChainId[chainId]}:${role}`,
+          chainId,
+          token: this.getNativeToken(chainId),
+          provider,
+          threshold,
+          onLow: (balance) =>
+            this.hooksEngine.handleGasBalanceLow({
+              chainId,
+              role,
+              address: provider.address,
+              balance,
+              threshold,
+            }),
+        });
+      }
+    }
+
+    return checks;
+  }
+
+  private getNativeToken(chainId: ChainId): Uint8Array {
+    return chainId === ChainId.Solana
+      ? tokenStringToBuffer(ChainId.Solana, SOLANA_NATIVE_TOKEN)
+      : tokenStringToBuffer(ChainId.Ethereum, ZERO_EVM_ADDRESS);
+  }
+
+  private async getDecimals(
+    chainId: ChainId,
+    token: Uint8Array
+  ): Promise<number> {
+    const tokenAddress = tokenAddressToString(chainId, token);
+    if (
+      tokenAddress === ZERO_EVM_ADDRESS ||
+      tokenAddress === SOLANA_NATIVE_TOKEN
+    )
+      return this.executor.client.getNativeCurrencyDecimals(chainId);
+
+    return this.executor.client.getDecimals(
+      chainId,
+      token,
+      this.executor.chains[chainId]!.fulfillProvider.connection as Web3
+    );
+  }
+}
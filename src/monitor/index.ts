@@ -0,0 +1,13 @@
+import {
+  BalanceMonitor,
+  BalanceMonitorOpts,
+  ReserveBalanceThreshold,
+  WalletRole,
+} from "./balance.monitor";
+
+export {
+  BalanceMonitor,
+  BalanceMonitorOpts,
+  ReserveBalanceThreshold,
+  WalletRole,
+};
@@ -0,0 +1,238 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import { Logger } from "pino";
+
+import { HooksEngine } from "../hooks/HooksEngine";
+import {
+  GetNextOrder,
+  IncomingOrder,
+  OrderFeedSubscription,
+  OrderInfoStatus,
+  OrderProcessorFunc,
+  UnlockAuthority,
+} from "../interfaces";
+
+// progress of the order which has been fulfilled or cancelled: patches and revocations make no sense anymore
+const SETTLED_PROGRESS = 2;
+
+export type CompositeOrderFeedOpts = {
+  /**
+   * The source is reported via the OrderFeedLagged hook if it delivers the event later than the fastest source by
+   * this amount of time, in ms.
+   * Default: 10000
+   */
+  maxLag?: number;
+
+  /**
+   * How long the order is remembered for deduplication since its last event, in ms.
+   * Default: 3600000 (1 hour)
+   */
+  dedupeWindow?: number;
+};
+
+type SeenEvent = {
+  firstSeenAt: number;
+  sources: Set<string>;
+};
+
+type OrderState = {
+  progress: number;
+  lastSeenAt: number;
+  events: Map<string, SeenEvent>; // event key => first delivery
+};
+
+/**
+ * Merges orders from several feeds, so losing one of them does not stop the flow of orders. Every event is passed
+ * to the executor once, when it is delivered by the fastest feed; events which are behind the most advanced state
+ * of the order (e.g. the order announced as created by one feed after another feed has announced it as fulfilled)
+ * are dropped. Feeds delivering events too late are reported via the OrderFeedLagged hook
+ */
+export class CompositeOrderFeed extends GetNextOrder {
+  private readonly orders = new Map<string, OrderState>();
+  private hooksEngine: HooksEngine;
+
+  constructor(
+    private readonly feeds: { [name: string]: GetNextOrder },
+    private readonly opts: CompositeOrderFeedOpts = {}
+  ) {
+    super();
+    if (Object.keys(feeds).length === 0) {
+      throw new Error("At least one order feed must be given");
+    }
+  }
+
+  setEnabledChains(enabledChains: ChainId[]) {
+    super.setEnabledChains(enabledChains);
+    Object.values(this.feeds).forEach((feed) =>
+      feed.setEnabledChains(enabledChains)
+    );
+  }
+
+  setSubscription(subscription: OrderFeedSubscription) {
+    super.setSubscription(subscription);
+    Object.values(this.feeds).forEach((feed) =>
+      feed.setSubscription(subscription)
+    );
+  }
+
+  setLogger(logger: Logger) {
+    super.setLogger(logger.child({ service: "CompositeOrderFeed" }));
+    Object.entries(this.feeds).forEach(([name, feed]) =>
+      feed.setLogger(logger.child({ orderFeed: name }))
+    );
+  }
+
+  async init(
+    process: OrderProcessorFunc,
+    unlockAuthorities: UnlockAuthority[],
+    minConfirmationThresholds: {
+      chainId: ChainId;
+      points: number[];
+    }[],
+    hooksEngine: HooksEngine
+  ) {
+    this.processNextOrder = process;
+    this.hooksEngine = hooksEngine;
+
+    const dedupeWindow = this.opts.dedupeWindow || 60 * 60 * 1000;
+    setInterval(
+      () => this.forgetOrders(dedupeWindow),
+      dedupeWindow / 10
+    ).unref();
+
+    await Promise.all(
+      Object.entries(this.feeds).map(([name, feed]) =>
+        feed.init(
+          (order, rawPayload) => this.onOrder(name, order, rawPayload),
+          unlockAuthorities,
+          minConfirmationThresholds,
+          hooksEngine
+        )
+      )
+    );
+  }
+
+  private async onOrder(
+    source: string,
+    order: IncomingOrder<any>,
+    rawPayload?: unknown
+  ) {
+    const now = Date.now();
+    const state = this.orders.get(order.orderId) || {
+      progress: 0,
+      lastSeenAt: now,
+      events: new Map(),
+    };
+    this.orders.set(order.orderId, state);
+    state.lastSeenAt = now;
+
+    const key = this.getEventKey(order);
+    const seenEvent = state.events.get(key);
+    if (seenEvent) {
+      if (!seenEvent.sources.has(source)) {
+        seenEvent.sources.add(source);
+        this.reportLag(source, order, now - seenEvent.firstSeenAt);
+      }
+      return;
+    }
+    state.events.set(key, { firstSeenAt: now, sources: new Set([source]) });
+
+    const progress = this.getProgress(order);
+    const isSideEvent = progress === undefined;
+    if (
+      isSideEvent
+        ? state.progress >= SETTLED_PROGRESS
+        : progress! <= state.progress
+    ) {
+      this.logger.debug(
+        `order ${order.orderId} from ${source} is behind its known state, skipping (${key})`
+      );
+      return;
+    }
+    if (!isSideEvent) state.progress = progress!;
+
+    return this.processNextOrder(order, rawPayload);
+  }
+
+  private reportLag(source: string, order: IncomingOrder<any>, lag: number) {
+    if (lag < (this.opts.maxLag ?? 10_000)) return;
+
+    this.logger.info(
+      `${source} has delivered order ${order.orderId} (${
+        OrderInfoStatus[order.status]
+      }) ${lag}ms later than other feeds`
+    );
+    this.hooksEngine.handleOrderFeedLagged({
+      orderFeed: source,
+      orderId: order.orderId,
+      status: order.status,
+      lag,
+    });
+  }
+
+  /**
+   * Identifies the event, so the same event delivered by several feeds is passed to the executor once
+   */
+  private getEventKey(order: IncomingOrder<any>): string {
+    switch (order.status) {
+      case OrderInfoStatus.Created: {
+        const info = (order as IncomingOrder<OrderInfoStatus.Created>)
+          .finalization_info;
+        if (info === "Revoked") return "Created:Revoked";
+        if ("Finalized" in info) return "Created:Finalized";
+        return `Created:Confirmed:${info.Confirmed.confirmation_blocks_count}`;
+      }
+      case OrderInfoStatus.TakeOfferDecreased:
+        return `TakeOfferDecreased:${
+          (order as IncomingOrder<OrderInfoStatus.TakeOfferDecreased>).patch
+            .takeAmount
+        }`;
+      case OrderInfoStatus.GiveOfferIncreased:
+        return `GiveOfferIncreased:${
+          (order as IncomingOrder<OrderInfoStatus.GiveOfferIncreased>).patch
+            .giveAmount
+        }`;
+      default:
+        return OrderInfoStatus[order.status];
+    }
+  }
+
+  /**
+   * Returns how far the order has advanced according to the event, or undefined for events which update the order
+   * without advancing it (patches and revocations)
+   */
+  private getProgress(order: IncomingOrder<any>): number | undefined {
+    switch (order.status) {
+      case OrderInfoStatus.Created: {
+        const info = (order as IncomingOrder<OrderInfoStatus.Created>)
+          .finalization_info;
+        if (info === "Revoked") return undefined;
+        if ("Finalized" in info) return 1.5;
+        // more confirmations make the order more advanced, but never beyond finalization
+        const confirmations = info.Confirmed.confirmation_blocks_count;
+        return 1 + confirmations / (confirmations + 1) / 2;
+      }
+      case OrderInfoStatus.ArchivalCreated:
+        return 1.5;
+      case OrderInfoStatus.TakeOfferDecreased:
+      case OrderInfoStatus.GiveOfferIncreased:
+        return undefined;
+      case OrderInfoStatus.Fulfilled:
+      case OrderInfoStatus.ArchivalFulfilled:
+      case OrderInfoStatus.Cancelled:
+        return SETTLED_PROGRESS;
+      case OrderInfoStatus.UnlockSent:
+        return 3;
+      case OrderInfoStatus.UnlockClaim:
+        return 4;
+      default:
+        return undefined;
+    }
+  }
+
+  private forgetOrders(dedupeWindow: number) {
+    const now = Date.now();
+    for (const [orderId, state] of Array.from(this.orders.entries())) {
+      if (now - state.lastSeenAt > dedupeWindow) this.orders.delete(orderId);
+    }
+  }
+}
@@ -0,0 +1,490 @@
+import {
+  ChainId,
+  evm,
+  EVMOrder,
+  Order,
+  OrderData,
+} from "@debridge-finance/dln-client";
+import { Logger } from "pino";
+import Web3 from "web3";
+
+import { SupportedChain } from "../config";
+import { PRODUCTION } from "../environments";
+import { BLOCK_CONFIRMATIONS_HARD_CAPS } from "../executors/executor";
+import { HooksEngine } from "../hooks/HooksEngine";
+import {
+  GetNextOrder,
+  IncomingOrder,
+  OrderInfoStatus,
+  OrderProcessorFunc,
+  UnlockAuthority,
+} from "../interfaces";
+import {
+  createEvmRpcProvider,
+  EvmRpcProvider,
+} from "../providers/rpc/evm.rpc.provider";
+
+// web3.js sub-packages are not direct dependencies, so their types are derived from the web3 API
+type AbiInput = Parameters<Web3["eth"]["abi"]["decodeLog"]>[0][number];
+type Log = Awaited<ReturnType<Web3["eth"]["getPastLogs"]>>[number];
+
+const ORDER_TUPLE: AbiInput = {
+  name: "order",
+  type: "tuple",
+  components: [
+    { name: "makerOrderNonce", type: "uint64" },
+    { name: "makerSrc", type: "bytes" },
+    { name: "giveChainId", type: "uint256" },
+    { name: "giveTokenAddress", type: "bytes" },
+    { name: "giveAmount", type: "uint256" },
+    { name: "takeChainId", type: "uint256" },
+    { name: "takeTokenAddress", type: "bytes" },
+    { name: "takeAmount", type: "uint256" },
+    { name: "receiverDst", type: "bytes" },
+    { name: "givePatchAuthoritySrc", type: "bytes" },
+    { name: "orderAuthorityAddressDst", type: "bytes" },
+    { name: "allowedTakerDst", type: "bytes" },
+    { name: "allowedCancelBeneficiarySrc", type: "bytes" },
+    { name: "externalCall", type: "bytes" },
+  ],
+};
+
+// DlnSource.CreatedOrder
+const CREATED_ORDER_INPUTS: AbiInput[] = [
+  ORDER_TUPLE,
+  { name: "orderId", type: "bytes32" },
+  { name: "affiliateFee", type: "bytes" },
+  { name: "nativeFixFee", type: "uint256" },
+  { name: "percentFee", type: "uint256" },
+  { name: "referralCode", type: "uint32" },
+];
+
+// DlnDestination.FulfilledOrder
+const FULFILLED_ORDER_INPUTS: AbiInput[] = [
+  ORDER_TUPLE,
+  { name: "orderId", type: "bytes32" },
+  { name: "sender", type: "address" },
+  { name: "unlockAuthority", type: "address" },
+];
+
+// DlnDestination.SentOrderCancel
+const SENT_ORDER_CANCEL_INPUTS: AbiInput[] = [
+  ORDER_TUPLE,
+  { name: "orderId", type: "bytes32" },
+  { name: "cancelBeneficiary", type: "bytes" },
+  { name: "submissionId", type: "bytes32" },
+];
+
+const getEventTopic = (name: string, inputs: AbiInput[]): string =>
+  Web3.utils.sha3(
+    `${name}(${inputs
+      .map((input) =>
+        input.type === "tuple"
+          ? `(${input.components!.map((component) => component.type).join()})`
+          : input.type
+      )
+      .join()})`
+  )!;
+
+const CREATED_ORDER_TOPIC = getEventTopic("CreatedOrder", CREATED_ORDER_INPUTS);
+const FULFILLED_ORDER_TOPIC = getEventTopic(
+  "FulfilledOrder",
+  FULFILLED_ORDER_INPUTS
+);
+const SENT_ORDER_CANCEL_TOPIC = getEventTopic(
+  "SentOrderCancel",
+  SENT_ORDER_CANCEL_INPUTS
+);
+
+export type EvmLogsOrderFeedChain = {
+  chain: ChainId;
+
+  /**
+   * RPC endpoint(s) to read logs from. Several endpoints are used as a pool with failover
+   */
+  rpc: string | string[];
+
+  /**
+   * Address of the DLN source contract.
+   * Default: the production address
+   */
+  pmmSrc?: string;
+
+  /**
+   * Address of the DLN destination contract.
+   * Default: the production address
+   */
+  pmmDst?: string;
+
+  /**
+   * Number of block confirmations after which the order is announced as finalized.
+   * Default: the max block confirmations of the chain (e.g., 12 for Ethereum, 256 for Polygon)
+   */
+  finalizationDepth?: number;
+};
+
+export type EvmLogsOrderFeedOpts = {
+  chains: EvmLogsOrderFeedChain[];
+
+  /**
+   * How often to poll for new blocks, in ms.
+   * Default: 5000
+   */
+  pollingInterval?: number;
+
+  /**
+   * Number of past blocks to scan for orders upon start.
+   * Default: 1000
+   */
+  lookbackBlocks?: number;
+
+  /**
+   * Max number of blocks requested by a single eth_getLogs call.
+   * Default: 1000
+   */
+  maxBlockRange?: number;
+};
+
+type PendingOrder = {
+  orderId: string;
+  order: OrderData;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  announcedConfirmations: number;
+};
+
+type ChainState = {
+  opts: EvmLogsOrderFeedChain;
+  connection: Web3;
+  pmmSrc: string;
+  pmmDst: string;
+  finalizationDepth: number;
+  confirmationPoints: number[];
+  nextBlock?: number;
+  pendingOrders: Map<string, PendingOrder>;
+  isPolling: boolean;
+  isConnected: boolean;
+};
+
+/**
+ * Reads orders directly from the DLN contracts by polling their logs, which makes the executor independent from
+ * the deBridge WS service. Orders created on the DlnSource contract are announced as soon as they reach one of the
+ * block confirmation thresholds configured for the give chain (if any) and again once they are finalized; orders
+ * fulfilled or cancelled on the DlnDestination contract are announced immediately
+ */
+export class EvmLogsOrderFeed extends GetNextOrder {
+  private readonly chainStates: ChainState[] = [];
+  private hooksEngine: HooksEngine;
+
+  constructor(private readonly opts: EvmLogsOrderFeedOpts) {
+    super();
+  }
+
+  async init(
+    process: OrderProcessorFunc,
+    unlockAuthorities: UnlockAuthority[],
+    minConfirmationThresholds: {
+      chainId: ChainId;
+      points: number[];
+    }[],
+    hooksEngine: HooksEngine
+  ) {
+    this.processNextOrder = process;
+    this.hooksEngine = hooksEngine;
+
+    for (const chainOpts of this.opts.chains) {
+      if (chainOpts.chain === ChainId.Solana) {
+        throw new Error(`EvmLogsOrderFeed does not support Solana`);
+      }
+      if (this.enabledChains && !this.enabledChains.includes(chainOpts.chain))
+        continue;
+
+      const logger = this.logger.child({ chainId: chainOpts.chain });
+      const provider: string | EvmRpcProvider = Array.isArray(chainOpts.rpc)
+        ? createEvmRpcProvider(chainOpts.rpc, undefined, logger)
+        : chainOpts.rpc;
+      this.chainStates.push({
+        opts: chainOpts,
+        connection: new Web3(provider),
+        pmmSrc:
+          chainOpts.pmmSrc ||
+          PRODUCTION.chains[chainOpts.chain]?.pmmSrc ||
+          PRODUCTION.defaultEvmAddresses.pmmSrc!,
+        pmmDst:
+          chainOpts.pmmDst ||
+          PRODUCTION.chains[chainOpts.chain]?.pmmDst ||
+          PRODUCTION.defaultEvmAddresses.pmmDst!,
+        finalizationDepth:
+          chainOpts.finalizationDepth ||
+          BLOCK_CONFIRMATIONS_HARD_CAPS[
+            chainOpts.chain as number as SupportedChain
+          ],
+        confirmationPoints:
+          minConfirmationThresholds.find(
+            (threshold) => threshold.chainId === chainOpts.chain
+          )?.points || [],
+        pendingOrders: new Map(),
+        isPolling: false,
+        isConnected: false,
+      });
+    }
+
+    for (const chainState of this.chainStates) {
+      this.poll(chainState).catch((e) =>
+        this.logger.error(
+          `polling ${ChainId[chainState.opts.chain]} failed: ${e}`
+        )
+      );
+      setInterval(
+        () => this.poll(chainState),
+        this.opts.pollingInterval || 5_000
+      );
+    }
+  }
+
+  private async poll(chainState: ChainState): Promise<void> {
+    if (chainState.isPolling) return;
+    chainState.isPolling = true;
+
+    const logger = this.logger.child({
+      service: "EvmLogsOrderFeed",
+      chainId: chainState.opts.chain,
+    });
+    try {
+      await this.pollLogs(chainState, logger);
+      if (!chainState.isConnected) {
+        chainState.isConnected = true;
+        this.hooksEngine.handleOrderFeedConnected({
+          message: `order feed has started reading logs on ${
+            ChainId[chainState.opts.chain]
+          }`,
+        });
+      }
+    } catch (e) {
+      logger.error(`unable to read logs: ${e}`);
+      if (chainState.isConnected) {
+        chainState.isConnected = false;
+        this.hooksEngine.handleOrderFeedDisconnected({
+          message: `order feed is unable to read logs on ${
+            ChainId[chainState.opts.chain]
+          }: ${e}`,
+        });
+      }
+    }
+
+    chainState.isPolling = false;
+  }
+
+  private async pollLogs(chainState: ChainState, logger: Logger) {
+    const latestBlock = await chainState.connection.eth.getBlockNumber();
+    if (chainState.nextBlock === undefined) {
+      chainState.nextBlock = Math.max(
+        latestBlock - (this.opts.lookbackBlocks ?? 1000),
+        0
+      );
+    }
+
+    while (chainState.nextBlock <= latestBlock) {
+      const toBlock = Math.min(
+        chainState.nextBlock + (this.opts.maxBlockRange || 1000) - 1,
+        latestBlock
+      );
+      const logs = await chainState.connection.eth.getPastLogs({
+        fromBlock: chainState.nextBlock,
+        toBlock,
+        address: [chainState.pmmSrc, chainState.pmmDst],
+        topics: [
+          [CREATED_ORDER_TOPIC, FULFILLED_ORDER_TOPIC, SENT_ORDER_CANCEL_TOPIC],
+        ],
+      });
+      logger.debug(
+        `found ${logs.length} log(s) in blocks ${chainState.nextBlock}-${toBlock}`
+      );
+
+      for (const log of logs) {
+        try {
+          this.handleLog(chainState, log, latestBlock, logger);
+        } catch (e) {
+          logger.error(
+            `unable to handle log ${log.transactionHash}#${log.logIndex}: ${e}`
+          );
+        }
+      }
+      chainState.nextBlock = toBlock + 1;
+    }
+
+    await this.announcePendingOrders(chainState, latestBlock, logger);
+  }
+
+  private handleLog(
+    chainState: ChainState,
+    log: Log,
+    latestBlock: number,
+    logger: Logger
+  ) {
+    if (log.topics[0] === CREATED_ORDER_TOPIC) {
+      const { orderId, order } = this.decodeOrder(
+        chainState.connection,
+        CREATED_ORDER_INPUTS,
+        log
+      );
+      if (chainState.pendingOrders.has(orderId)) return;
+
+      chainState.pendingOrders.set(orderId, {
+        orderId,
+        order,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        announcedConfirmations: 0,
+      });
+      logger.debug(
+        `order ${orderId} created at block ${log.blockNumber} (${
+          latestBlock - log.blockNumber + 1
+        } confirmations)`
+      );
+    } else if (log.topics[0] === FULFILLED_ORDER_TOPIC) {
+      const { orderId, order, event } = this.decodeOrder(
+        chainState.connection,
+        FULFILLED_ORDER_INPUTS,
+        log
+      );
+      const fulfilledOrder: IncomingOrder<OrderInfoStatus.Fulfilled> = {
+        orderId,
+        order,
+        status: OrderInfoStatus.Fulfilled,
+        unlockAuthority: event.unlockAuthority,
+      };
+      this.forgetOrder(orderId);
+      this.emit(fulfilledOrder, logger);
+    } else if (log.topics[0] === SENT_ORDER_CANCEL_TOPIC) {
+      const { orderId, order } = this.decodeOrder(
+        chainState.connection,
+        SENT_ORDER_CANCEL_INPUTS,
+        log
+      );
+      const cancelledOrder: IncomingOrder<OrderInfoStatus.Cancelled> = {
+        orderId,
+        order,
+        status: OrderInfoStatus.Cancelled,
+      };
+      this.forgetOrder(orderId);
+      this.emit(cancelledOrder, logger);
+    }
+  }
+
+  /**
+   * Announces pending orders which have reached the next block confirmation threshold or have been finalized, the
+   * same way the WS service does. Before each announcement the order is checked for being revoked by the reorg
+   */
+  private async announcePendingOrders(
+    chainState: ChainState,
+    latestBlock: number,
+    logger: Logger
+  ) {
+    for (const pendingOrder of Array.from(chainState.pendingOrders.values())) {
+      const confirmations = latestBlock - pendingOrder.blockNumber + 1;
+      const isFinalized = confirmations >= chainState.finalizationDepth;
+      const reachedPoint = Math.max(
+        0,
+        ...chainState.confirmationPoints.filter(
+          (point) => point <= confirmations
+        )
+      );
+      if (!isFinalized && reachedPoint <= pendingOrder.announcedConfirmations)
+        continue;
+
+      const receipt = await chainState.connection.eth.getTransactionReceipt(
+        pendingOrder.transactionHash
+      );
+      if (!receipt || receipt.blockHash !== pendingOrder.blockHash) {
+        chainState.pendingOrders.delete(pendingOrder.orderId);
+        logger.info(
+          `order ${pendingOrder.orderId} has been revoked due to chain reorganization`
+        );
+        // orders which have not been announced yet are not known to processors
+        if (pendingOrder.announcedConfirmations > 0) {
+          this.emitCreated(pendingOrder, "Revoked", logger);
+        }
+        continue;
+      }
+
+      if (isFinalized) {
+        chainState.pendingOrders.delete(pendingOrder.orderId);
+        this.emitCreated(
+          pendingOrder,
+          { Finalized: { transaction_hash: pendingOrder.transactionHash } },
+          logger
+        );
+      } else {
+        pendingOrder.announcedConfirmations = reachedPoint;
+        this.emitCreated(
+          pendingOrder,
+          {
+            Confirmed: {
+              confirmation_blocks_count: confirmations,
+              transaction_hash: pendingOrder.transactionHash,
+            },
+          },
+          logger
+        );
+      }
+    }
+  }
+
+  private emitCreated(
+    pendingOrder: PendingOrder,
+    finalizationInfo: IncomingOrder<OrderInfoStatus.Created>["finalization_info"],
+    logger: Logger
+  ) {
+    const createdOrder: IncomingOrder<OrderInfoStatus.Created> = {
+      orderId: pendingOrder.orderId,
+      order: pendingOrder.order,
+      status: OrderInfoStatus.Created,
+      finalization_info: finalizationInfo,
+    };
+    this.emit(createdOrder, logger);
+  }
+
+  private emit(order: IncomingOrder<any>, logger: Logger) {
+    logger.info(
+      `📨 order ${order.orderId} read from logs, status: ${
+        OrderInfoStatus[order.status]
+      }`
+    );
+    this.processNextOrder(order).catch((e) =>
+      logger.error(`processing order ${order.orderId} failed: ${e}`)
+    );
+  }
+
+  // the order is fulfilled or cancelled on the take chain, there is no point in announcing it as created anymore
+  private forgetOrder(orderId: string) {
+    for (const chainState of this.chainStates) {
+      chainState.pendingOrders.delete(orderId);
+    }
+  }
+
+  private decodeOrder(
+    connection: Web3,
+    inputs: AbiInput[],
+    log: Log
+  ): { orderId: string; order: OrderData; event: { [key: string]: any } } {
+    const event = connection.eth.abi.decodeLog(
+      inputs,
+      log.data,
+      log.topics.slice(1)
+    );
+    const order = evm.evmOrderToOrderData(event.order as unknown as EVMOrder);
+    const orderId = event.orderId as string;
+
+    const calculatedId = Order.calculateId(order);
+    if (calculatedId.toLowerCase() !== orderId.toLowerCase()) {
+      throw new Error(
+        `OrderId mismatch: expected id: ${orderId}, calculated: ${calculatedId}`
+      );
+    }
+
+    return { orderId: calculatedId, order, event };
+  }
+}
@@ -0,0 +1,80 @@
+import { ChainId } from "@debridge-finance/dln-client";
+
+import { HooksEngine } from "../hooks/HooksEngine";
+import {
+  GetNextOrder,
+  OrderInfoStatus,
+  OrderProcessorFunc,
+  UnlockAuthority,
+} from "../interfaces";
+import { readOrderFeedRecording, RecordedOrder } from "../recorder";
+
+export type ReplayOrderFeedOpts = {
+  /**
+   * Playback speed relative to the recording: 1 plays orders back at real speed, 10 plays them ten times faster,
+   * 0 plays them back without any delays.
+   * Default: 1
+   */
+  speed?: number;
+};
+
+/**
+ * Plays back the recording made by the OrderFeedRecorder, delivering orders to the executor with the same
+ * intervals (scaled by the speed) they have been recorded with. Every order is delivered once the previous one has
+ * been accepted by the executor
+ */
+export class ReplayOrderFeed extends GetNextOrder {
+  constructor(
+    private readonly filePath: string,
+    private readonly opts: ReplayOrderFeedOpts = {}
+  ) {
+    super();
+  }
+
+  async init(
+    process: OrderProcessorFunc,
+    unlockAuthorities: UnlockAuthority[],
+    minConfirmationThresholds: {
+      chainId: ChainId;
+      points: number[];
+    }[],
+    hooksEngine: HooksEngine
+  ) {
+    this.processNextOrder = process;
+    this.logger = this.logger.child({ service: "ReplayOrderFeed" });
+
+    const records = await readOrderFeedRecording(this.filePath, this.logger);
+    this.logger.info(
+      `replaying ${records.length} order(s) from ${this.filePath}`
+    );
+    hooksEngine.handleOrderFeedConnected({
+      message: `order feed has been connected to ${this.filePath}`,
+    });
+
+    this.replay(records).catch((e) => this.logger.error(`replay failed: ${e}`));
+  }
+
+  private async replay(records: RecordedOrder[]) {
+    const speed = this.opts.speed ?? 1;
+    const startedAt = Date.now();
+    const recordingStartedAt = records[0]?.recordedAt;
+
+    for (const { recordedAt, orderInfo, rawPayload } of records) {
+      if (speed > 0) {
+        const playAt = startedAt + (recordedAt - recordingStartedAt) / speed;
+        const delay = playAt - Date.now();
+        if (delay > 0)
+          await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      this.logger.debug(
+        `replaying order ${orderInfo.orderId}, status: ${
+          OrderInfoStatus[orderInfo.status]
+        }`
+      );
+      await this.processNextOrder(orderInfo, rawPayload);
+    }
+
+    this.logger.info(`replay of ${this.filePath} has been finished`);
+  }
+}
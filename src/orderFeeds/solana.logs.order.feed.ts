@@ -0,0 +1,553 @@
+import {
+  ChainId,
+  Order,
+  OrderData,
+  Solana,
+} from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import { Connection, Finality, PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { Logger } from "pino";
+
+import { ChainEnvironment } from "../config";
+import { PRODUCTION } from "../environments";
+import { BLOCK_CONFIRMATIONS_HARD_CAPS } from "../executors/executor";
+import { HooksEngine } from "../hooks/HooksEngine";
+import {
+  GetNextOrder,
+  IncomingOrder,
+  OrderInfoStatus,
+  OrderProcessorFunc,
+  UnlockAuthority,
+} from "../interfaces";
+import { createSolanaRpcConnection } from "../providers/rpc/solana.rpc.connection";
+
+const PROGRAM_DATA_PREFIX = "Program data: ";
+
+// max number of orders kept in memory to resolve unlock events, which refer to orders by id only
+const KNOWN_ORDERS_CACHE_SIZE = 10_000;
+
+export type SolanaLogsOrderFeedOpts = {
+  /**
+   * RPC endpoint(s). Subscriptions are made via the websocket endpoint of the first one
+   */
+  rpc: string | string[];
+
+  /**
+   * Addresses of the DLN programs and the deBridge programs.
+   * Default: the production addresses
+   */
+  environment?: ChainEnvironment;
+
+  /**
+   * Commitment level of the logs being read. With "confirmed", orders are announced as soon as they reach one of
+   * the block confirmation thresholds configured for Solana, and again once they are finalized.
+   * Default: finalized
+   */
+  commitment?: Finality;
+
+  /**
+   * Whether to subscribe to program logs via the websocket (onLogs) or poll signatures of program transactions
+   * (getSignaturesForAddress). Polling is slower but never misses transactions sent while the feed was
+   * disconnected.
+   * Default: subscribe
+   */
+  mode?: "subscribe" | "poll";
+
+  /**
+   * How often to poll for new transactions (and for confirmations of orders read with the "confirmed" commitment),
+   * in ms.
+   * Default: 5000
+   */
+  pollingInterval?: number;
+
+  /**
+   * Number of the most recent transactions of each program to read upon start in the polling mode.
+   * Default: 100
+   */
+  lookbackSignatures?: number;
+};
+
+type DecodedItem = {
+  program: "src" | "dst";
+  name: string;
+  data: any;
+};
+
+type BorshInstructionDecoder = {
+  decode(ix: Buffer): { name: string; data: any } | null;
+};
+
+type PendingOrder = {
+  orderId: string;
+  order: OrderData;
+  signature: string;
+  announcedConfirmations: number;
+};
+
+/**
+ * Reads orders directly from the DLN programs on Solana. Orders created on the pmmSrc program are decoded from its
+ * events; orders fulfilled, cancelled and unlocked on the pmmDst program (as well as unlocks claimed on the pmmSrc
+ * program) are decoded from the instructions of their transactions. Unlock events refer to orders by id, so they are
+ * announced only for orders this feed has seen being created or fulfilled; batch unlocks are not reported
+ */
+export class SolanaLogsOrderFeed extends GetNextOrder {
+  private connection: Connection;
+  private client: Solana.PmmClient;
+  private pmmSrc: PublicKey;
+  private pmmDst: PublicKey;
+  private hooksEngine: HooksEngine;
+  private confirmationPoints: number[] = [];
+  private readonly pendingOrders = new Map<string, PendingOrder>();
+  private readonly knownOrders = new Map<string, OrderData>();
+  private readonly lastSignatures = new Map<string, string>(); // program => last read signature
+  private isPolling = false;
+  private isConnected = false;
+
+  constructor(private readonly opts: SolanaLogsOrderFeedOpts) {
+    super();
+  }
+
+  private get commitment(): Finality {
+    return this.opts.commitment || "finalized";
+  }
+
+  async init(
+    process: OrderProcessorFunc,
+    unlockAuthorities: UnlockAuthority[],
+    minConfirmationThresholds: {
+      chainId: ChainId;
+      points: number[];
+    }[],
+    hooksEngine: HooksEngine
+  ) {
+    this.processNextOrder = process;
+    this.hooksEngine = hooksEngine;
+    this.logger = this.logger.child({ service: "SolanaLogsOrderFeed" });
+    this.confirmationPoints =
+      minConfirmationThresholds.find(
+        (threshold) => threshold.chainId === ChainId.Solana
+      )?.points || [];
+
+    const env = this.opts.environment;
+    const defaults = PRODUCTION.chains[ChainId.Solana]!;
+    this.connection = Array.isArray(this.opts.rpc)
+      ? createSolanaRpcConnection(this.opts.rpc, undefined, this.logger)
+      : new Connection(this.opts.rpc);
+    this.pmmSrc = new PublicKey(env?.pmmSrc || defaults.pmmSrc!);
+    this.pmmDst = new PublicKey(env?.pmmDst || defaults.pmmDst!);
+    this.client = new Solana.PmmClient(
+      this.connection,
+      this.pmmSrc,
+      this.pmmDst,
+      new PublicKey(env?.deBridgeContract || defaults.deBridgeContract!),
+      new PublicKey(
+        env?.solana?.debridgeSetting || defaults.solana!.debridgeSetting!
+      )
+    );
+
+    if (this.opts.mode === "poll") {
+      this.poll().catch((e) => this.logger.error(`polling failed: ${e}`));
+    } else {
+      this.subscribe();
+    }
+    setInterval(() => this.poll(), this.opts.pollingInterval || 5_000);
+  }
+
+  private subscribe() {
+    for (const programId of [this.pmmSrc, this.pmmDst]) {
+      this.connection.onLogs(
+        programId,
+        (logs) => {
+          if (logs.err) return;
+          this.handleLogs(logs.signature, logs.logs).catch((e) =>
+            this.logger.error(
+              `unable to handle transaction ${logs.signature}: ${e}`
+            )
+          );
+        },
+        this.commitment
+      );
+    }
+    this.isConnected = true;
+    this.hooksEngine.handleOrderFeedConnected({
+      message: `order feed has subscribed to logs of DLN programs on Solana`,
+    });
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      if (this.opts.mode === "poll") {
+        await this.pollSignatures(this.pmmSrc);
+        await this.pollSignatures(this.pmmDst);
+        if (!this.isConnected) {
+          this.isConnected = true;
+          this.hooksEngine.handleOrderFeedConnected({
+            message: `order feed has started reading transactions of DLN programs on Solana`,
+          });
+        }
+      }
+      await this.announcePendingOrders();
+    } catch (e) {
+      this.logger.error(`unable to read transactions: ${e}`);
+      if (this.isConnected && this.opts.mode === "poll") {
+        this.isConnected = false;
+        this.hooksEngine.handleOrderFeedDisconnected({
+          message: `order feed is unable to read transactions on Solana: ${e}`,
+        });
+      }
+    }
+
+    this.isPolling = false;
+  }
+
+  private async pollSignatures(programId: PublicKey) {
+    const key = programId.toBase58();
+    const until = this.lastSignatures.get(key);
+    const signatures = await this.connection.getSignaturesForAddress(
+      programId,
+      { until, limit: until ? 1000 : this.opts.lookbackSignatures ?? 100 },
+      this.commitment
+    );
+    if (signatures.length === 0) return;
+
+    // signatures are returned newest first. Reading stops at the first txn which can't be handled, so it is read
+    // again (along with the subsequent ones) by the next poll rather than being skipped
+    for (const signature of signatures.reverse()) {
+      if (!signature.err) {
+        try {
+          const tx = await this.connection.getTransaction(signature.signature, {
+            commitment: this.commitment,
+            maxSupportedTransactionVersion: 0,
+          });
+          if (!tx) throw new Error(`transaction not found`);
+          await this.handleLogs(
+            signature.signature,
+            tx.meta?.logMessages || [],
+            tx
+          );
+        } catch (e) {
+          this.logger.error(
+            `unable to handle transaction ${signature.signature}, retrying on the next poll: ${e}`
+          );
+          return;
+        }
+      }
+      this.lastSignatures.set(key, signature.signature);
+    }
+  }
+
+  private async handleLogs(
+    signature: string,
+    logs: string[],
+    tx?: Awaited<ReturnType<Connection["getTransaction"]>>
+  ) {
+    const events = this.decodeEvents(logs);
+    if (events.length === 0) return;
+    const logger = this.logger.child({ signature });
+
+    // CreatedOrderId follows CreatedOrder
+    const createdOrders = events.filter(
+      (event) => event.name === "CreatedOrder"
+    );
+    const createdOrderIds = events.filter(
+      (event) => event.name === "CreatedOrderId"
+    );
+    createdOrders.forEach((event, idx) => {
+      const order = Solana.solanaOrderToOrderData(event.data.order);
+      const orderId = this.verifyOrderId(
+        order,
+        helpers.bufferToHex(Buffer.from(createdOrderIds[idx].data.orderId))
+      );
+      this.rememberOrder(orderId, order);
+      const pendingOrder = {
+        orderId,
+        order,
+        signature,
+        announcedConfirmations: 0,
+      };
+      // the txn read with the finalized commitment is finalized already
+      if (this.commitment === "finalized") {
+        this.emitCreated(
+          pendingOrder,
+          { Finalized: { transaction_hash: signature } },
+          logger.child({ orderId })
+        );
+      } else {
+        this.pendingOrders.set(orderId, pendingOrder);
+      }
+    });
+
+    // other events do not carry orders, so orders are taken from instructions of the txn
+    const otherEvents = events.filter(
+      (event) => !["CreatedOrder", "CreatedOrderId"].includes(event.name)
+    );
+    if (otherEvents.length === 0) return;
+    if (tx === undefined) {
+      tx = await this.connection.getTransaction(signature, {
+        commitment: this.commitment,
+        maxSupportedTransactionVersion: 0,
+      });
+    }
+    if (!tx) throw new Error(`transaction not found`);
+    const instructions = this.decodeInstructions(tx);
+
+    for (const ix of instructions) {
+      if (ix.program === "dst" && ix.name === "fulfillOrder") {
+        const order = Solana.solanaOrderToOrderData(ix.data.unvalidatedOrder);
+        const orderId = this.verifyOrderId(
+          order,
+          helpers.bufferToHex(Buffer.from(ix.data.orderId))
+        );
+        const fulfilledEvent = otherEvents.find(
+          (event) =>
+            event.name === "Fulfilled" &&
+            helpers.bufferToHex(Buffer.from(event.data.orderId)) === orderId
+        );
+        if (!fulfilledEvent) continue;
+
+        this.rememberOrder(orderId, order);
+        this.pendingOrders.delete(orderId);
+        const fulfilledOrder: IncomingOrder<OrderInfoStatus.Fulfilled> = {
+          orderId,
+          order,
+          status: OrderInfoStatus.Fulfilled,
+          unlockAuthority: (
+            (ix.data.unlockAuthority || fulfilledEvent.data.taker) as PublicKey
+          ).toBase58(),
+        };
+        this.emit(fulfilledOrder, logger);
+      } else if (
+        ix.program === "dst" &&
+        ix.name === "cancelOrder" &&
+        otherEvents.some((event) => event.name === "OrderCancelled")
+      ) {
+        const order = Solana.solanaOrderToOrderData(ix.data.unvalidatedOrder);
+        const orderId = this.verifyOrderId(
+          order,
+          helpers.bufferToHex(Buffer.from(ix.data.orderId))
+        );
+        this.pendingOrders.delete(orderId);
+        const cancelledOrder: IncomingOrder<OrderInfoStatus.Cancelled> = {
+          orderId,
+          order,
+          status: OrderInfoStatus.Cancelled,
+        };
+        this.emit(cancelledOrder, logger);
+      } else if (
+        (ix.program === "dst" &&
+          ix.name === "sendUnlock" &&
+          otherEvents.some((event) => event.name === "SentUnlock")) ||
+        (ix.program === "src" &&
+          ix.name === "claimUnlock" &&
+          otherEvents.some((event) => event.name === "ClaimedUnlock"))
+      ) {
+        const orderId = helpers.bufferToHex(Buffer.from(ix.data.orderId));
+        const order = this.knownOrders.get(orderId);
+        if (!order) {
+          logger.debug(`skipping unlock of unknown order ${orderId}`);
+          continue;
+        }
+        const unlockedOrder: IncomingOrder<
+          OrderInfoStatus.UnlockSent | OrderInfoStatus.UnlockClaim
+        > = {
+          orderId,
+          order,
+          status:
+            ix.name === "sendUnlock"
+              ? OrderInfoStatus.UnlockSent
+              : OrderInfoStatus.UnlockClaim,
+        };
+        this.emit(unlockedOrder, logger);
+      }
+    }
+  }
+
+  /**
+   * Announces pending orders which have reached the next block confirmation threshold or have been finalized, the
+   * same way the WS service does. Orders whose txns have been dropped are announced as revoked
+   */
+  private async announcePendingOrders() {
+    const pendingOrders = Array.from(this.pendingOrders.values());
+    if (pendingOrders.length === 0) return;
+
+    // statuses of txns older than the recent status cache are available from the ledger history only
+    const { value: statuses } = await this.connection.getSignatureStatuses(
+      pendingOrders.map((pendingOrder) => pendingOrder.signature),
+      { searchTransactionHistory: true }
+    );
+    pendingOrders.forEach((pendingOrder, idx) => {
+      // the order may have been announced by the concurrent call
+      if (this.pendingOrders.get(pendingOrder.orderId) !== pendingOrder) return;
+
+      const status = statuses[idx];
+      const logger = this.logger.child({ orderId: pendingOrder.orderId });
+      if (!status || status.err) {
+        this.pendingOrders.delete(pendingOrder.orderId);
+        logger.info(`order has been revoked, its txn is not found`);
+        if (pendingOrder.announcedConfirmations > 0) {
+          this.emitCreated(pendingOrder, "Revoked", logger);
+        }
+        return;
+      }
+
+      // confirmations are null once the block is rooted
+      const confirmations =
+        status.confirmations ?? BLOCK_CONFIRMATIONS_HARD_CAPS[ChainId.Solana];
+      if (
+        status.confirmationStatus === "finalized" ||
+        confirmations >= BLOCK_CONFIRMATIONS_HARD_CAPS[ChainId.Solana]
+      ) {
+        this.pendingOrders.delete(pendingOrder.orderId);
+        this.emitCreated(
+          pendingOrder,
+          { Finalized: { transaction_hash: pendingOrder.signature } },
+          logger
+        );
+        return;
+      }
+
+      const reachedPoint = Math.max(
+        0,
+        ...this.confirmationPoints.filter((point) => point <= confirmations)
+      );
+      if (reachedPoint <= pendingOrder.announcedConfirmations) return;
+      pendingOrder.announcedConfirmations = reachedPoint;
+      this.emitCreated(
+        pendingOrder,
+        {
+          Confirmed: {
+            confirmation_blocks_count: confirmations,
+            transaction_hash: pendingOrder.signature,
+          },
+        },
+        logger
+      );
+    });
+  }
+
+  private emitCreated(
+    pendingOrder: PendingOrder,
+    finalizationInfo: IncomingOrder<OrderInfoStatus.Created>["finalization_info"],
+    logger: Logger
+  ) {
+    const createdOrder: IncomingOrder<OrderInfoStatus.Created> = {
+      orderId: pendingOrder.orderId,
+      order: pendingOrder.order,
+      status: OrderInfoStatus.Created,
+      finalization_info: finalizationInfo,
+    };
+    this.emit(createdOrder, logger);
+  }
+
+  private emit(order: IncomingOrder<any>, logger: Logger) {
+    logger.info(
+      `📨 order ${order.orderId} read from Solana, status: ${
+        OrderInfoStatus[order.status]
+      }`
+    );
+    this.processNextOrder(order).catch((e) =>
+      logger.error(`processing order ${order.orderId} failed: ${e}`)
+    );
+  }
+
+  private rememberOrder(orderId: string, order: OrderData) {
+    this.knownOrders.delete(orderId);
+    this.knownOrders.set(orderId, order);
+    if (this.knownOrders.size > KNOWN_ORDERS_CACHE_SIZE) {
+      // maps are iterated in the insertion order, so the first key is the oldest one
+      this.knownOrders.delete(this.knownOrders.keys().next().value);
+    }
+  }
+
+  private verifyOrderId(order: OrderData, orderId: string): string {
+    const calculatedId = Order.calculateId(order);
+    if (calculatedId.toLowerCase() !== orderId.toLowerCase()) {
+      throw new Error(
+        `OrderId mismatch: expected id: ${orderId}, calculated: ${calculatedId}`
+      );
+    }
+    return calculatedId;
+  }
+
+  /**
+   * Decodes events emitted by the DLN programs, tracking the stack of invoked programs to tell which program has
+   * emitted the event
+   */
+  private decodeEvents(logs: string[]): DecodedItem[] {
+    const events: DecodedItem[] = [];
+    const stack: string[] = [];
+    for (const log of logs) {
+      const invoke = log.match(/^Program (\w+) invoke/);
+      if (invoke) {
+        stack.push(invoke[1]);
+        continue;
+      }
+      if (/^Program \w+ (success|failed)/.test(log)) {
+        stack.pop();
+        continue;
+      }
+      if (!log.startsWith(PROGRAM_DATA_PREFIX)) continue;
+
+      const program = this.getProgram(stack[stack.length - 1]);
+      if (!program) continue;
+      const coder =
+        program === "src"
+          ? this.client.source.program.coder
+          : this.client.destination.program.coder;
+      const event = coder.events.decode(log.slice(PROGRAM_DATA_PREFIX.length));
+      if (event) events.push({ program, name: event.name, data: event.data });
+    }
+    return events;
+  }
+
+  private decodeInstructions(
+    tx: NonNullable<Awaited<ReturnType<Connection["getTransaction"]>>>
+  ): DecodedItem[] {
+    const message = tx.transaction.message;
+    const accountKeys = message.getAccountKeys({
+      accountKeysFromLookups: tx.meta?.loadedAddresses,
+    });
+
+    const rawInstructions: { programIdIndex: number; data: Buffer }[] = [
+      ...message.compiledInstructions.map((ix) => ({
+        programIdIndex: ix.programIdIndex,
+        data: Buffer.from(ix.data),
+      })),
+      ...(tx.meta?.innerInstructions || []).flatMap((inner) =>
+        inner.instructions.map((ix) => ({
+          programIdIndex: ix.programIdIndex,
+          data: Buffer.from(bs58.decode(ix.data)),
+        }))
+      ),
+    ];
+
+    const instructions: DecodedItem[] = [];
+    for (const ix of rawInstructions) {
+      const program = this.getProgram(
+        accountKeys.get(ix.programIdIndex)?.toBase58()
+      );
+      if (!program) continue;
+      const coder =
+        program === "src"
+          ? this.client.source.program.coder
+          : this.client.destination.program.coder;
+      // instruction coders of anchor programs are borsh coders, which are able to decode instructions
+      const decoded = (
+        coder.instruction as unknown as BorshInstructionDecoder
+      ).decode(ix.data);
+      if (decoded)
+        instructions.push({ program, name: decoded.name, data: decoded.data });
+    }
+    return instructions;
+  }
+
+  private getProgram(programId?: string): DecodedItem["program"] | undefined {
+    if (programId === this.pmmSrc.toBase58()) return "src";
+    if (programId === this.pmmDst.toBase58()) return "dst";
+    return undefined;
+  }
+}
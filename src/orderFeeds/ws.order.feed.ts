@@ -1,4 +1,4 @@
-import { ChainId, Offer, Order, OrderData } from "@debridge-finance/dln-client";
+import { buffersAreEqual, ChainId, Offer, Order, OrderData } from "@debridge-finance/dln-client";
 import { helpers } from "@debridge-finance/solana-utils";
 import WebSocket from "ws";
 
@@ -6,6 +6,7 @@ import { U256 } from "../helpers";
 import {
   GetNextOrder,
   IncomingOrder,
+  OrderFeedSubscription,
   OrderInfoStatus,
   OrderProcessorFunc,
   UnlockAuthority,
@@ -18,6 +19,20 @@ type WsOrderOffer = {
   amount: string;
 };
 
+type WsOfferFilter = { All: { chain_id: string } };
+
+type WsRouteFilter = {
+  give_filter?: WsOfferFilter;
+  take_filter?: WsOfferFilter;
+};
+
+type WsExternalCall = {
+  execution_fee: string;
+  fallback_address_dst: string;
+  hash_of_external_call: string;
+  external_call_data: string | null;
+};
+
 type WsOrder = {
   maker_order_nonce: string;
   maker_src: string;
@@ -28,7 +43,7 @@ type WsOrder = {
   order_authority_address_dst: string;
   allowed_taker_dst: string | null;
   allowed_cancel_beneficiary_src: string | null;
-  external_call: null;
+  external_call: WsExternalCall | null;
 };
 
 type FulfilledChangeStatus = { Fulfilled: { unlock_authority: string } };
@@ -50,6 +65,13 @@ type CreatedChangeStatus = { Created: {
   }
 };
 type CancelledChangeStatus = { Cancelled: {} };
+// mirror params of the DecreasedTakeAmount and IncreasedGiveAmount events emitted by the contracts
+type TakeOfferDecreasedChangeStatus = {
+  TakeOfferDecreased: { order_take_final_amount: string };
+};
+type GiveOfferIncreasedChangeStatus = {
+  GiveOfferIncreased: { order_give_final_amount: string };
+};
 
 enum WsOrderInfoStatus {
   ArchivalCreated,
@@ -72,6 +94,8 @@ type WsOrderInfo<T extends WsOrderInfoStatus> = {
     & (T extends WsOrderInfoStatus.ArchivalFulfilled ? ArchivalFulfilledChangeStatus : {})
     & (T extends WsOrderInfoStatus.Fulfilled ? FulfilledChangeStatus : {})
     & (T extends WsOrderInfoStatus.Cancelled ? CancelledChangeStatus : {})
+    & (T extends WsOrderInfoStatus.TakeOfferDecreased ? TakeOfferDecreasedChangeStatus : {})
+    & (T extends WsOrderInfoStatus.GiveOfferIncreased ? GiveOfferIncreasedChangeStatus : {})
   ;
 }
 
@@ -82,6 +106,51 @@ type WsOrderEvent<T extends WsOrderInfoStatus> = {
   };
 };
 
+export type WsReconnectPolicy = {
+  /**
+   * Delay before the first reconnection attempt, in ms.
+   * Default: 1000
+   */
+  initialDelay: number;
+
+  /**
+   * Max delay between reconnection attempts, in ms.
+   * Default: 60000
+   */
+  maxDelay: number;
+
+  /**
+   * Factor the delay is multiplied by after each failed attempt.
+   * Default: 2
+   */
+  multiplier: number;
+
+  /**
+   * Share of the delay randomized in both directions, so takers don't hammer the server simultaneously after
+   * its restart.
+   * Default: 0.2
+   */
+  jitter: number;
+
+  /**
+   * Number of consecutive failed reconnection attempts reported via the OrderFeedReconnectionFailed hook. The feed
+   * keeps reconnecting afterwards.
+   * Default: 10
+   */
+  maxRetries: number;
+};
+
+const DEFAULT_RECONNECT_POLICY: WsReconnectPolicy = {
+  initialDelay: 1_000,
+  maxDelay: 60_000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxRetries: 10,
+};
+
+// open orders which have not been updated for this long are no longer tracked
+const OPEN_ORDER_TTL_MS = 24 * 60 * 60 * 1000;
+
 export class WsNextOrder extends GetNextOrder {
   private wsArgs;
   private socket: WebSocket;
@@ -93,19 +162,22 @@ export class WsNextOrder extends GetNextOrder {
     points: number[]
   }>;
   private hooksEngine: HooksEngine;
-  private timeLastDisconnect: Date;
+  private timeLastDisconnect?: Date;
+  private reconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  // orders announced as created and not yet fulfilled or cancelled, along with the time of their last update and
+  // the finalization info they were last delivered with
+  private readonly openOrders = new Map<string, { updatedAt: number; finalizationInfo?: string }>();
 
   private heartbeat() {
     clearTimeout(this.pingTimer);
 
     this.pingTimer = setTimeout(() => {
       this.logger.error(`WsConnection appears to be stale, reconnecting`);
-      this.timeLastDisconnect = new Date();
-      this.hooksEngine.handleOrderFeedDisconnected({
-        message: `order feed has been disconnected`,
-      });
+      // the socket emits "close" which schedules the reconnection
       this.socket.terminate();
-      this.initWs();
     }, this.pingTimeoutMs);
   }
 
@@ -114,6 +186,13 @@ export class WsNextOrder extends GetNextOrder {
     this.wsArgs = args;
   }
 
+  /**
+   * Overrides the default policy of reconnecting to the server once the connection is lost
+   */
+  setReconnectPolicy(policy: Partial<WsReconnectPolicy>) {
+    this.reconnectPolicy = { ...this.reconnectPolicy, ...policy };
+  }
+
   async init(
     process: OrderProcessorFunc,
     unlockAuthorities: UnlockAuthority[],
@@ -135,6 +214,7 @@ export class WsNextOrder extends GetNextOrder {
     this.socket.on("ping", this.heartbeat.bind(this));
     this.socket.on("open", () => {
       this.logger.debug("🔌 ws opened connection");
+      this.reconnectAttempts = 0;
       let timeSinceLastDisconnect;
       if (this.timeLastDisconnect) {
         timeSinceLastDisconnect =
@@ -149,24 +229,30 @@ export class WsNextOrder extends GetNextOrder {
       }
       this.heartbeat();
 
-      // Subscribe to all new orders
+      // Subscribe to new orders coming through the routes the executor serves
       const confirmationsCountFilter: {[key in string]: number[]} = Object.fromEntries(
         this.minConfirmationThresholds.map(threshold => ([
-          threshold.chainId.toString(16).padStart(64, '0'),
+          this.toWsChainId(threshold.chainId),
           threshold.points
         ]))
       )
-      this.sendCommand({
-          Subscription: {
-            finalization_filter: {
-              confirmations_count: confirmationsCountFilter
-            }
-          },
-        }
-      );
+      const routeFilters = this.getRouteFilters();
+      routeFilters.forEach((routeFilter) => {
+        this.sendCommand({
+            Subscription: {
+              finalization_filter: {
+                confirmations_count: confirmationsCountFilter
+              },
+              ...routeFilter,
+            },
+          }
+        );
+      });
 
       // Get all existing new orders (for cold start)
-      this.sendCommand({ GetOrders: { Created: {} } });
+      routeFilters.forEach((routeFilter) => {
+        this.sendCommand({ GetOrders: { Created: { ...routeFilter } } });
+      });
 
       // Get all fulfilled orders by the given unlockAuthority (for cold start - to initiate unlocks)
       this.unlockAuthorities.forEach((unlockAuthority) => {
@@ -176,15 +262,21 @@ export class WsNextOrder extends GetNextOrder {
                 unlock_authority: unlockAuthority.address,
                 take_filter: {
                   All: {
-                    chain_id: unlockAuthority.chainId
-                      .toString(16)
-                      .padStart(64, "0"),
+                    chain_id: this.toWsChainId(unlockAuthority.chainId),
                   },
                 },
               },
             },
           });
       });
+
+      if (this.timeLastDisconnect) {
+        this.logger.info(
+          `the order feed server offers no way to request orders changed since the disconnect, open orders are requested again and only placed or finalized ones are processed`
+        );
+        this.reportGap(this.timeLastDisconnect);
+      }
+      this.timeLastDisconnect = undefined;
     });
 
     // Register message handler
@@ -199,8 +291,21 @@ export class WsNextOrder extends GetNextOrder {
           const status = this.flattenStatus(parsedEvent.Order.order_info);
           const order = this.wsOrderToOrderData(parsedEvent.Order.order_info);
           const orderId = parsedEvent.Order.order_info.order_id
+          // fulfilled orders are still delivered, because they may need to be unlocked
+          const isCreated = [WsOrderInfoStatus.Created, WsOrderInfoStatus.ArchivalCreated].includes(status);
+          if (isCreated && !this.isSubscribed(order)) {
+            this.logger.debug(`order ${orderId} can't be fulfilled by the executor, skipping`);
+            return;
+          }
           const nextOrderInfo = this.transformToNextOrderInfo(status, orderId, order, parsedEvent);
-          this.processNextOrder(nextOrderInfo);
+          if (this.isAlreadyDelivered(nextOrderInfo)) {
+            this.logger.debug(`order ${orderId} has not changed since it was delivered, skipping`);
+            return;
+          }
+          const externalCallData = parsedEvent.Order.order_info.order.external_call?.external_call_data;
+          if (externalCallData) nextOrderInfo.externalCallData = externalCallData;
+          this.trackOpenOrder(nextOrderInfo);
+          this.processNextOrder(nextOrderInfo, data);
         }
         catch (e) {
           this.logger.error(`message processing failed: ${e}`)
@@ -214,14 +319,120 @@ export class WsNextOrder extends GetNextOrder {
     });
 
     this.socket.on("close", () => {
-      this.logger.debug(
-        `WsConnection has been closed, retrying reconnection in ${this.pingTimeoutMs}ms`
-      );
+      clearTimeout(this.pingTimer);
+      this.scheduleReconnect();
     });
 
     this.heartbeat();
   }
 
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+
+    // failed reconnection attempts are not reported as disconnects
+    if (!this.timeLastDisconnect) {
+      this.timeLastDisconnect = new Date();
+      this.hooksEngine.handleOrderFeedDisconnected({
+        message: `order feed has been disconnected`,
+      });
+    }
+
+    if (this.reconnectAttempts === this.reconnectPolicy.maxRetries) {
+      const message = `order feed has failed to reconnect to ${this.wsArgs[0]} after ${this.reconnectAttempts} attempts, still retrying`;
+      this.logger.error(message);
+      this.hooksEngine.handleOrderFeedReconnectionFailed({
+        attempts: this.reconnectAttempts,
+        message,
+      });
+    }
+
+    this.reconnectAttempts++;
+    const { initialDelay, maxDelay, multiplier, jitter } = this.reconnectPolicy;
+    const delay = Math.min(maxDelay, initialDelay * multiplier ** (this.reconnectAttempts - 1));
+    const jitteredDelay = Math.round(delay * (1 - jitter + Math.random() * 2 * jitter));
+    this.logger.debug(
+      `WsConnection has been closed, reconnection attempt #${this.reconnectAttempts} in ${jitteredDelay}ms`
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.initWs();
+    }, jitteredDelay);
+  }
+
+  private trackOpenOrder(orderInfo: IncomingOrder<any>) {
+    const isRevoked = orderInfo.status === OrderInfoStatus.Created
+      && (orderInfo as IncomingOrder<OrderInfoStatus.Created>).finalization_info === "Revoked";
+    if (isRevoked) {
+      this.openOrders.delete(orderInfo.orderId);
+      return;
+    }
+
+    switch (orderInfo.status) {
+      case OrderInfoStatus.Created:
+        this.openOrders.set(orderInfo.orderId, {
+          updatedAt: Date.now(),
+          finalizationInfo: this.getFinalizationInfo(orderInfo),
+        });
+        break;
+      case OrderInfoStatus.ArchivalCreated:
+      case OrderInfoStatus.TakeOfferDecreased:
+      case OrderInfoStatus.GiveOfferIncreased:
+        this.openOrders.set(orderInfo.orderId, {
+          ...this.openOrders.get(orderInfo.orderId),
+          updatedAt: Date.now(),
+        });
+        break;
+      case OrderInfoStatus.Fulfilled:
+      case OrderInfoStatus.ArchivalFulfilled:
+      case OrderInfoStatus.Cancelled:
+        this.openOrders.delete(orderInfo.orderId);
+        break;
+    }
+  }
+
+  /**
+   * Open orders are requested again upon reconnection, so orders which are still open and have been delivered in the
+   * same finalization state are not passed to the processor once again
+   */
+  private isAlreadyDelivered(orderInfo: IncomingOrder<any>): boolean {
+    const openOrder = this.openOrders.get(orderInfo.orderId);
+    if (!openOrder) return false;
+
+    switch (orderInfo.status) {
+      case OrderInfoStatus.Created:
+        return openOrder.finalizationInfo === this.getFinalizationInfo(orderInfo);
+      case OrderInfoStatus.ArchivalCreated:
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private getFinalizationInfo(orderInfo: IncomingOrder<any>): string {
+    return JSON.stringify((orderInfo as IncomingOrder<OrderInfoStatus.Created>).finalization_info);
+  }
+
+  /**
+   * Orders which were open when the connection was lost may have been fulfilled, cancelled or patched meanwhile,
+   * and such changes are not delivered again unless the order is still open
+   */
+  private reportGap(disconnectedAt: Date) {
+    const expiredAt = Date.now() - OPEN_ORDER_TTL_MS;
+    for (const [orderId, { updatedAt }] of this.openOrders) {
+      if (updatedAt < expiredAt) this.openOrders.delete(orderId);
+    }
+    const orderIds = Array.from(this.openOrders.keys());
+    if (orderIds.length === 0) return;
+
+    const message = `state of ${orderIds.length} open order(s) may have been missed while the order feed was disconnected`;
+    this.logger.info(message);
+    this.hooksEngine.handleOrderFeedGapDetected({
+      disconnectedAt,
+      orderIds,
+      message,
+    });
+  }
+
   private sendCommand(command: { [key in any]: any }) {
     this.logger.debug('command send to WS')
     this.logger.debug(command);
@@ -292,6 +503,12 @@ export class WsNextOrder extends GetNextOrder {
             orderId,
             order,
             status: OrderInfoStatus.TakeOfferDecreased,
+            patch: {
+              takeAmount: this.wsAmountToBigInt(
+                (event as WsOrderEvent<WsOrderInfoStatus.TakeOfferDecreased>).Order.order_info.order_info_status
+                  .TakeOfferDecreased.order_take_final_amount
+              ),
+            },
           }
           return TakeOfferDecreased
         case WsOrderInfoStatus.GiveOfferIncreased:
@@ -299,6 +516,12 @@ export class WsNextOrder extends GetNextOrder {
             orderId,
             order,
             status: OrderInfoStatus.GiveOfferIncreased,
+            patch: {
+              giveAmount: this.wsAmountToBigInt(
+                (event as WsOrderEvent<WsOrderInfoStatus.GiveOfferIncreased>).Order.order_info.order_info_status
+                  .GiveOfferIncreased.order_give_final_amount
+              ),
+            },
           }
           return GiveOfferIncreased
       default:
@@ -306,9 +529,52 @@ export class WsNextOrder extends GetNextOrder {
     }
   }
 
+  /**
+   * Narrows the stream down to the routes between the subscribed chains, one filter per route, because the server
+   * filters offers by a single chain only
+   */
+  private getRouteFilters(): WsRouteFilter[] {
+    if (!this.subscription) return [{}];
+
+    const chainsOf = (side: OrderFeedSubscription["give"]) => Array.from(new Set(side.map(({ chainId }) => chainId)));
+    const takeChains = chainsOf(this.subscription.take);
+    return chainsOf(this.subscription.give).flatMap((giveChain) =>
+      takeChains
+        .filter((takeChain) => takeChain !== giveChain)
+        .map((takeChain) => ({
+          give_filter: { All: { chain_id: this.toWsChainId(giveChain) } },
+          take_filter: { All: { chain_id: this.toWsChainId(takeChain) } },
+        }))
+    );
+  }
+
+  private toWsChainId(chainId: ChainId): string {
+    return chainId.toString(16).padStart(64, "0");
+  }
+
+  /**
+   * The server filters orders by chains only, so orders are additionally narrowed down locally to tokens the
+   * executor could ever fulfill
+   */
+  private isSubscribed(order: OrderData): boolean {
+    if (!this.subscription) return true;
+
+    const matches = (side: OrderFeedSubscription["give"], offer: Offer) =>
+      side.some(
+        ({ chainId, tokens }) =>
+          chainId === offer.chainId &&
+          (!tokens || tokens.some((token) => buffersAreEqual(token, offer.tokenAddress)))
+      );
+    return matches(this.subscription.give, order.give) && matches(this.subscription.take, order.take);
+  }
+
+  private wsAmountToBigInt(amount: string): bigint {
+    return U256.fromBytesBE(helpers.hexToBuffer(amount)).toBigInt();
+  }
+
   private wsOfferToOffer(info: WsOrderOffer): Offer {
     return {
-      amount: U256.fromBytesBE(helpers.hexToBuffer(info.amount)).toBigInt(),
+      amount: this.wsAmountToBigInt(info.amount),
       chainId: Number(U256.fromHexBEString(info.chain_id).toBigInt()),
       tokenAddress: helpers.hexToBuffer(info.token_address),
     };
@@ -333,7 +599,19 @@ export class WsNextOrder extends GetNextOrder {
       allowedTaker: info.order.allowed_taker_dst
         ? helpers.hexToBuffer(info.order.allowed_taker_dst)
         : undefined,
-      externalCall: undefined,
+      externalCall: info.order.external_call
+        ? {
+            executionFee: U256.fromBytesBE(
+              helpers.hexToBuffer(info.order.external_call.execution_fee)
+            ).toBigInt(),
+            fallbackDstAddress: helpers.hexToBuffer(
+              info.order.external_call.fallback_address_dst
+            ),
+            externalCallHash: helpers.hexToBuffer(
+              info.order.external_call.hash_of_external_call
+            ),
+          }
+        : undefined,
     };
     const calculatedId = Order.calculateId(order);
     if (calculatedId !== info.order_id)
@@ -6,8 +6,10 @@ import {
   OrderState,
   tokenAddressToString,
   tokenStringToBuffer,
+  ZERO_EVM_ADDRESS,
 } from "@debridge-finance/dln-client";
 import { VersionedTransaction } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
 import { Logger } from "pino";
 import Web3 from "web3";
 
@@ -16,16 +18,45 @@ import {
   ExecutorSupportedChain,
   IExecutor,
 } from "../executors/executor";
+import { HooksEngine } from "../hooks/HooksEngine";
+import { IncomingOrder, OrderInfoStatus } from "../interfaces";
 import { createClientLogger } from "../logger";
+import { metrics } from "../metrics";
 import { EvmProviderAdapter } from "../providers/evm.provider.adapter";
 import { SolanaProviderAdapter } from "../providers/solana.provider.adapter";
+import { OrderStateStore, StoredOrderKind } from "../stores";
 
 import { OrderProcessorContext } from "./base";
-import { HooksEngine } from "../hooks/HooksEngine";
 import { isRevertedError } from "./utils/isRevertedError";
 
+// how often to check if partial batches should be flushed, in ms
+const PARTIAL_BATCH_FLUSH_CHECK_INTERVAL = 60_000;
+
+/**
+ * Defines when orders accumulated in a batch that is not full yet should be unlocked. A partial batch is flushed
+ * when any of the age or worth conditions is met, and only if the extra cost is acceptable
+ */
+export type BatchUnlockFlushPolicy = {
+  /**
+   * Max amount of seconds the oldest order may wait in the batch
+   */
+  maxAge?: number;
+
+  /**
+   * USD worth of give amounts of accumulated orders which triggers the unlock
+   */
+  minUsdWorth?: number;
+
+  /**
+   * Max extra cost (in USD) to pay for unlocking a partial batch, compared to the cost of unlocking the same orders as
+   * a part of a full batch
+   */
+  maxExtraCostUsd?: number;
+};
+
 export class BatchUnlocker {
   private ordersDataMap = new Map<string, OrderData>(); // orderId => orderData
+  private ordersQueuedAtMap = new Map<string, number>(); // orderId => timestamp (ms)
   private unlockBatchesOrderIdMap = new Map<ChainId, Set<string>>(); // chainId => orderId[]
   private isBatchUnlockLocked: boolean = false;
   private readonly logger: Logger;
@@ -35,19 +66,36 @@ export class BatchUnlocker {
     logger: Logger,
     private readonly takeChain: ExecutorInitializingChain,
     private readonly batchUnlockSize: number,
-    private readonly hooksEngine: HooksEngine
+    private readonly hooksEngine: HooksEngine,
+    private readonly orderStateStore: OrderStateStore,
+    private readonly flushPolicy: BatchUnlockFlushPolicy = {}
   ) {
     this.logger = logger.child({
       service: "batchUnlock",
       takeChainId: this.takeChain.chain,
       batchUnlockSize,
     });
+
+    if (
+      flushPolicy.maxAge !== undefined ||
+      flushPolicy.minUsdWorth !== undefined
+    ) {
+      setInterval(
+        () => this.flushPartialBatches(),
+        PARTIAL_BATCH_FLUSH_CHECK_INTERVAL
+      );
+    }
   }
 
+  /**
+   * Adds the fulfilled order to the batch unlock queue. The order restored after the restart keeps the time it has
+   * been queued at, so the age of the batch is not reset by restarts
+   */
   async unlockOrder(
     orderId: string,
     order: OrderData,
-    context: OrderProcessorContext
+    context: OrderProcessorContext,
+    queuedAt?: number
   ): Promise<void> {
     this.executor = context.config;
 
@@ -55,7 +103,7 @@ export class BatchUnlocker {
     const orderState = await this.executor.client.getTakeOrderStatus(
       orderId,
       order.take.chainId,
-      { web3: this.takeChain.fulfillProvider.connection as Web3 }
+      { web3: this.takeChain.fulfillProvider.quorumConnection as Web3 }
     );
     // order must be in the FULFILLED state
     if (orderState?.status !== OrderState.Fulfilled) {
@@ -86,19 +134,38 @@ export class BatchUnlocker {
     }
 
     // filling batch queue
-    return this.addOrder(orderId, order, context);
+    return this.addOrder(orderId, order, context, queuedAt);
   }
 
   private async addOrder(
     orderId: string,
     order: OrderData,
-    context: OrderProcessorContext) {
+    context: OrderProcessorContext,
+    queuedAt: number = Date.now()) {
 
     if (!this.unlockBatchesOrderIdMap.has(order.give.chainId)) {
       this.unlockBatchesOrderIdMap.set(order.give.chainId, new Set());
     }
     this.unlockBatchesOrderIdMap.get(order.give.chainId)!.add(orderId);
     this.ordersDataMap.set(orderId, order);
+    if (!this.ordersQueuedAtMap.has(orderId)) {
+      this.ordersQueuedAtMap.set(orderId, queuedAt);
+    }
+    this.updateQueueSizeMetric(order.give.chainId);
+
+    // persisted as ArchivalFulfilled to be passed through the validation again upon restoring
+    const orderInfo: IncomingOrder<OrderInfoStatus.ArchivalFulfilled> = {
+      orderId,
+      order,
+      status: OrderInfoStatus.ArchivalFulfilled,
+      unlockAuthority: this.takeChain.unlockProvider.address,
+    };
+    this.orderStateStore.put({
+      kind: StoredOrderKind.Unlock,
+      orderInfo,
+      attempts: 0,
+      queuedAt: this.ordersQueuedAtMap.get(orderId),
+    });
 
     context.logger.debug(`added to the batch unlock queue`);
     this.logger.debug(
@@ -110,7 +177,11 @@ export class BatchUnlocker {
     return this.tryUnlock(order.give.chainId);
   }
 
-  async tryUnlock(giveChainId: ChainId): Promise<void> {
+  /**
+   * Sends a batch unlock to the given give chain if enough orders has been accumulated.
+   * Set force=true to unlock the orders even when the batch is not full
+   */
+  async tryUnlock(giveChainId: ChainId, force: boolean = false): Promise<void> {
     // check that process is blocked
     if (this.isBatchUnlockLocked) {
       this.logger.debug(
@@ -119,8 +190,19 @@ export class BatchUnlocker {
       return;
     }
 
-    const currentSize = this.unlockBatchesOrderIdMap.get(giveChainId)!.size;
-    if (currentSize < this.batchUnlockSize) {
+    if (this.takeChain.dryRun) {
+      this.logger.debug("dry run: not performing unlock procedures");
+      return;
+    }
+
+    const currentSize = this.getQueueSize(giveChainId);
+    if (currentSize === 0) {
+      this.logger.debug(
+        `batch unlock queue for ${ChainId[giveChainId]} is empty, not performing unlock procedures`
+      );
+      return;
+    }
+    if (currentSize < this.batchUnlockSize && !force) {
       this.logger.debug(
         "batch is not fulled yet, not performing unlock procedures"
       );
@@ -155,6 +237,204 @@ export class BatchUnlocker {
     }
   }
 
+  private async flushPartialBatches(): Promise<void> {
+    // executor is known only after the first order has been passed
+    if (!this.executor) return;
+
+    for (const giveChainId of Array.from(this.unlockBatchesOrderIdMap.keys())) {
+      const size = this.getQueueSize(giveChainId);
+      if (size === 0 || size >= this.batchUnlockSize) continue;
+
+      const logger = this.logger.child({ giveChainId, partialBatchSize: size });
+      try {
+        const reason = await this.getFlushReason(giveChainId, logger);
+        if (!reason) continue;
+
+        const extraCostUsd = await this.getPartialBatchExtraCostUsd(
+          giveChainId,
+          size,
+          logger
+        );
+        logger.debug(
+          `extra cost of unlocking the partial batch: $${extraCostUsd.toFixed(
+            2
+          )}`
+        );
+        if (
+          this.flushPolicy.maxExtraCostUsd !== undefined &&
+          extraCostUsd > this.flushPolicy.maxExtraCostUsd
+        ) {
+          logger.info(
+            `${reason}, but extra cost of unlocking the partial batch ($${extraCostUsd.toFixed(
+              2
+            )}) exceeds $${this.flushPolicy.maxExtraCostUsd}, not flushing`
+          );
+          continue;
+        }
+
+        logger.info(
+          `${reason}, flushing partial batch to ${ChainId[giveChainId]}`
+        );
+        await this.tryUnlock(giveChainId, true);
+      } catch (e) {
+        logger.error(`unable to flush partial batch: ${e}`);
+        logger.error(e);
+      }
+    }
+  }
+
+  /**
+   * Returns a human readable reason if the partial batch meets the flush policy
+   */
+  private async getFlushReason(
+    giveChainId: ChainId,
+    logger: Logger
+  ): Promise<string | undefined> {
+    const orderIds = Array.from(this.unlockBatchesOrderIdMap.get(giveChainId)!);
+
+    if (this.flushPolicy.maxAge !== undefined) {
+      const oldestQueuedAt = Math.min(
+        ...orderIds.map(
+          (orderId) => this.ordersQueuedAtMap.get(orderId) || Date.now()
+        )
+      );
+      const age = (Date.now() - oldestQueuedAt) / 1000;
+      if (age >= this.flushPolicy.maxAge) {
+        return `the oldest order has been waiting for ${age.toFixed(0)}s`;
+      }
+    }
+
+    if (this.flushPolicy.minUsdWorth !== undefined) {
+      const usdWorth = await this.getQueuedUsdWorth(
+        giveChainId,
+        orderIds,
+        logger
+      );
+      logger.debug(`queued orders worth: $${usdWorth.toFixed(2)}`);
+      if (usdWorth >= this.flushPolicy.minUsdWorth) {
+        return `queued orders worth $${usdWorth.toFixed(2)}`;
+      }
+    }
+  }
+
+  private async getQueuedUsdWorth(
+    giveChainId: ChainId,
+    orderIds: string[],
+    logger: Logger
+  ): Promise<number> {
+    const giveWeb3 = this.executor.chains[giveChainId]!.fulfillProvider
+      .connection as Web3;
+    const worths = await Promise.all(
+      orderIds.map(async (orderId) => {
+        const order = this.ordersDataMap.get(orderId)!;
+        const isNativeToken = buffersAreEqual(
+          order.give.tokenAddress,
+          tokenStringToBuffer(ChainId.Ethereum, ZERO_EVM_ADDRESS)
+        );
+        const [price, decimals] = await Promise.all([
+          this.executor.tokenPriceService.getPrice(
+            giveChainId,
+            isNativeToken ? null : order.give.tokenAddress,
+            { logger: createClientLogger(logger) }
+          ),
+          this.executor.client.getDecimals(
+            giveChainId,
+            order.give.tokenAddress,
+            giveWeb3
+          ),
+        ]);
+        return BigNumber(price)
+          .multipliedBy(order.give.amount.toString())
+          .dividedBy(new BigNumber(10).pow(decimals));
+      })
+    );
+
+    return worths
+      .reduce((sum, worth) => sum.plus(worth), BigNumber(0))
+      .toNumber();
+  }
+
+  /**
+   * Estimates how much more it costs to unlock the given number of orders in a partial batch rather than
+   * as a part of the full batch
+   */
+  private async getPartialBatchExtraCostUsd(
+    giveChainId: ChainId,
+    size: number,
+    logger: Logger
+  ): Promise<number> {
+    // orders coming from/to Solana are unlocked one by one, so the size of the batch does not matter
+    if (
+      giveChainId === ChainId.Solana ||
+      this.takeChain.chain === ChainId.Solana
+    ) {
+      return 0;
+    }
+
+    const giveChain = this.executor.chains[giveChainId]!;
+    const [giveNativePrice, takeNativePrice] = await Promise.all([
+      this.executor.tokenPriceService.getPrice(giveChainId, null, {
+        logger: createClientLogger(logger),
+      }),
+      this.executor.tokenPriceService.getPrice(this.takeChain.chain, null, {
+        logger: createClientLogger(logger),
+      }),
+    ]);
+
+    const getExecutionFee = async (ordersCount: number) => {
+      const { total } =
+        await this.executor.client.getClaimBatchUnlockExecutionFee(
+          ordersCount,
+          giveChainId,
+          this.takeChain.chain,
+          giveNativePrice,
+          takeNativePrice,
+          {
+            giveWeb3: (giveChain.unlockProvider as EvmProviderAdapter)
+              .connection,
+            takeWeb3: (this.takeChain.unlockProvider as EvmProviderAdapter)
+              .connection,
+            orderEstimationStage: OrderEstimationStage.OrderFulfillment,
+            loggerInstance: createClientLogger(logger),
+          }
+        );
+      return total;
+    };
+    const [partialBatchFee, fullBatchFee] = await Promise.all([
+      getExecutionFee(size),
+      getExecutionFee(this.batchUnlockSize),
+    ]);
+
+    // execution fee is expressed in the take chain's native currency
+    const extraCost = BigNumber(partialBatchFee.toString()).minus(
+      BigNumber(fullBatchFee.toString())
+        .multipliedBy(size)
+        .dividedBy(this.batchUnlockSize)
+    );
+    return extraCost
+      .dividedBy(
+        new BigNumber(10).pow(
+          this.executor.client.getNativeCurrencyDecimals(this.takeChain.chain)
+        )
+      )
+      .multipliedBy(takeNativePrice)
+      .toNumber();
+  }
+
+  getQueueSize(giveChainId: ChainId): number {
+    return this.unlockBatchesOrderIdMap.get(giveChainId)?.size || 0;
+  }
+
+  private updateQueueSizeMetric(giveChainId: ChainId) {
+    metrics.batchUnlockQueueSize.set(
+      {
+        giveChain: ChainId[giveChainId],
+        takeChain: ChainId[this.takeChain.chain],
+      },
+      this.getQueueSize(giveChainId)
+    );
+  }
+
   private peekNextBatch(): ChainId | undefined {
     for (const [chainId, orderIds] of this.unlockBatchesOrderIdMap.entries()) {
       if (orderIds.size >= this.batchUnlockSize) {
@@ -177,9 +457,12 @@ export class BatchUnlocker {
     unlockedOrders.forEach((id) => {
       this.unlockBatchesOrderIdMap.get(chainId)!.delete(id);
       this.ordersDataMap.delete(id);
+      this.ordersQueuedAtMap.delete(id);
+      this.orderStateStore.delete(StoredOrderKind.Unlock, id);
     });
+    this.updateQueueSizeMetric(chainId);
 
-    return unlockedOrders.length === this.batchUnlockSize;
+    return unlockedOrders.length === orderIds.length;
   }
 
   private async unlockOrders(
@@ -200,7 +483,7 @@ export class BatchUnlocker {
       const orderState = await this.executor.client.getTakeOrderStatus(
         orderId,
         this.takeChain.chain,
-        { web3: this.takeChain.fulfillProvider.connection as Web3 }
+        { web3: this.takeChain.fulfillProvider.quorumConnection as Web3 }
       );
 
       return orderState?.status === OrderState.Fulfilled
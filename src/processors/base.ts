@@ -13,8 +13,10 @@ import {
   ExecutorSupportedChain,
   IExecutor,
 } from "../executors/executor";
-import { IncomingOrderContext } from "../interfaces";
+import { PostponingReason } from "../hooks/HookEnums";
 import { HooksEngine } from "../hooks/HooksEngine";
+import { IncomingOrderContext, OrderInfoStatus } from "../interfaces";
+import { OrderStateStore } from "../stores";
 
 export class OrderProcessorContext {
   logger: Logger;
@@ -27,6 +29,7 @@ export class OrderProcessorInitContext {
   buckets: TokensBucket[];
   logger: Logger;
   hooksEngine: HooksEngine;
+  orderStateStore: OrderStateStore;
 }
 
 export type OrderProcessorInitializer = (
@@ -38,6 +41,46 @@ export interface IOrderProcessor {
   process(params: IncomingOrderContext): Promise<void>;
 }
 
+export type QueuedOrder = {
+  orderId: string;
+  status: OrderInfoStatus;
+  queue: "primary" | "secondary" | "mempool";
+  attempts: number;
+  lastPostponingReason?: PostponingReason;
+};
+
+/**
+ * Represents an order processor which can be inspected and controlled while the executor is running
+ */
+export interface IManageableOrderProcessor extends IOrderProcessor {
+  getQueuedOrders(): QueuedOrder[];
+
+  /**
+   * Forces immediate processing of the known order. Returns false if the order is unknown to the processor
+   */
+  reprocessOrder(orderId: string): boolean;
+
+  /**
+   * Removes the order from all queues. Returns false if the order is unknown to the processor
+   */
+  evictOrder(orderId: string): boolean;
+
+  /**
+   * Sends unlocks for all orders accumulated for the given give chain, even if the batch is not full
+   */
+  forceUnlock(giveChainId: ChainId): Promise<void>;
+
+  pause(): void;
+  resume(): void;
+  isPaused(): boolean;
+}
+
+export function isManageableOrderProcessor(
+  processor: IOrderProcessor
+): processor is IManageableOrderProcessor {
+  return "getQueuedOrders" in processor;
+}
+
 /**
  * Represents an order fulfillment engine. Cannot be chained, but can be nested.
  *
@@ -1,4 +1,16 @@
 import { IOrderProcessor, OrderProcessorInitializer } from "./base";
-import { universalProcessor } from "./universal";
+import {
+  DEFAULT_UNIVERSAL_PROCESSOR_PARAMS,
+  universalProcessor,
+  UniversalProcessorInitializer,
+  UniversalProcessorParams,
+} from "./universal";
 
-export { IOrderProcessor, universalProcessor, OrderProcessorInitializer };
+export {
+  DEFAULT_UNIVERSAL_PROCESSOR_PARAMS,
+  IOrderProcessor,
+  universalProcessor,
+  UniversalProcessorInitializer,
+  UniversalProcessorParams,
+  OrderProcessorInitializer,
+};
@@ -1,15 +1,26 @@
+import { ChainId } from "@debridge-finance/dln-client";
 import { Logger } from "pino";
+import { setTimeout } from "timers/promises";
 
 import { IncomingOrderContext, ProcessOrder } from "../interfaces";
-import { setTimeout } from 'timers/promises'
+import { metrics } from "../metrics";
+import { OrderStateStore, StoredOrderKind } from "../stores";
 
 export class MempoolService {
   private readonly logger: Logger;
   private readonly orderParams = new Map<string, IncomingOrderContext>();
+  // every addition of the order is identified by the token, so the trigger of the order which has been deleted
+  // (or added once again) meanwhile does not invoke processing
+  private readonly orderTokens = new Map<string, number>();
+  private lastToken = 0;
+  // give chains of orders ever added, so the size of the mempool drops to zero once orders leave it
+  private readonly giveChainIds = new Set<ChainId>();
   constructor(
     logger: Logger,
     private readonly processOrderFunction: ProcessOrder,
     private readonly maxReprocessDelay: number,
+    private readonly orderStateStore: OrderStateStore,
+    private readonly takeChainId: ChainId,
     private readonly delayStep: number = 30
   ) {
     this.logger = logger.child({ service: "MempoolService" });
@@ -27,7 +38,17 @@ export class MempoolService {
    */
   addOrder(params: IncomingOrderContext, triggerOrDelay?: Promise<any> | number) {
     const orderId = params.orderInfo.orderId;
+    const token = ++this.lastToken;
     this.orderParams.set(orderId, params);
+    this.orderTokens.set(orderId, token);
+    this.giveChainIds.add(params.orderInfo.order.give.chainId);
+    this.updateSizeMetric();
+    this.orderStateStore.put({
+      kind: StoredOrderKind.Pending,
+      orderInfo: params.orderInfo,
+      attempts: params.attempts,
+      patch: params.patch,
+    });
 
     // logging from the order's context
     params.context.logger.debug("added to mempool");
@@ -55,19 +76,41 @@ export class MempoolService {
         const settlementTime = new Date();
         const waitingTime = (settlementTime.getTime() - promiseStartTime.getTime()) / 1000;
         params.context.logger.debug(`mempool promise triggered after ${waitingTime}s`)
-        if (this.orderParams.has(orderId)) {
+        if (this.orderTokens.get(orderId) === token) {
           params.context.logger.debug(`invoking order processing routine`)
-          this.orderParams.delete(orderId);
+          this.delete(orderId);
           params.attempts++;
           this.processOrderFunction(params);
         }
         else {
-          params.context.logger.debug(`order does not exist in the mempool`)
+          params.context.logger.debug(`order has been deleted from the mempool or added once again`)
         }
       })
   }
 
+  getOrders(): IncomingOrderContext[] {
+    return Array.from(this.orderParams.values());
+  }
+
+  has(orderId: string): boolean {
+    return this.orderParams.has(orderId);
+  }
+
   delete(orderId: string) {
     this.orderParams.delete(orderId);
+    this.orderTokens.delete(orderId);
+    this.updateSizeMetric();
+  }
+
+  private updateSizeMetric() {
+    for (const giveChainId of this.giveChainIds) {
+      const size = Array.from(this.orderParams.values()).filter(
+        (params) => params.orderInfo.order.give.chainId === giveChainId
+      ).length;
+      metrics.mempoolSize.set(
+        { giveChain: ChainId[giveChainId], takeChain: ChainId[this.takeChainId] },
+        size
+      );
+    }
   }
 }
@@ -0,0 +1,308 @@
+import {
+  buffersAreEqual,
+  calculateExpectedTakeAmount,
+  ChainEngine,
+  ChainId,
+  EvmChains,
+  findExpectedBucket,
+  getEngineByChainId,
+  OrderData,
+  tokenAddressToString,
+  TokensBucket,
+  tokenStringToBuffer,
+  ZERO_EVM_ADDRESS,
+} from "@debridge-finance/dln-client";
+import { SwapConnectorResult } from "@debridge-finance/dln-client/dist/types/swapConnector/swap.connector";
+import BigNumber from "bignumber.js";
+import { Logger } from "pino";
+import Web3 from "web3";
+
+import { ExecutorInitializingChain } from "../executors/executor";
+import { getExecutionFee } from "../helpers";
+import { RejectionReason } from "../hooks/HookEnums";
+import { IncomingOrder, OrderInfoStatus } from "../interfaces";
+import { createClientLogger } from "../logger";
+
+import { OrderProcessorContext } from "./base";
+
+/*
+ * Steps of the order estimation shared by the universal processor and the backtest, so both come to the same
+ * decision given the same market conditions
+ */
+
+export type EstimationRejection = {
+  reason: RejectionReason;
+  message: string;
+};
+
+export type RoughReserveEstimation = {
+  pickedBucket: ReturnType<typeof findExpectedBucket>;
+  reserveSrcTokenDecimals: number;
+  reserveDstTokenDecimals: number;
+
+  /**
+   * Give amount expressed in the reserve token of the take chain, which is roughly what the taker needs on balance
+   */
+  roughReserveDstAmount: BigNumber;
+};
+
+export type TakeAmountEstimation = Awaited<
+  ReturnType<typeof calculateExpectedTakeAmount>
+>;
+
+export type TakeAmountEstimationOpts = {
+  minProfitabilityBps: number;
+  batchUnlockSize: number;
+  evmFulfillGasLimit?: number;
+  evmFulfillCappedGasPrice?: bigint;
+  swapEstimationPreference?: SwapConnectorResult<EvmChains>;
+};
+
+/**
+ * Rejects orders the taker is unable to fulfill whatever the market conditions are
+ */
+export function checkOrderSupport(
+  orderInfo: IncomingOrder<any>,
+  buckets: TokensBucket[]
+): EstimationRejection | undefined {
+  const { order } = orderInfo;
+  const bucket = buckets.find(
+    (bucket) =>
+      bucket.isOneOf(order.give.chainId, order.give.tokenAddress) &&
+      bucket.findFirstToken(order.take.chainId) !== undefined
+  );
+  if (bucket === undefined) {
+    const giveToken = tokenAddressToString(
+      order.give.chainId,
+      order.give.tokenAddress
+    );
+    return {
+      reason: RejectionReason.UNEXPECTED_GIVE_TOKEN,
+      message: `no bucket found to cover order's give token: ${giveToken}`,
+    };
+  }
+
+  // the fulfill txn must carry the payload of the external call, which is executed right after the fulfillment
+  if (order.externalCall) {
+    const isEvmTakeChain =
+      getEngineByChainId(order.take.chainId) === ChainEngine.EVM;
+    if (!isEvmTakeChain || !orderInfo.externalCallData) {
+      return {
+        reason: RejectionReason.UNSUPPORTED_EXTERNAL_CALL,
+        message: isEvmTakeChain
+          ? `order carries the external call, but its payload has not been delivered by the order feed`
+          : `orders carrying external calls are not supported on ${
+              ChainId[order.take.chainId]
+            }`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compares the worth of the order announced before its finalization against block confirmation thresholds of the
+ * give chain, and reserves its worth within the budget of unconfirmed orders of the give chain
+ */
+export async function checkFinalization(
+  orderInfo: IncomingOrder<any>,
+  estimatedOrder: OrderData,
+  context: OrderProcessorContext,
+  logger: Logger
+): Promise<EstimationRejection | undefined> {
+  if (orderInfo.status !== OrderInfoStatus.Created) return undefined;
+
+  const finalizationInfo = (orderInfo as IncomingOrder<OrderInfoStatus.Created>)
+    .finalization_info;
+  if (finalizationInfo === "Revoked") {
+    return {
+      reason: RejectionReason.REVOKED,
+      message:
+        "order has been revoked by the order feed due to chain reorganization",
+    };
+  }
+  if ("Finalized" in finalizationInfo) {
+    // order have stable finality according to the WS
+    logger.debug("order source announced this order as finalized");
+    return undefined;
+  }
+
+  // we don't rely on ACTUAL finality (which can be retrieved from dln-taker's RPC node)
+  // to avoid data discrepancy and rely on WS instead
+  const announcedConfirmation =
+    finalizationInfo.Confirmed.confirmation_blocks_count;
+  logger.info(
+    `order announced with custom finality, announced confirmation: ${announcedConfirmation}`
+  );
+
+  // calculate USD worth of order
+  const { give } = orderInfo.order;
+  const isNativeGiveToken = buffersAreEqual(
+    give.tokenAddress,
+    tokenStringToBuffer(ChainId.Ethereum, ZERO_EVM_ADDRESS)
+  );
+  const [giveTokenUsdRate, giveTokenDecimals] = await Promise.all([
+    context.config.tokenPriceService.getPrice(
+      give.chainId,
+      isNativeGiveToken ? null : give.tokenAddress,
+      { logger: createClientLogger(logger) }
+    ),
+    context.config.client.getDecimals(
+      give.chainId,
+      give.tokenAddress,
+      context.giveChain.fulfillProvider.connection as Web3
+    ),
+  ]);
+  logger.debug(`usd rate for give token: ${giveTokenUsdRate}`);
+  logger.debug(`decimals for give token: ${giveTokenDecimals}`);
+
+  // converting give amount
+  const usdWorth = BigNumber(giveTokenUsdRate)
+    .multipliedBy(estimatedOrder.give.amount.toString())
+    .dividedBy(new BigNumber(10).pow(giveTokenDecimals))
+    .toNumber();
+  logger.debug(`order worth in usd: ${usdWorth}`);
+
+  // find appropriate range corresponding to this USD worth
+  const range = context.giveChain.usdAmountConfirmations.find(
+    (usdWorthRange) =>
+      usdWorthRange.usdWorthFrom < usdWorth &&
+      usdWorth <= usdWorthRange.usdWorthTo
+  );
+
+  // range not found: we do not accept this order, let it come finalized
+  if (!range?.minBlockConfirmations) {
+    return {
+      reason: RejectionReason.NOT_YET_FINALIZED,
+      message: `non-finalized order worth of $${usdWorth.toFixed(
+        2
+      )} is not covered by any custom block confirmation range`,
+    };
+  }
+
+  // range found, ensure current block confirmation >= expected
+  logger.debug(
+    `usdAmountConfirmationRange found: (${range.usdWorthFrom}, ${range.usdWorthTo}]`
+  );
+  if (announcedConfirmation < range.minBlockConfirmations) {
+    return {
+      reason: RejectionReason.NOT_ENOUGH_BLOCK_CONFIRMATIONS_FOR_ORDER_WORTH,
+      message: `announced block confirmations (${announcedConfirmation}) is less than the block confirmation constraint (${
+        range.minBlockConfirmations
+      } for order worth of $${usdWorth.toFixed(2)}`,
+    };
+  }
+  logger.debug("accepting order for execution");
+
+  // the worth of the order is reserved until the order is fulfilled, so orders being processed
+  // simultaneously (on other take chains as well) can't exceed the budget
+  const budget = context.giveChain.unconfirmedOrdersBudget;
+  if (budget && !budget.reserve(orderInfo.orderId, usdWorth)) {
+    return {
+      reason: RejectionReason.UNCONFIRMED_ORDERS_BUDGED_EXCEEDED,
+      message: `fulfilling non-finalized order worth of $${usdWorth.toFixed(
+        2
+      )} would exceed the budget of unconfirmed orders on ${
+        ChainId[give.chainId]
+      } ($${budget.getUsedUsd().toFixed(2)} of $${budget.budgetUsd} used)`,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Performs rough estimation: assuming order.give.amount is what we need on balance
+ */
+export async function estimateRoughReserveAmount(
+  estimatedOrder: OrderData,
+  context: OrderProcessorContext,
+  takeChain: ExecutorInitializingChain
+): Promise<RoughReserveEstimation> {
+  const pickedBucket = findExpectedBucket(
+    estimatedOrder,
+    context.config.buckets
+  );
+  const [reserveSrcTokenDecimals, reserveDstTokenDecimals] = await Promise.all([
+    context.config.client.getDecimals(
+      estimatedOrder.give.chainId,
+      pickedBucket.reserveSrcToken,
+      context.giveChain.fulfillProvider.connection as Web3
+    ),
+    context.config.client.getDecimals(
+      estimatedOrder.take.chainId,
+      pickedBucket.reserveDstToken,
+      takeChain.fulfillProvider.connection as Web3
+    ),
+  ]);
+
+  // reserveSrcToken is eq to reserveDstToken, but need to sync decimals
+  const roughReserveDstAmount = BigNumber(estimatedOrder.give.amount.toString())
+    .div(BigNumber(10).pow(reserveSrcTokenDecimals - reserveDstTokenDecimals))
+    .integerValue();
+
+  return {
+    pickedBucket,
+    reserveSrcTokenDecimals,
+    reserveDstTokenDecimals,
+    roughReserveDstAmount,
+  };
+}
+
+/**
+ * Estimates the amount of the take token the order gives at the desired profitability. The execution fee of the
+ * external call is paid back to the taker within the fulfill txn, so it is counted when no preswap is needed,
+ * because otherwise the swap must still give the full take amount
+ */
+export async function estimateTakeAmount(
+  estimatedOrder: OrderData,
+  context: OrderProcessorContext,
+  takeChain: ExecutorInitializingChain,
+  opts: TakeAmountEstimationOpts,
+  logger: Logger
+): Promise<TakeAmountEstimation> {
+  const batchSize =
+    estimatedOrder.give.chainId === ChainId.Solana ||
+    estimatedOrder.take.chainId === ChainId.Solana
+      ? null
+      : opts.batchUnlockSize;
+
+  const estimation = await calculateExpectedTakeAmount(
+    estimatedOrder,
+    opts.minProfitabilityBps,
+    {
+      client: context.config.client,
+      giveConnection: context.giveChain.fulfillProvider.connection as Web3,
+      takeConnection: takeChain.fulfillProvider.connection as Web3,
+      priceTokenService: context.config.tokenPriceService,
+      buckets: context.config.buckets,
+      swapConnector: context.config.swapConnector,
+      logger: createClientLogger(logger),
+      batchSize,
+      evmFulfillGasLimit: opts.evmFulfillGasLimit,
+      evmFulfillCappedGasPrice: opts.evmFulfillCappedGasPrice,
+      swapEstimationPreference: opts.swapEstimationPreference,
+    }
+  );
+
+  const executionFee = getExecutionFee(estimatedOrder);
+  if (
+    !estimation.isProfitable &&
+    executionFee > 0n &&
+    buffersAreEqual(
+      estimation.reserveDstToken,
+      estimatedOrder.take.tokenAddress
+    )
+  ) {
+    const isProfitable =
+      BigInt(estimation.profitableTakeAmount) + executionFee >=
+      estimatedOrder.take.amount;
+    logger.debug(
+      `execution fee of the external call (${executionFee}) is counted, profitable: ${isProfitable}`
+    );
+    return { ...estimation, isProfitable };
+  }
+
+  return estimation;
+}
@@ -0,0 +1,103 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import { Logger } from "pino";
+
+import { IncomingOrder } from "../interfaces";
+import { OrderStateStore, StoredOrderKind } from "../stores";
+
+/**
+ * Caps the total USD worth of orders coming from the give chain which were fulfilled while being non-finalized
+ * (announced as Confirmed by the order feed), because such orders may still be revoked by the chain reorg.
+ * Processors reserve the worth of the order before its fulfillment; the reservation turns into the exposure once the
+ * order is fulfilled, or is cancelled otherwise. The exposure is released once the order gets finalized or its unlock
+ * is claimed
+ */
+export class UnconfirmedOrdersBudget {
+  private readonly reservations = new Map<string, number>(); // key orderid, usd worth of the order being fulfilled
+  private readonly exposures = new Map<string, number>(); // key orderid, usd worth of the fulfilled order
+  private readonly logger: Logger;
+
+  constructor(
+    readonly chainId: ChainId,
+    readonly budgetUsd: number,
+    private readonly orderStateStore: OrderStateStore,
+    logger: Logger
+  ) {
+    this.logger = logger.child({
+      service: "UnconfirmedOrdersBudget",
+      giveChainId: chainId,
+    });
+  }
+
+  getUsedUsd(): number {
+    return [...this.reservations.values(), ...this.exposures.values()].reduce(
+      (sum, usdWorth) => sum + usdWorth,
+      0
+    );
+  }
+
+  /**
+   * Reserves the worth of the order within the budget. Returns false if the budget would be exceeded
+   */
+  reserve(orderId: string, usdWorth: number): boolean {
+    // the order fulfilled before is already counted
+    if (this.exposures.has(orderId)) return true;
+
+    this.reservations.delete(orderId);
+    if (this.getUsedUsd() + usdWorth > this.budgetUsd) return false;
+
+    this.reservations.set(orderId, usdWorth);
+    return true;
+  }
+
+  /**
+   * Turns the reservation of the fulfilled order into the exposure
+   */
+  commit(orderInfo: IncomingOrder<any>): void {
+    const usdWorth = this.reservations.get(orderInfo.orderId);
+    if (usdWorth === undefined) return;
+
+    this.reservations.delete(orderInfo.orderId);
+    this.exposures.set(orderInfo.orderId, usdWorth);
+    this.orderStateStore.put({
+      kind: StoredOrderKind.UnconfirmedExposure,
+      orderInfo,
+      attempts: 0,
+      usdWorth,
+    });
+    const { orderId } = orderInfo;
+    const worth = usdWorth.toFixed(2);
+    this.logger.info(
+      `order ${orderId} (worth $${worth}) is exposed, ${this.describeUsage()}`
+    );
+  }
+
+  /**
+   * Cancels the reservation of the order which has not been fulfilled
+   */
+  cancel(orderId: string): void {
+    this.reservations.delete(orderId);
+  }
+
+  /**
+   * Releases the exposure of the order which is not subject to the chain reorg anymore
+   */
+  release(orderId: string): void {
+    if (!this.exposures.delete(orderId)) return;
+
+    this.orderStateStore.delete(StoredOrderKind.UnconfirmedExposure, orderId);
+    this.logger.info(
+      `exposure of order ${orderId} released, ${this.describeUsage()}`
+    );
+  }
+
+  /**
+   * Restores the exposure persisted before the restart
+   */
+  restore(orderId: string, usdWorth: number): void {
+    this.exposures.set(orderId, usdWorth);
+  }
+
+  private describeUsage(): string {
+    return `used $${this.getUsedUsd().toFixed(2)} of $${this.budgetUsd}`;
+  }
+}
@@ -1,39 +1,54 @@
 import {
   BPS_DENOMINATOR,
   buffersAreEqual,
-  calculateExpectedTakeAmount,
   ChainEngine,
   ChainId,
   ClientError,
+  ClientErrorType,
   evm,
   EvmChains,
-  findExpectedBucket,
   getEngineByChainId,
   OrderData,
   OrderState,
   PreswapFulfillOrderPayload,
   tokenAddressToString,
   tokenStringToBuffer,
-  ZERO_EVM_ADDRESS,
 } from "@debridge-finance/dln-client";
+import {
+  SwapConnectorRequest,
+  SwapConnectorResult,
+} from "@debridge-finance/dln-client/dist/types/swapConnector/swap.connector";
 import BigNumber from "bignumber.js";
 import { Logger } from "pino";
 import Web3 from "web3";
 
-import { IncomingOrder, IncomingOrderContext, OrderInfoStatus} from "../interfaces";
+import { withExternalCallData, withOrderPatch } from "../helpers";
+import { Hooks, PostponingReason, RejectionReason } from "../hooks/HookEnums";
+import { HookParams } from "../hooks/types/HookParams";
+import { IncomingOrder, IncomingOrderContext, OrderInfoStatus, OrderPatch } from "../interfaces";
 import { createClientLogger } from "../logger";
+import { metrics } from "../metrics";
 import { EvmProviderAdapter, Tx } from "../providers/evm.provider.adapter";
 import { SolanaProviderAdapter } from "../providers/solana.provider.adapter";
+import { OrderStateStore, StoredOrderKind } from "../stores";
 
-import { BaseOrderProcessor, OrderProcessorContext, OrderProcessorInitContext, OrderProcessorInitializer } from "./base";
+import {
+  BaseOrderProcessor,
+  IManageableOrderProcessor,
+  OrderProcessorContext,
+  OrderProcessorInitContext,
+  OrderProcessorInitializer,
+  QueuedOrder,
+} from "./base";
 import { BatchUnlocker } from "./BatchUnlocker";
 import { MempoolService } from "./mempool.service";
-import { PostponingReason, RejectionReason } from "../hooks/HookEnums";
-import { isRevertedError } from "./utils/isRevertedError";
 import {
-  SwapConnectorRequest,
-  SwapConnectorResult
-} from "@debridge-finance/dln-client/dist/types/swapConnector/swap.connector";
+  checkFinalization,
+  checkOrderSupport,
+  estimateRoughReserveAmount,
+  estimateTakeAmount,
+} from "./order.estimation";
+import { isRevertedError } from "./utils/isRevertedError";
 
 // reasonable multiplier for gas estimated for the fulfill txn to define max
 // gas we are willing to estimate
@@ -73,6 +88,32 @@ export type UniversalProcessorParams = {
    */
   batchUnlockSize: number;
 
+  /**
+   * Max amount of seconds a fulfilled order may wait in the batch that is not full yet. Once the oldest order in
+   * the batch exceeds this age, the partial batch is unlocked. Default: disabled
+   */
+  batchUnlockMaxAge?: number;
+
+  /**
+   * USD worth of give amounts of accumulated fulfilled orders which triggers the unlock of a partial batch.
+   * Default: disabled
+   */
+  batchUnlockMinUsdWorth?: number;
+
+  /**
+   * Max extra cost (in USD) the executor is allowed to pay for the unlock of a partial batch triggered by
+   * batchUnlockMaxAge or batchUnlockMinUsdWorth, compared to the cost of unlocking the same orders as a part of the
+   * full batch. Default: unlimited
+   */
+  batchUnlockMaxExtraCostUsd?: number;
+
+  /**
+   * Max number of orders to be processed (estimated and fulfilled) simultaneously on the take chain. Each order
+   * being processed reserves the amount of the reserve token it needs, so other orders can't count on the same funds.
+   * Default: 1
+   */
+  maxConcurrentOrders: number;
+
   /**
    * Min slippage that can be used for swap from reserveToken to takeToken when calculated automatically
    */
@@ -84,22 +125,29 @@ export type UniversalProcessorParams = {
   preFulfillSwapMaxAllowedSlippageBps: number;
 };
 
-class UniversalProcessor extends BaseOrderProcessor {
+export const DEFAULT_UNIVERSAL_PROCESSOR_PARAMS: UniversalProcessorParams = {
+  minProfitabilityBps: 4,
+  mempoolInterval: 60,
+  mempoolMaxDelayStep: 30,
+  batchUnlockSize: 10,
+  maxConcurrentOrders: 1,
+  preFulfillSwapMinAllowedSlippageBps: 5,
+  preFulfillSwapMaxAllowedSlippageBps: 400,
+};
+
+class UniversalProcessor extends BaseOrderProcessor implements IManageableOrderProcessor {
   private mempoolService: MempoolService;
   private priorityQueue = new Set<string>(); // queue of orderid for processing created order
   private queue = new Set<string>(); // queue of orderid for retry processing order
   private incomingOrdersMap = new Map<string, IncomingOrderContext>(); // key orderid, contains incoming order from order feed
-  private isLocked: boolean = false;
+  private ordersInProcessing = new Set<string>(); // orderids being processed right now
+  private reservedAmounts = new Map<string, { token: string; amount: BigNumber }>(); // key orderid
+  private isFulfillmentPaused: boolean = false;
+  private lastPostponingReasons = new Map<string, PostponingReason>(); // key orderid
   private batchUnlocker: BatchUnlocker;
+  private orderStateStore: OrderStateStore;
 
-  private params: UniversalProcessorParams = {
-    minProfitabilityBps: 4,
-    mempoolInterval: 60,
-    mempoolMaxDelayStep: 30,
-    batchUnlockSize: 10,
-    preFulfillSwapMinAllowedSlippageBps: 5,
-    preFulfillSwapMaxAllowedSlippageBps: 400,
-  };
+  private params: UniversalProcessorParams = { ...DEFAULT_UNIVERSAL_PROCESSOR_PARAMS };
 
   constructor(params?: Partial<UniversalProcessorParams>) {
     super();
@@ -110,6 +158,10 @@ class UniversalProcessor extends BaseOrderProcessor {
     ) {
       throw new Error("batchUnlockSize should be in [1, 10]");
     }
+    const maxConcurrentOrders = params?.maxConcurrentOrders;
+    if (maxConcurrentOrders !== undefined && maxConcurrentOrders < 1) {
+      throw new Error("maxConcurrentOrders should be at least 1");
+    }
     Object.assign(this.params, params || {});
   }
 
@@ -120,6 +172,7 @@ class UniversalProcessor extends BaseOrderProcessor {
     this.chainId = chainId;
     this.takeChain = context.takeChain;
     this.hooksEngine = context.hooksEngine;
+    this.orderStateStore = context.orderStateStore;
 
     const logger = context.logger.child({
       processor: "universal",
@@ -130,13 +183,21 @@ class UniversalProcessor extends BaseOrderProcessor {
       logger,
       this.takeChain,
       this.params.batchUnlockSize,
-      this.hooksEngine
+      this.hooksEngine,
+      this.orderStateStore,
+      {
+        maxAge: this.params.batchUnlockMaxAge,
+        minUsdWorth: this.params.batchUnlockMinUsdWorth,
+        maxExtraCostUsd: this.params.batchUnlockMaxExtraCostUsd,
+      }
     );
 
     this.mempoolService = new MempoolService(
       logger.child({ takeChainId: chainId }),
       this.process.bind(this),
-      this.params.mempoolInterval
+      this.params.mempoolInterval,
+      this.orderStateStore,
+      chainId
     );
 
     if (chainId !== ChainId.Solana) {
@@ -157,13 +218,15 @@ class UniversalProcessor extends BaseOrderProcessor {
             chainId,
             evm.ServiceType.CrosschainForwarder
           ),
-          logger
+          logger,
+          this.takeChain.dryRun
         );
 
         await evmProvider.approveToken(
           token,
           client.getContractAddress(chainId, evm.ServiceType.Destination),
-          logger
+          logger,
+          this.takeChain.dryRun
         );
       }
     }
@@ -182,11 +245,19 @@ class UniversalProcessor extends BaseOrderProcessor {
       case OrderInfoStatus.ArchivalCreated:
       case OrderInfoStatus.Created: {
         // must remove this order from all queues bc new order can be an updated version
-        this.incomingOrdersMap.set(orderInfo.orderId, params);
+        // patches received before are kept: the order announced once again carries the original amounts
+        const patch = params.patch || this.incomingOrdersMap.get(orderId)?.patch;
+        this.incomingOrdersMap.set(orderInfo.orderId, { ...params, patch });
+        this.orderStateStore.put({
+          kind: StoredOrderKind.Pending,
+          orderInfo,
+          attempts: params.attempts,
+          patch,
+        });
         return this.tryProcess(orderInfo.orderId);
       }
       case OrderInfoStatus.ArchivalFulfilled: {
-        this.batchUnlocker.unlockOrder(orderId, orderInfo.order, context);
+        this.batchUnlocker.unlockOrder(orderId, this.getFulfillableOrder(orderInfo), context, params.queuedAt);
         return;
       }
       case OrderInfoStatus.Cancelled: {
@@ -197,9 +268,13 @@ class UniversalProcessor extends BaseOrderProcessor {
       case OrderInfoStatus.Fulfilled: {
         this.clearInternalQueues(orderId);
         context.logger.debug(`deleted from queues`);
-        this.batchUnlocker.unlockOrder(orderId, orderInfo.order, context);
+        this.batchUnlocker.unlockOrder(orderId, this.getFulfillableOrder(orderInfo), context);
         return;
       }
+      case OrderInfoStatus.TakeOfferDecreased:
+      case OrderInfoStatus.GiveOfferIncreased: {
+        return this.processPatch(params);
+      }
       default: {
         context.logger.debug(
           `status=${OrderInfoStatus[orderInfo.status]} not implemented, skipping`
@@ -209,11 +284,121 @@ class UniversalProcessor extends BaseOrderProcessor {
     }
   }
 
+  /**
+   * Remembers the patch of the known order and re-evaluates it immediately: the order made more attractive by the
+   * maker may become profitable. The order itself is left intact, because its id is derived from the original amounts
+   */
+  private processPatch(params: IncomingOrderContext): Promise<void> {
+    const { context } = params;
+    const orderInfo = params.orderInfo as IncomingOrder<OrderInfoStatus.TakeOfferDecreased>;
+    const knownParams = this.incomingOrdersMap.get(orderInfo.orderId);
+    if (!knownParams) {
+      context.logger.debug(`patch of the unknown order, skipping`);
+      return Promise.resolve();
+    }
+
+    // the status (and the finalization info) of the known order is preserved, patches are accumulated
+    const patch: OrderPatch = { ...knownParams.patch, ...orderInfo.patch };
+    const patchedOrder = withOrderPatch(knownParams.orderInfo.order, patch);
+    context.logger.info(
+      `order patched (${OrderInfoStatus[orderInfo.status]}): give amount ${patchedOrder.give.amount}, take amount ${patchedOrder.take.amount}`
+    );
+
+    this.incomingOrdersMap.set(orderInfo.orderId, { ...knownParams, patch });
+    this.orderStateStore.put({
+      kind: StoredOrderKind.Pending,
+      orderInfo: knownParams.orderInfo,
+      attempts: knownParams.attempts,
+      patch,
+    });
+    this.hooksEngine.handleOrderPatched({
+      order: knownParams.orderInfo,
+      status: orderInfo.status,
+      patch,
+      context,
+    });
+
+    // the patched order does not wait for the mempool
+    this.mempoolService.delete(orderInfo.orderId);
+    return this.tryProcess(orderInfo.orderId);
+  }
+
   private clearInternalQueues(orderId: string): void {
     this.queue.delete(orderId);
     this.priorityQueue.delete(orderId);
     this.incomingOrdersMap.delete(orderId)
     this.mempoolService.delete(orderId);
+    this.lastPostponingReasons.delete(orderId);
+    this.orderStateStore.delete(StoredOrderKind.Pending, orderId);
+  }
+
+  private handleOrderPostponed(params: HookParams<Hooks.OrderPostponed>) {
+    this.lastPostponingReasons.set(params.order.orderId, params.reason);
+    this.hooksEngine.handleOrderPostponed(params);
+  }
+
+  getQueuedOrders(): QueuedOrder[] {
+    const toQueuedOrder = (
+      params: IncomingOrderContext,
+      queue: QueuedOrder["queue"]
+    ): QueuedOrder => ({
+      orderId: params.orderInfo.orderId,
+      status: params.orderInfo.status,
+      queue,
+      attempts: params.attempts,
+      lastPostponingReason: this.lastPostponingReasons.get(params.orderInfo.orderId),
+    });
+
+    return [
+      ...Array.from(this.priorityQueue)
+        .filter((orderId) => this.incomingOrdersMap.has(orderId))
+        .map((orderId) => toQueuedOrder(this.incomingOrdersMap.get(orderId)!, "primary")),
+      ...Array.from(this.queue)
+        .filter((orderId) => this.incomingOrdersMap.has(orderId))
+        .map((orderId) => toQueuedOrder(this.incomingOrdersMap.get(orderId)!, "secondary")),
+      ...this.mempoolService.getOrders().map((params) => toQueuedOrder(params, "mempool")),
+    ];
+  }
+
+  reprocessOrder(orderId: string): boolean {
+    const params = this.incomingOrdersMap.get(orderId);
+    if (!params) return false;
+
+    params.context.logger.info(`forced reprocessing of the order`);
+    // removing from the queues (and cancelling the mempool trigger) so the order is not picked twice
+    this.mempoolService.delete(orderId);
+    this.priorityQueue.delete(orderId);
+    this.queue.delete(orderId);
+    this.tryProcess(orderId).catch((e) =>
+      params.context.logger.error(`forced reprocessing failed: ${e}`)
+    );
+    return true;
+  }
+
+  evictOrder(orderId: string): boolean {
+    const params = this.incomingOrdersMap.get(orderId);
+    if (!params) return false;
+
+    params.context.logger.info(`order evicted from queues`);
+    this.clearInternalQueues(orderId);
+    return true;
+  }
+
+  forceUnlock(giveChainId: ChainId): Promise<void> {
+    return this.batchUnlocker.tryUnlock(giveChainId, true);
+  }
+
+  pause(): void {
+    this.isFulfillmentPaused = true;
+  }
+
+  resume(): void {
+    this.isFulfillmentPaused = false;
+    this.processNextOrders();
+  }
+
+  isPaused(): boolean {
+    return this.isFulfillmentPaused;
   }
 
   private async tryProcess(orderId: string): Promise<void> {
@@ -223,10 +408,16 @@ class UniversalProcessor extends BaseOrderProcessor {
     const logger = params.context.logger;
     const orderInfo = params.orderInfo;
 
-    // already processing an order
-    if (this.isLocked) {
+    // already processing max number of orders (or this very order), or fulfillment is paused
+    if (
+      this.ordersInProcessing.size >= this.params.maxConcurrentOrders ||
+      this.ordersInProcessing.has(orderId) ||
+      this.isFulfillmentPaused
+    ) {
       logger.debug(
-        `Processor is currently processing an order, postponing`
+        this.isFulfillmentPaused
+          ? `Processor is paused, postponing`
+          : `Processor is currently processing ${this.ordersInProcessing.size} order(s), postponing`
       );
 
       switch (orderInfo.status) {
@@ -249,7 +440,7 @@ class UniversalProcessor extends BaseOrderProcessor {
     }
 
     // process this order
-    this.isLocked = true;
+    this.ordersInProcessing.add(orderId);
     try {
       await this.processOrder(orderId);
     } catch (e) {
@@ -259,7 +450,7 @@ class UniversalProcessor extends BaseOrderProcessor {
       const params = this.incomingOrdersMap.get(orderId);
       if (params) {
         const { context, orderInfo } = params;
-        this.hooksEngine.handleOrderPostponed({
+        this.handleOrderPostponed({
           order: orderInfo,
           context,
           reason: PostponingReason.UNHANDLED_ERROR,
@@ -271,20 +462,61 @@ class UniversalProcessor extends BaseOrderProcessor {
         logger.debug(`order data is not presented in the map`);
       }
     }
-    this.isLocked = false;
+    this.ordersInProcessing.delete(orderId);
+    this.releaseReserve(orderId);
+    // the order has not been fulfilled unless the reservation has been committed
+    params.context.giveChain.unconfirmedOrdersBudget?.cancel(orderId);
+
+    // the order has been either rejected or dropped, there is no need to restore it after restart
+    if (
+      !this.mempoolService.has(orderId) &&
+      !this.priorityQueue.has(orderId) &&
+      !this.queue.has(orderId)
+    ) {
+      this.lastPostponingReasons.delete(orderId);
+      this.orderStateStore.delete(StoredOrderKind.Pending, orderId);
+    }
 
     // forward to the next order
+    this.processNextOrders();
+  }
+
+  private processNextOrders(): void {
     // TODO try to get rid of recursion here. Use setInterval?
-    const nextOrder = this.pickNextOrder();
-    if (nextOrder) {
+    while (
+      !this.isFulfillmentPaused &&
+      this.ordersInProcessing.size < this.params.maxConcurrentOrders
+    ) {
+      const nextOrder = this.pickNextOrder();
+      if (!nextOrder) return;
       this.tryProcess(nextOrder);
     }
   }
 
+  private getReservedAmount(token: Uint8Array): BigNumber {
+    const tokenAddress = tokenAddressToString(this.takeChain.chain, token);
+    return Array.from(this.reservedAmounts.values())
+      .filter((reservation) => reservation.token === tokenAddress)
+      .reduce((sum, reservation) => sum.plus(reservation.amount), new BigNumber(0));
+  }
+
+  private reserve(orderId: string, token: Uint8Array, amount: BigNumber): void {
+    this.reservedAmounts.set(orderId, {
+      token: tokenAddressToString(this.takeChain.chain, token),
+      amount,
+    });
+  }
+
+  private releaseReserve(orderId: string): void {
+    this.reservedAmounts.delete(orderId);
+  }
+
   private pickNextOrder(): string | undefined {
+    // orders being processed right now stay in queues until their processing is finished
+    const isIdle = (orderId: string) => !this.ordersInProcessing.has(orderId);
     const nextOrderId =
-      this.priorityQueue.values().next().value ||
-      this.queue.values().next().value;
+      Array.from(this.priorityQueue).find(isIdle) ||
+      Array.from(this.queue).find(isIdle);
 
     if (nextOrderId) {
       this.priorityQueue.delete(nextOrderId);
@@ -299,21 +531,22 @@ class UniversalProcessor extends BaseOrderProcessor {
     if (!params) throw new Error("Unexpected: missing data for order");
     const { context, orderInfo } = params;
     const logger = context.logger;
+    // amounts of the order as set by its patches, used for estimations only
+    const estimatedOrder = withOrderPatch(orderInfo.order, params.patch);
+    const stopEstimationTimer = metrics.estimationDuration.startTimer({
+      giveChain: ChainId[orderInfo.order.give.chainId],
+      takeChain: ChainId[orderInfo.order.take.chainId],
+    });
 
-    const bucket = context.config.buckets.find(
-      (bucket) =>
-        bucket.isOneOf(orderInfo.order.give.chainId, orderInfo.order.give.tokenAddress) &&
-        bucket.findFirstToken(orderInfo.order.take.chainId) !== undefined
-    );
-    if (bucket === undefined) {
-      const message = `no bucket found to cover order's give token: ${tokenAddressToString(orderInfo.order.give.chainId, orderInfo.order.give.tokenAddress)}`;
-      logger.info(message);
+    const unsupported = checkOrderSupport(orderInfo, context.config.buckets);
+    if (unsupported) {
+      logger.info(unsupported.message);
       this.hooksEngine.handleOrderRejected({
         order: orderInfo,
-        reason: RejectionReason.UNEXPECTED_GIVE_TOKEN,
+        reason: unsupported.reason,
         context,
         attempts: params.attempts,
-        message
+        message: unsupported.message,
       });
       return;
     }
@@ -322,7 +555,7 @@ class UniversalProcessor extends BaseOrderProcessor {
     const takeOrderStatus = await context.config.client.getTakeOrderStatus(
       orderInfo.orderId,
       orderInfo.order.take.chainId,
-      { web3: this.takeChain.fulfillProvider.connection as Web3 }
+      { web3: this.takeChain.fulfillProvider.quorumConnection as Web3 }
     );
     if (
       takeOrderStatus?.status !== OrderState.NotSet &&
@@ -344,7 +577,7 @@ class UniversalProcessor extends BaseOrderProcessor {
     const giveOrderStatus = await context.config.client.getGiveOrderStatus(
       orderInfo.orderId,
       orderInfo.order.give.chainId,
-      { web3: context.giveChain.fulfillProvider.connection as Web3 }
+      { web3: context.giveChain.fulfillProvider.quorumConnection as Web3 }
     );
 
     if (giveOrderStatus?.status === undefined) {
@@ -373,124 +606,55 @@ class UniversalProcessor extends BaseOrderProcessor {
       return;
     }
 
-    let allowPlaceToMempool = true;
-
     // compare worthiness of the order against block confirmation thresholds
-    if (orderInfo.status == OrderInfoStatus.Created) {
-      const finalizationInfo = (orderInfo as IncomingOrder<OrderInfoStatus.Created>).finalization_info;
-      if (finalizationInfo == 'Revoked') {
-        this.clearInternalQueues(orderInfo.orderId);
-
-        const message = 'order has been revoked by the order feed due to chain reorganization';
-        logger.info(message);
-        this.hooksEngine.handleOrderRejected({
-          order: orderInfo,
-          reason: RejectionReason.REVOKED,
-          attempts: params.attempts,
-          context,
-          message,
-        });
-        return;
-      }
-      else if ('Confirmed' in finalizationInfo) {
-        // we don't rely on ACTUAL finality (which can be retrieved from dln-taker's RPC node)
-        // to avoid data discrepancy and rely on WS instead
-        const announcedConfirmation = finalizationInfo.Confirmed.confirmation_blocks_count;
-        logger.info(`order announced with custom finality, announced confirmation: ${announcedConfirmation}`);
-
-        // we don't want this order to be put to mempool because we don't query actual block confirmations
-        allowPlaceToMempool = false;
-        logger.debug(`order won't appear in the mempool`)
-
-        // calculate USD worth of order
-        const [giveTokenUsdRate, giveTokenDecimals] = await Promise.all([
-          context.config.tokenPriceService.getPrice(
-            orderInfo.order.give.chainId,
-            buffersAreEqual(orderInfo.order.give.tokenAddress, tokenStringToBuffer(ChainId.Ethereum, ZERO_EVM_ADDRESS)) ? null : orderInfo.order.give.tokenAddress,
-            {
-              logger: createClientLogger(context.logger)
-            }
-          ),
-          context.config.client.getDecimals(orderInfo.order.give.chainId, orderInfo.order.give.tokenAddress, context.giveChain.fulfillProvider.connection as Web3)
-        ]);
-        logger.debug(`usd rate for give token: ${giveTokenUsdRate}`)
-        logger.debug(`decimals for give token: ${giveTokenDecimals}`)
-
-        // converting give amount
-        const usdWorth = BigNumber(giveTokenUsdRate)
-          .multipliedBy(orderInfo.order.give.amount.toString())
-          .dividedBy(new BigNumber(10).pow(giveTokenDecimals))
-          .toNumber();
-        logger.debug(`order worth in usd: ${usdWorth}`)
-
-        // find appropriate range corresponding to this USD worth
-        const range = context.config.chains[orderInfo.order.give.chainId]!.usdAmountConfirmations.find(
-          usdWorthRange => usdWorthRange.usdWorthFrom < usdWorth && usdWorth <= usdWorthRange.usdWorthTo
-        );
-
-        // range found, ensure current block confirmation >= expected
-        if (range?.minBlockConfirmations) {
-          logger.debug(`usdAmountConfirmationRange found: (${range.usdWorthFrom}, ${range.usdWorthTo}]`)
-
-          if (announcedConfirmation < range.minBlockConfirmations) {
-            const message = `announced block confirmations (${ announcedConfirmation }) is less than the block confirmation constraint (${range.minBlockConfirmations} for order worth of $${usdWorth.toFixed(2)}`;
-            logger.info(message)
-            this.hooksEngine.handleOrderRejected({
-              order: orderInfo,
-              reason: RejectionReason.NOT_ENOUGH_BLOCK_CONFIRMATIONS_FOR_ORDER_WORTH,
-              attempts: params.attempts,
-              context,
-              message,
-            });
-            return;
-          }
-          else {
-            logger.debug("accepting order for execution")
-          }
-        }
-        else { // range not found: we do not accept this order, let it come finalized
-          const message = `non-finalized order worth of $${usdWorth.toFixed(2)} is not covered by any custom block confirmation range`;
-          logger.debug(message);
-          this.hooksEngine.handleOrderRejected({
-            order: orderInfo,
-            reason: RejectionReason.NOT_YET_FINALIZED,
-            context,
-            attempts: params.attempts,
-            message,
-          });
-          return;
-        }
-
-      }
-      else if ('Finalized' in finalizationInfo) {
-        // do nothing: order have stable finality according to the WS
-        logger.debug('order source announced this order as finalized')
-      }
+    const notFinalized = await checkFinalization(orderInfo, estimatedOrder, context, logger);
+    if (notFinalized) {
+      if (notFinalized.reason === RejectionReason.REVOKED) this.clearInternalQueues(orderInfo.orderId);
+      logger.info(notFinalized.message);
+      this.hooksEngine.handleOrderRejected({
+        order: orderInfo,
+        reason: notFinalized.reason,
+        attempts: params.attempts,
+        context,
+        message: notFinalized.message,
+      });
+      return;
     }
 
+    // we don't want the order announced with custom finality to be put to mempool because we don't query actual
+    // block confirmations
+    const finalizationInfo = orderInfo.status === OrderInfoStatus.Created
+      ? (orderInfo as IncomingOrder<OrderInfoStatus.Created>).finalization_info
+      : undefined;
+    const allowPlaceToMempool = !(
+      finalizationInfo && finalizationInfo !== 'Revoked' && 'Confirmed' in finalizationInfo
+    );
+    if (!allowPlaceToMempool) logger.debug(`order won't appear in the mempool`);
+
     // perform rough estimation: assuming order.give.amount is what we need on balance
-    const pickedBucket = findExpectedBucket(orderInfo.order, context.config.buckets);
-    const [reserveSrcTokenDecimals, reserveDstTokenDecimals, takeTokenDecimals] = await Promise.all([
-      context.config.client.getDecimals(orderInfo.order.give.chainId, pickedBucket.reserveSrcToken, context.giveChain.fulfillProvider.connection as Web3),
-      context.config.client.getDecimals(orderInfo.order.take.chainId, pickedBucket.reserveDstToken, this.takeChain.fulfillProvider.connection as Web3),
-      context.config.client.getDecimals(orderInfo.order.take.chainId, orderInfo.order.take.tokenAddress, this.takeChain.fulfillProvider.connection as Web3),
-    ]);
-
-    // reserveSrcToken is eq to reserveDstToken, but need to sync decimals
-    const roughReserveDstDecimals = reserveSrcTokenDecimals - reserveDstTokenDecimals
-    let roughReserveDstAmount = BigNumber(orderInfo.order.give.amount.toString()).div(BigNumber(10).pow(roughReserveDstDecimals)).integerValue();
-    logger.debug(`expressed order give amount (${orderInfo.order.give.amount.toString()}) in reserve dst token ${tokenAddressToString(orderInfo.order.take.chainId, pickedBucket.reserveDstToken)} @ ${ChainId[orderInfo.order.take.chainId]}: ${roughReserveDstAmount.toString()} `)
-
-    const accountReserveBalance =
-      await this.takeChain.fulfillProvider.getBalance(pickedBucket.reserveDstToken);
-    if (new BigNumber(accountReserveBalance).lt(roughReserveDstAmount)) {
+    const {
+      pickedBucket,
+      reserveSrcTokenDecimals,
+      reserveDstTokenDecimals,
+      roughReserveDstAmount,
+    } = await estimateRoughReserveAmount(estimatedOrder, context, this.takeChain);
+    const roughReserveDstDecimals = reserveSrcTokenDecimals - reserveDstTokenDecimals;
+    logger.debug(`expressed order give amount (${estimatedOrder.give.amount.toString()}) in reserve dst token ${tokenAddressToString(orderInfo.order.take.chainId, pickedBucket.reserveDstToken)} @ ${ChainId[orderInfo.order.take.chainId]}: ${roughReserveDstAmount.toString()} `)
+
+    // funds reserved by orders being processed simultaneously are not available for this order
+    const reservedAmount = this.getReservedAmount(pickedBucket.reserveDstToken);
+    const accountReserveBalance = new BigNumber(
+      await this.takeChain.fulfillProvider.getBalance(pickedBucket.reserveDstToken)
+    ).minus(reservedAmount);
+    if (accountReserveBalance.lt(roughReserveDstAmount)) {
       const message = [
         `not enough funds of the reserve token (${tokenAddressToString(this.takeChain.chain, pickedBucket.reserveDstToken)}); `,
-        `actual balance: ${new BigNumber(accountReserveBalance).div(BigNumber(10).pow(reserveDstTokenDecimals))}, `,
+        `available balance: ${accountReserveBalance.div(BigNumber(10).pow(reserveDstTokenDecimals))} `,
+        `(${reservedAmount.div(BigNumber(10).pow(reserveDstTokenDecimals))} reserved by other orders), `,
         `but expected ${new BigNumber(roughReserveDstAmount).div(BigNumber(10).pow(roughReserveDstDecimals))}`
       ].join('');
       logger.info(message);
-      this.hooksEngine.handleOrderPostponed({
+      this.handleOrderPostponed({
         order: orderInfo,
         context,
         message,
@@ -502,6 +666,9 @@ class UniversalProcessor extends BaseOrderProcessor {
       return;
     }
     logger.debug(`enough balance (${accountReserveBalance.toString()}) to cover order (${roughReserveDstAmount.toString()})`)
+    this.reserve(orderId, pickedBucket.reserveDstToken, roughReserveDstAmount);
+
+    const fulfillableOrder = this.getFulfillableOrder(orderInfo);
 
     let evmFulfillGasLimit: number | undefined;
     let evmFulfillCappedGasPrice: BigNumber | undefined;
@@ -516,13 +683,14 @@ class UniversalProcessor extends BaseOrderProcessor {
       // If estimation succeeds, we have pretty realistic gasLimit and thus can do very good estimation
       // use takeAmount + dummySlippage as evaluatedTakeAmount
       const roughlyEvaluatedTakeAmount =
-        orderInfo.order.take.amount + (
-          orderInfo.order.take.amount * BigInt(BPS_DENOMINATOR - DUMMY_SLIPPAGE_BPS) / BigInt(BPS_DENOMINATOR)
+        estimatedOrder.take.amount + (
+          estimatedOrder.take.amount * BigInt(BPS_DENOMINATOR - DUMMY_SLIPPAGE_BPS) / BigInt(BPS_DENOMINATOR)
         );
       try {
         const fulfillTx = await this.createOrderFullfillTx<ChainId.Ethereum>(
           orderInfo.orderId,
-          orderInfo.order,
+          fulfillableOrder,
+          estimatedOrder.take.amount,
           pickedBucket.reserveDstToken,
           roughReserveDstAmount.toString(),
           roughlyEvaluatedTakeAmount,
@@ -532,11 +700,9 @@ class UniversalProcessor extends BaseOrderProcessor {
         );
 
         //
-        // predicting gas price cap
+        // predicting gas price cap (applied to base fee plus priority fee for EIP-1559 txns)
         //
-        const currentGasPrice = BigNumber(
-          await (this.takeChain.fulfillProvider.connection as Web3).eth.getGasPrice()
-        );
+        const currentGasPrice = await (this.takeChain.fulfillProvider as EvmProviderAdapter).getGasPrice();
         evmFulfillCappedGasPrice = currentGasPrice
           .multipliedBy(EVM_FULFILL_GAS_PRICE_MULTIPLIER)
           .integerValue();
@@ -571,7 +737,7 @@ class UniversalProcessor extends BaseOrderProcessor {
           logger.error(message);
           logger.error(e);
         }
-        this.hooksEngine.handleOrderPostponed({
+        this.handleOrderPostponed({
           order: orderInfo,
           context,
           reason: PostponingReason.FULFILLMENT_EVM_TX_PREESTIMATION_FAILED,
@@ -584,36 +750,27 @@ class UniversalProcessor extends BaseOrderProcessor {
       }
     }
 
-    const batchSize =
-      orderInfo.order.give.chainId === ChainId.Solana ||
-      orderInfo.order.take.chainId === ChainId.Solana
-        ? null
-        : this.params.batchUnlockSize;
-
-    const estimation = await calculateExpectedTakeAmount(
-        orderInfo.order,
-        this.params.minProfitabilityBps,
+    const estimation = await estimateTakeAmount(
+        estimatedOrder,
+        context,
+        this.takeChain,
         {
-          client: context.config.client,
-          giveConnection: context.giveChain.fulfillProvider.connection as Web3,
-          takeConnection: this.takeChain.fulfillProvider.connection as Web3,
-          priceTokenService: context.config.tokenPriceService,
-          buckets: context.config.buckets,
-          swapConnector: context.config.swapConnector,
-          logger: createClientLogger(logger),
-          batchSize,
+          minProfitabilityBps: this.params.minProfitabilityBps,
+          batchUnlockSize: this.params.batchUnlockSize,
           evmFulfillGasLimit,
           evmFulfillCappedGasPrice: evmFulfillCappedGasPrice ? BigInt(evmFulfillCappedGasPrice.integerValue().toString()) : undefined,
           swapEstimationPreference: preswapTx,
-        }
+        },
+        logger
     );
 
     const {
       reserveDstToken,
       requiredReserveDstAmount,
-      isProfitable,
       profitableTakeAmount,
+      isProfitable,
     } = estimation;
+    stopEstimationTimer();
 
     const hookEstimation = {
       isProfitable,
@@ -637,9 +794,14 @@ class UniversalProcessor extends BaseOrderProcessor {
         message = 'not enough give amount to cover operating expenses';
       }
       else {
-        const takeAmountDrop = new BigNumber(profitableTakeAmount).multipliedBy(100).div(orderInfo.order.take.amount.toString());
+        const takeAmountDrop = new BigNumber(profitableTakeAmount).multipliedBy(100).div(estimatedOrder.take.amount.toString());
         const takeAmountDropShare = BigNumber(100).minus(takeAmountDrop).toFixed(2);
 
+        const takeTokenDecimals = await context.config.client.getDecimals(
+          orderInfo.order.take.chainId,
+          orderInfo.order.take.tokenAddress,
+          this.takeChain.fulfillProvider.connection as Web3
+        );
         const reserveTokenDesc = tokenAddressToString(this.takeChain.chain, reserveDstToken);
         const takeTokenDesc = tokenAddressToString(orderInfo.order.take.chainId, orderInfo.order.take.tokenAddress);
         message = [
@@ -648,12 +810,12 @@ class UniversalProcessor extends BaseOrderProcessor {
           `of reserve token (${reserveTokenDesc}) during fulfillment, `,
           `which gives only ${new BigNumber(profitableTakeAmount).div(BigNumber(10).pow(takeTokenDecimals))} `,
           `of take token (${takeTokenDesc}), `,
-          `while order requires ${new BigNumber(orderInfo.order.take.amount.toString()).div(BigNumber(10).pow(takeTokenDecimals))} of take amount `,
+          `while order requires ${new BigNumber(estimatedOrder.take.amount.toString()).div(BigNumber(10).pow(takeTokenDecimals))} of take amount `,
           `(${takeAmountDropShare}% drop)`
         ].join("");
       }
       logger.info(`order is not profitable: ${message}`);
-      this.hooksEngine.handleOrderPostponed({
+      this.handleOrderPostponed({
         order: orderInfo,
         context,
         message,
@@ -672,10 +834,14 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
       throw new Error(message);
     }
 
+    // now the exact amount of the reserve token needed for the fulfillment is known
+    this.reserve(orderId, reserveDstToken, new BigNumber(requiredReserveDstAmount));
+
     // fulfill order
     const { tx: fulfillTx } = await this.createOrderFullfillTx(
       orderInfo.orderId,
-      orderInfo.order,
+      fulfillableOrder,
+      estimatedOrder.take.amount,
       reserveDstToken,
       requiredReserveDstAmount,
       BigInt(profitableTakeAmount),
@@ -692,7 +858,7 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
         if (evmFulfillGas > evmFulfillGasLimit!) {
           const message = `final fulfill tx requires more gas units (${evmFulfillGas}) than it was declared during pre-estimation (${evmFulfillGasLimit})`;
           logger.info(message)
-          this.hooksEngine.handleOrderPostponed({
+          this.handleOrderPostponed({
             order: orderInfo,
             context,
             message,
@@ -711,14 +877,20 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
         }
       }
       catch (e) {
-        const message = `unable to estimate fullfil tx: ${e}`;
+        // estimation simulates the fulfill txn, so the revert of the external call is caught here before the
+        // txn is broadcasted
+        const message = orderInfo.order.externalCall
+          ? `fulfill tx simulation failed, probably due to the revert of the external call: ${e}`
+          : `unable to estimate fullfil tx: ${e}`;
         logger.error(message)
         logger.error(e);
-        this.hooksEngine.handleOrderPostponed({
+        this.handleOrderPostponed({
           order: orderInfo,
           context,
           message,
-          reason: PostponingReason.FULFILLMENT_EVM_TX_ESTIMATION_FAILED,
+          reason: orderInfo.order.externalCall
+            ? PostponingReason.EXTERNAL_CALL_SIMULATION_FAILED
+            : PostponingReason.FULFILLMENT_EVM_TX_ESTIMATION_FAILED,
           attempts: params.attempts,
         });
         if (allowPlaceToMempool)
@@ -730,11 +902,29 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
       (fulfillTx as Tx).cappedGasPrice = evmFulfillCappedGasPrice;
     }
 
+    if (this.takeChain.dryRun) {
+      logger.info(`dry run: order would be fulfilled, fulfill tx is not broadcasted`);
+      this.hooksEngine.handleOrderWouldBeFulfilled({
+        order: orderInfo,
+        tx: fulfillTx,
+        context,
+      });
+      this.clearInternalQueues(orderInfo.orderId);
+      return;
+    }
+
     try {
+      const stopConfirmationTimer = metrics.fulfillConfirmationDuration.startTimer({
+        takeChain: ChainId[this.takeChain.chain],
+      });
       const txFulfill = await this.takeChain.fulfillProvider.sendTransaction(
         fulfillTx,
         { logger }
       );
+      stopConfirmationTimer();
+      // the fulfill tx is confirmed, so the account balance already reflects spent funds
+      this.releaseReserve(orderId);
+      context.giveChain.unconfirmedOrdersBudget?.commit(orderInfo);
       logger.info(`fulfill tx broadcasted, txhash: ${txFulfill}`);
       this.hooksEngine.handleOrderFulfilled({
         order: orderInfo,
@@ -744,7 +934,7 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
       const message = `fulfill transaction failed: ${e}`;
       logger.error(message);
       logger.error(e);
-      this.hooksEngine.handleOrderPostponed({
+      this.handleOrderPostponed({
         order: orderInfo,
         context,
         reason: isRevertedError(e as Error)
@@ -765,6 +955,15 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
     logger.info(`order fulfilled: ${orderId}`);
   }
 
+  /**
+   * Returns the order to be passed to fulfill and unlock txns, which must carry the payload of the external call
+   */
+  private getFulfillableOrder(orderInfo: IncomingOrder<any>): OrderData {
+    return orderInfo.externalCallData
+      ? withExternalCallData(orderInfo.order, orderInfo.externalCallData)
+      : orderInfo.order;
+  }
+
   private getPreFulfillSlippage(evaluatedTakeAmount: bigint, takeAmount: bigint): number {
     const calculatedSlippageBps = (evaluatedTakeAmount - takeAmount) * BigInt(BPS_DENOMINATOR) / evaluatedTakeAmount;
     if (calculatedSlippageBps < this.params.preFulfillSwapMinAllowedSlippageBps) return this.params.preFulfillSwapMinAllowedSlippageBps;
@@ -772,9 +971,14 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
     return Number(calculatedSlippageBps);
   }
 
+  /**
+   * @param order the original order (its id must match orderId)
+   * @param takeAmount the take amount of the order accounting its patches
+   */
   private async createOrderFullfillTx<T extends ChainId>(
     orderId: string,
     order: OrderData,
+    takeAmount: bigint,
     reserveDstToken: Uint8Array,
     reservedAmount: string,
     evaluatedTakeAmount: bigint,
@@ -785,7 +989,7 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
     let fullFillTxPayload: PreswapFulfillOrderPayload<any> = {
       slippageBps: buffersAreEqual(reserveDstToken, order.take.tokenAddress)
         ? undefined
-        : this.getPreFulfillSlippage(evaluatedTakeAmount, order.take.amount),
+        : this.getPreFulfillSlippage(evaluatedTakeAmount, takeAmount),
       swapConnector: context.config.swapConnector,
       reservedAmount: reservedAmount,
       loggerInstance: createClientLogger(logger),
@@ -810,24 +1014,109 @@ while calculateExpectedTakeAmount returned ${tokenAddressToString(orderInfo.orde
       fullFillTxPayload = evmfullFillTxPayload;
     }
 
-    const fulfillTx = await context.config.client.preswapAndFulfillOrder<T>(
-      order,
-      orderId,
-      reserveDstToken,
-      fullFillTxPayload as PreswapFulfillOrderPayload<T>
-    );
+    // the direct fulfillment accounts take patches on its own, while dln-client builds the preswap for the original
+    // take amount, so the preswap of the order with the decreased take amount is built here
+    const isPatchedPreswap = takeAmount !== order.take.amount
+      && !buffersAreEqual(reserveDstToken, order.take.tokenAddress)
+      && getEngineByChainId(order.take.chainId) === ChainEngine.EVM;
+    const fulfillTx = isPatchedPreswap
+      ? await this.createPatchedPreswapFulfillTx(
+          orderId,
+          order,
+          takeAmount,
+          reserveDstToken,
+          fullFillTxPayload as PreswapFulfillOrderPayload<EvmChains>
+        )
+      : await context.config.client.preswapAndFulfillOrder<T>(
+          order,
+          orderId,
+          reserveDstToken,
+          fullFillTxPayload as PreswapFulfillOrderPayload<T>
+        );
     logger.debug(`fulfillTx is created`);
     logger.debug(fulfillTx);
     return fulfillTx;
   }
+
+  /**
+   * Mirrors the EVM branch of dln-client's preswapAndFulfillOrder, but swaps to and fulfills the order with the
+   * take amount decreased by the patch
+   */
+  private async createPatchedPreswapFulfillTx(
+    orderId: string,
+    order: OrderData,
+    takeAmount: bigint,
+    reserveDstToken: Uint8Array,
+    payload: PreswapFulfillOrderPayload<EvmChains>
+  ) {
+    const client = this.takeChain.client as evm.PmmEvmClient;
+    const forwarderAddress = client.getContractAddress(order.take.chainId, evm.ServiceType.CrosschainForwarder);
+    const swapResult = await payload.swapConnector!.getSwap<EvmChains>(
+      {
+        chainId: order.take.chainId,
+        fromTokenAddress: reserveDstToken,
+        toTokenAddress: order.take.tokenAddress,
+        amountIn: BigInt(payload.reservedAmount!),
+        fromAddress: tokenStringToBuffer(order.take.chainId, forwarderAddress),
+        destReceiver: tokenStringToBuffer(order.take.chainId, forwarderAddress),
+        slippageBps: payload.slippageBps!,
+        preferEstimation: payload.preferEstimation,
+      },
+      { logger: payload.loggerInstance! }
+    );
+    if (swapResult.amountOut < takeAmount) {
+      throw new ClientError(
+        ClientErrorType.UnderestimatedSwap,
+        `fulfill preswap outcome (${swapResult.amountOut}) < patched take amount (${takeAmount})`
+      );
+    }
+
+    const { data: receiverCalldata } = client.getFulfillOrderTx(
+      payload.web3,
+      order,
+      takeAmount.toString(),
+      orderId,
+      "0x",
+      payload.unlockAuthority
+    );
+    const { tx } = client.preswapFulfillOrder(
+      {
+        chainId: order.take.chainId,
+        amount: payload.reservedAmount!,
+        fromTokenAddress: tokenAddressToString(order.take.chainId, reserveDstToken),
+        toTokenAddress: tokenAddressToString(order.take.chainId, order.take.tokenAddress),
+        srcTokenInPermitEnvelope: payload.permit,
+        sender: payload.takerAddress,
+        srcTokenExpectedAmountOut: takeAmount.toString(),
+        srcTokenRefundRecipient: payload.takerAddress,
+        receiverCalldata,
+        reciever: client.getContractAddress(order.take.chainId, evm.ServiceType.Destination),
+        srcSwapCalldata: swapResult.tx.data,
+        srcSwapRouter: swapResult.tx.to,
+      },
+      undefined,
+      payload.web3
+    );
+    return { tx, preswapTx: swapResult };
+  }
 }
 
+/**
+ * Initializer of the universal processor, exposing the params the processor is created with, so the same params can
+ * be used outside the processor (e.g., by the backtest)
+ */
+export type UniversalProcessorInitializer = OrderProcessorInitializer & {
+  params: UniversalProcessorParams;
+};
+
 export const universalProcessor = (
   params?: Partial<UniversalProcessorParams>
-): OrderProcessorInitializer => {
-  return async (chainId: ChainId, context: OrderProcessorInitContext) => {
+): UniversalProcessorInitializer => {
+  const initializer = async (chainId: ChainId, context: OrderProcessorInitContext) => {
     const processor = new UniversalProcessor(params);
     await processor.init(chainId, context);
     return processor;
   };
+  initializer.params = { ...DEFAULT_UNIVERSAL_PROCESSOR_PARAMS, ...params };
+  return initializer;
 };
@@ -7,12 +7,26 @@ import Web3 from "web3";
 import { EvmRebroadcastAdapterOpts } from "../config";
 
 import { ProviderAdapter, SendTransactionContext } from "./provider.adapter";
+import { EvmRpcProvider } from "./rpc/evm.rpc.provider";
 import { getEvmAccountBalance } from "./utils/getEvmAccountBalance";
 import { approve, isApproved} from "./utils/approve";
+import { getNonceAllocator, NonceAllocator, TxFees } from "./utils/nonceAllocator";
 
 // reasonable multiplier for gas estimated before txn is being broadcasted
 export const GAS_MULTIPLIER = 1.1;
 
+// chains where EIP-1559 (type-2) txns are used by default
+export const EIP1559_CHAINS = [ChainId.Ethereum, ChainId.Arbitrum, ChainId.Polygon, ChainId.Avalanche];
+
+// number of recent blocks to derive the priority fee from
+const FEE_HISTORY_BLOCKS = 10;
+
+// percentile of priority fees paid in recent blocks used as the priority fee
+const FEE_HISTORY_REWARD_PERCENTILE = 50;
+
+// multiplier for the next block's base fee, protecting the txn from being stuck when base fee grows
+const BASE_FEE_MULTIPLIER = 2;
+
 export class Tx {
   data: string;
   to: string;
@@ -20,34 +34,48 @@ export class Tx {
 
   from?: string;
   gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
   gas?: number;
   nonce?: number;
 
+  /**
+   * Max gas price the txn can be broadcasted (and rebroadcasted) with. For EIP-1559 txns, it is applied to the gas
+   * price the txn is expected to pay (the base fee of the next block plus the priority fee), while maxFeePerGas
+   * keeps the headroom for the growing base fee
+   */
   cappedGasPrice?: BigNumber;
 }
 
 export class EvmProviderAdapter implements ProviderAdapter {
   wallet: never;
 
-  private staleTx?: Tx;
+  private readonly nonceAllocator: NonceAllocator;
 
   private rebroadcast: EvmRebroadcastAdapterOpts = {};
+  private readonly eip1559: boolean;
   public readonly connection: Web3;
+  public readonly quorumConnection: Web3;
 
   readonly #address: string;
   readonly #privateKey: string;
 
   constructor(
     private readonly chainId: ChainId,
-    rpc: string,
+    rpc: string | EvmRpcProvider,
     privateKey: string,
-    rebroadcast?: EvmRebroadcastAdapterOpts
+    rebroadcast?: EvmRebroadcastAdapterOpts,
+    eip1559?: boolean
   ) {
+    this.eip1559 = eip1559 ?? EIP1559_CHAINS.includes(chainId);
     this.connection = new Web3(rpc);
+    this.quorumConnection =
+      rpc instanceof EvmRpcProvider ? new Web3(rpc.withQuorum()) : this.connection;
     const accountEvmFromPrivateKey =
         this.connection.eth.accounts.privateKeyToAccount(privateKey);
     this.#address = accountEvmFromPrivateKey.address;
     this.#privateKey = accountEvmFromPrivateKey.privateKey;
+    this.nonceAllocator = getNonceAllocator(chainId, this.connection, this.#address);
     this.fillDefaultVariables(rebroadcast);
   }
 
@@ -64,25 +92,22 @@ export class EvmProviderAdapter implements ProviderAdapter {
     const tx = data as Tx;
     if (!tx.to || !tx.data) throw new Error('Unexpected tx')
 
-    const nonce = await this.connection.eth.getTransactionCount(
-      this.address
-    );
-    let nextGasPrice = await this.connection.eth.getGasPrice();
-
-    if (this.staleTx && this.staleTx.nonce! >= nonce) {
-      nextGasPrice = BigNumber.max(
-        nextGasPrice,
-        new BigNumber(this.staleTx.gasPrice!).multipliedBy(
-          this.rebroadcast.bumpGasPriceMultiplier!
-        )
-      ).toFixed(0);
+    const { nonce, staleFees } = await this.nonceAllocator.allocate();
+    let nextFees: TxFees;
+    try {
+      // the nonce may have been used by the stale txn, so this txn must replace it
+      nextFees = await this.getNextFees(staleFees, tx.cappedGasPrice);
+    } catch (e) {
+      this.nonceAllocator.release(nonce, staleFees);
+      throw e;
     }
 
     const currentTx = {
       ...tx,
       nonce,
-      gasPrice: nextGasPrice,
+      ...nextFees,
     } as Tx;
+    if (currentTx.maxFeePerGas) delete currentTx.gasPrice;
     let currentTxHash: string;
 
     const transactionHash: string = await new Promise(async (resolve, reject) => {
@@ -97,7 +122,6 @@ export class EvmProviderAdapter implements ProviderAdapter {
       };
 
       const success = (txHash: string) => {
-        this.staleTx = undefined;
         clearTimers();
         resolve(txHash);
       };
@@ -106,7 +130,7 @@ export class EvmProviderAdapter implements ProviderAdapter {
         logger.error(
           `Cannot confirm tx ${currentTxHash}, marking it as stale for future replacement. Reason: ${message}`
         );
-        this.staleTx = currentTx;
+        this.nonceAllocator.release(nonce, this.getFees(currentTx));
         clearTimers();
         reject(new Error(message));
       };
@@ -165,33 +189,21 @@ export class EvmProviderAdapter implements ProviderAdapter {
               return;
             }
 
-            // pick gas price for bumping
-            const currentGasPrice = await this.connection.eth.getGasPrice();
-            const bumpedGasPrice = new BigNumber(nextGasPrice).multipliedBy(
-              this.rebroadcast.bumpGasPriceMultiplier!
-            );
-            nextGasPrice = BigNumber.max(
-              currentGasPrice,
-              bumpedGasPrice
-            ).toFixed(0);
-            pollingLogger.debug(
-              `picking bumped gas: current=${currentGasPrice}, bumped=${bumpedGasPrice}, picked=${nextGasPrice}`
-            );
-
-            // check bumped gas price
-            if (
-              tx.cappedGasPrice &&
-              new BigNumber(nextGasPrice).gt(tx.cappedGasPrice)
-            ) {
-              pollingLogger.debug(
-                `picked gas price for bump (${nextGasPrice}) reached max bumped gas price (${tx.cappedGasPrice})`
-              );
+            // pick fees for bumping, unless the bumped gas price exceeds the cap
+            let bumpedFees: TxFees;
+            try {
+              bumpedFees = await this.getNextFees(this.getFees(currentTx), tx.cappedGasPrice);
+            } catch (e) {
+              pollingLogger.debug(`${e}`);
               failWithUndeterminedBehavior(`rebroadcasting aborted`);
               return;
             }
+            pollingLogger.debug(
+              `picking bumped fees: current=${JSON.stringify(this.getFees(currentTx))}, picked=${JSON.stringify(bumpedFees)}`
+            );
 
             // run re-broadcast
-            currentTx.gasPrice = nextGasPrice;
+            Object.assign(currentTx, bumpedFees);
             attemptsRebroadcast++;
             const rebroadcastedTxHash = await this.sendTx(currentTx, logger);
             pollingLogger.debug(`rebroadcasted as ${rebroadcastedTxHash}`);
@@ -203,6 +215,8 @@ export class EvmProviderAdapter implements ProviderAdapter {
             const message = `rebroadcasting failed: ${e}`;
             pollingLogger.error(message);
             pollingLogger.error(e)
+            // the previously broadcasted txn may still be pending, so it must be replaced by the next txn
+            this.nonceAllocator.release(nonce, this.getFees(currentTx));
             fail(message);
           }
         }, this.rebroadcast.rebroadcastInterval);
@@ -217,6 +231,8 @@ export class EvmProviderAdapter implements ProviderAdapter {
         const message = `sending tx failed: ${e}`
         logger.error(message);
         logger.error(e);
+        // the txn has not been broadcasted, so its nonce can be reused
+        this.nonceAllocator.release(nonce, staleFees);
         fail(message);
       }
     });
@@ -226,6 +242,90 @@ export class EvmProviderAdapter implements ProviderAdapter {
     return transactionHash;
   }
 
+  /**
+   * Returns the gas price the txn is expected to be included with: for EIP-1559 chains, this is the base fee of
+   * the next block plus the priority fee
+   */
+  async getGasPrice(): Promise<BigNumber> {
+    if (!this.eip1559) {
+      return new BigNumber(await this.connection.eth.getGasPrice());
+    }
+    const { baseFeePerGas, maxPriorityFeePerGas } = await this.getFeeHistory();
+    return baseFeePerGas.plus(maxPriorityFeePerGas);
+  }
+
+  private async getFeeHistory(): Promise<{ baseFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber }> {
+    const feeHistory = await this.connection.eth.getFeeHistory(
+      FEE_HISTORY_BLOCKS,
+      "latest",
+      [FEE_HISTORY_REWARD_PERCENTILE]
+    );
+
+    // the last item is the base fee of the next block
+    const baseFeePerGas = new BigNumber(feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1]);
+    const rewards = feeHistory.reward
+      .map(([reward]) => new BigNumber(reward))
+      .sort((a, b) => a.comparedTo(b));
+    const maxPriorityFeePerGas = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : new BigNumber(0);
+
+    return { baseFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Picks fees for the next txn. If the stale txn is given, fees are bumped to satisfy replacement rules: each
+   * of the fees must be increased by bumpGasPriceMultiplier.
+   * The cap is applied to the gas price the txn is expected to pay: fees of the new txn are lowered to the cap,
+   * while the replacement exceeding the cap is not possible and throws
+   */
+  private async getNextFees(staleFees?: TxFees, cappedGasPrice?: BigNumber): Promise<TxFees> {
+    const bump = (fee: string) =>
+      new BigNumber(fee).multipliedBy(this.rebroadcast.bumpGasPriceMultiplier!).integerValue(BigNumber.ROUND_CEIL);
+    const exceedsCap = (gasPrice: BigNumber) => cappedGasPrice !== undefined && gasPrice.gt(cappedGasPrice);
+    const capExceeded = (gasPrice: BigNumber) =>
+      new Error(`gas price required to replace the stale txn (${gasPrice}) exceeds the cap (${cappedGasPrice})`);
+
+    if (!this.eip1559) {
+      let gasPrice = new BigNumber(await this.connection.eth.getGasPrice());
+      if (staleFees?.gasPrice) {
+        gasPrice = BigNumber.max(gasPrice, bump(staleFees.gasPrice));
+        if (exceedsCap(gasPrice)) throw capExceeded(gasPrice);
+      } else if (exceedsCap(gasPrice)) {
+        gasPrice = cappedGasPrice!;
+      }
+      return { gasPrice: gasPrice.toFixed(0) };
+    }
+
+    const { baseFeePerGas, maxPriorityFeePerGas } = await this.getFeeHistory();
+    let nextMaxPriorityFeePerGas = maxPriorityFeePerGas;
+    if (staleFees) {
+      // legacy stale txn is replaced by the txn paying at least bumped gas price
+      const staleMaxPriorityFeePerGas = staleFees.maxPriorityFeePerGas || staleFees.gasPrice!;
+      nextMaxPriorityFeePerGas = BigNumber.max(nextMaxPriorityFeePerGas, bump(staleMaxPriorityFeePerGas));
+      const expectedGasPrice = baseFeePerGas.plus(nextMaxPriorityFeePerGas);
+      if (exceedsCap(expectedGasPrice)) throw capExceeded(expectedGasPrice);
+    } else if (exceedsCap(baseFeePerGas.plus(nextMaxPriorityFeePerGas))) {
+      nextMaxPriorityFeePerGas = BigNumber.max(cappedGasPrice!.minus(baseFeePerGas), 0);
+    }
+
+    let nextMaxFeePerGas = baseFeePerGas.multipliedBy(BASE_FEE_MULTIPLIER).plus(nextMaxPriorityFeePerGas);
+    if (staleFees) {
+      nextMaxFeePerGas = BigNumber.max(nextMaxFeePerGas, bump(staleFees.maxFeePerGas || staleFees.gasPrice!));
+    }
+
+    return {
+      maxFeePerGas: nextMaxFeePerGas.toFixed(0),
+      maxPriorityFeePerGas: BigNumber.min(nextMaxPriorityFeePerGas, nextMaxFeePerGas).toFixed(0),
+    };
+  }
+
+  private getFees(tx: Tx): TxFees {
+    return {
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    };
+  }
+
   private async sendTx(tx: Tx, logger: Logger): Promise<string> {
     return new Promise(async (resolve, reject) => {
       tx.from = this.address;
@@ -305,18 +405,22 @@ export class EvmProviderAdapter implements ProviderAdapter {
   getBalance(token: Uint8Array): Promise<string> {
     const tokenAddress = tokenAddressToString(ChainId.Ethereum, token);
     if (tokenAddress === ZERO_EVM_ADDRESS) {
-      return this.connection.eth.getBalance(this.address)
+      return this.quorumConnection.eth.getBalance(this.address)
     }
     return getEvmAccountBalance(
-      this.connection,
+      this.quorumConnection,
       tokenAddress,
       this.address
     );
   }
 
+  /**
+   * Sends the approval txn unless the token is already approved. In dry run, the missing approval is only logged
+   */
   async approveToken(tokenAddress: string,
               contractAddress: string,
-              logger: Logger) {
+              logger: Logger,
+              dryRun: boolean = false) {
     if (this.chainId === ChainId.Solana) return Promise.resolve();
 
     logger.debug(
@@ -331,7 +435,11 @@ export class EvmProviderAdapter implements ProviderAdapter {
       tokenAddress,
       contractAddress
     );
-    if (!tokenIsApproved) {
+    if (!tokenIsApproved && dryRun) {
+      logger.info(
+        `dry run: ${tokenAddress} is not approved to ${contractAddress} on ${ChainId[this.chainId]}, approval tx is not broadcasted`
+      );
+    } else if (!tokenIsApproved) {
       logger.debug(`Approving ${tokenAddress} on ${ChainId[this.chainId]}`);
       const data = approve(this.connection, tokenAddress, contractAddress);
       await this.sendTransaction(data, { logger });
@@ -6,6 +6,12 @@ export class SendTransactionContext {
 
 export interface ProviderAdapter {
   connection: unknown;
+
+  /**
+   * Connection for critical reads (order statuses, balances), which requires the quorum of RPC nodes to agree on
+   * results if the quorum is configured for the chain
+   */
+  quorumConnection: unknown;
   wallet: unknown;
   address: string;
   sendTransaction: (
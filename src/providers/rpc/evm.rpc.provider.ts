@@ -0,0 +1,58 @@
+import { Logger } from "pino";
+
+import {
+  JsonRpcPayload,
+  JsonRpcResponse,
+  RpcPool,
+  RpcRequestOpts,
+} from "./rpc.pool";
+
+/**
+ * web3.js provider sending requests thru the pool of RPC endpoints
+ */
+export class EvmRpcProvider {
+  constructor(
+    readonly pool: RpcPool,
+    private readonly requestOpts: RpcRequestOpts = {}
+  ) {}
+
+  /**
+   * Returns the provider sharing the pool, which requires the quorum of endpoints to agree on results of its
+   * requests. eth_call serves estimations and allowance checks as well, so the quorum is required by critical
+   * reads only (order statuses, balances) which are sent thru this provider
+   */
+  withQuorum(): EvmRpcProvider {
+    return new EvmRpcProvider(this.pool, { quorum: true });
+  }
+
+  sendAsync(
+    payload: JsonRpcPayload,
+    callback?: (error: Error | null, result?: JsonRpcResponse) => unknown
+  ): void {
+    this.pool.request(payload, this.requestOpts).then(
+      // batch payloads are responded with arrays, which is expected by web3.js despite the typing
+      (result) => callback?.(null, result as JsonRpcResponse),
+      (error) => callback?.(error)
+    );
+  }
+}
+
+/**
+ * Creates the web3.js provider which sends requests thru the pool of RPC endpoints
+ */
+export const createEvmRpcProvider = (
+  urls: string[],
+  quorum: number | undefined,
+  logger: Logger
+): EvmRpcProvider =>
+  new EvmRpcProvider(
+    new RpcPool(
+      urls,
+      {
+        healthCheckMethod: "eth_blockNumber",
+        broadcastMethods: ["eth_sendRawTransaction"],
+        quorum,
+      },
+      logger
+    )
+  );
@@ -0,0 +1,341 @@
+import axios from "axios";
+import { Logger } from "pino";
+
+// how often to check the health and latency of every endpoint, in ms
+const HEALTH_CHECK_INTERVAL = 15_000;
+
+// max time to wait for the response from the endpoint, in ms
+const REQUEST_TIMEOUT = 10_000;
+
+// max number of blocks (or slots) the endpoint may lag behind the most advanced endpoint to be considered healthy
+const MAX_HEIGHT_LAG = 20;
+
+// weight of the most recent latency measurement in the moving average
+const LATENCY_SMOOTHING = 0.3;
+
+export type JsonRpcRequest = {
+  jsonrpc: string;
+  id?: number | string;
+  method: string;
+  params?: unknown;
+};
+
+export type JsonRpcResponse = {
+  jsonrpc: string;
+  id: number | string;
+  result?: unknown;
+  error?: { code?: number; message: string; data?: unknown };
+};
+
+export type JsonRpcPayload = JsonRpcRequest | JsonRpcRequest[];
+export type JsonRpcResult = JsonRpcResponse | JsonRpcResponse[];
+
+export type RpcPoolOpts = {
+  /**
+   * Request used to check if the endpoint is alive, e.g. eth_blockNumber
+   */
+  healthCheckMethod: string;
+
+  /**
+   * Methods which are sent to all healthy endpoints simultaneously
+   */
+  broadcastMethods: string[];
+
+  /**
+   * Methods which always require the same result from the quorum of endpoints. Other requests may require the quorum
+   * on their own (see RpcRequestOpts)
+   */
+  quorumMethods?: string[];
+
+  /**
+   * Number of endpoints which must return the same result for quorum methods. Default: 1 (no quorum)
+   */
+  quorum?: number;
+};
+
+export type RpcRequestOpts = {
+  /**
+   * Require the same result from the quorum of endpoints (if the quorum is configured)
+   */
+  quorum?: boolean;
+};
+
+type Endpoint = {
+  url: string;
+  healthy: boolean;
+  latency: number; // ms, moving average
+};
+
+/**
+ * Distributes JSON-RPC requests across several endpoints of the same chain: picks a healthy endpoint (faster
+ * endpoints are picked more often), fails over to other endpoints when the picked one is unreachable, broadcasts
+ * sends to all healthy endpoints and optionally requires the quorum of endpoints to agree on critical reads
+ */
+export class RpcPool {
+  private readonly endpoints: Endpoint[];
+  private readonly logger: Logger;
+  private nextId = 0;
+
+  constructor(
+    urls: string[],
+    private readonly opts: RpcPoolOpts,
+    logger: Logger
+  ) {
+    if (urls.length === 0)
+      throw new Error("At least one RPC endpoint must be given");
+    if ((opts.quorum || 1) > urls.length) {
+      throw new Error(
+        `RPC quorum (${opts.quorum}) can't exceed the number of endpoints (${urls.length})`
+      );
+    }
+
+    this.endpoints = urls.map((url) => ({ url, healthy: true, latency: 0 }));
+    this.logger = logger.child({ service: "RpcPool" });
+
+    if (this.endpoints.length > 1) {
+      this.checkHealth().catch((e) =>
+        this.logger.error(`health check failed: ${e}`)
+      );
+      // health checks alone must not keep the process alive
+      setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL).unref();
+    }
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  async request(
+    payload: JsonRpcPayload,
+    opts: RpcRequestOpts = {}
+  ): Promise<JsonRpcResult> {
+    if (!Array.isArray(payload)) {
+      if (this.opts.broadcastMethods.includes(payload.method)) {
+        return this.broadcast(payload);
+      }
+      if (
+        (this.opts.quorum || 1) > 1 &&
+        (opts.quorum || this.opts.quorumMethods?.includes(payload.method))
+      ) {
+        return this.requestQuorum(payload);
+      }
+    }
+
+    return this.requestWithFailover(payload);
+  }
+
+  private async requestWithFailover(
+    payload: JsonRpcPayload
+  ): Promise<JsonRpcResult> {
+    let lastError: unknown;
+    for (const endpoint of this.getEndpointsByPriority()) {
+      try {
+        return await this.send(endpoint, payload);
+      } catch (e) {
+        lastError = e;
+        this.logger.debug(
+          `request to ${endpoint.url} failed, failing over to the next endpoint: ${e}`
+        );
+      }
+    }
+    throw lastError;
+  }
+
+  private async broadcast(payload: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const healthyEndpoints = this.endpoints.filter(
+      (endpoint) => endpoint.healthy
+    );
+    const endpoints =
+      healthyEndpoints.length > 0 ? healthyEndpoints : this.endpoints;
+
+    const responses = await Promise.allSettled(
+      endpoints.map(
+        (endpoint) => this.send(endpoint, payload) as Promise<JsonRpcResponse>
+      )
+    );
+
+    // other endpoints may reject the txn as already known once it is propagated, so any success is enough
+    const fulfilled = responses
+      .filter(
+        (response): response is PromiseFulfilledResult<JsonRpcResponse> =>
+          response.status === "fulfilled"
+      )
+      .map((response) => response.value);
+    const success = fulfilled.find((response) => response.error === undefined);
+    if (success) return success;
+    if (fulfilled.length > 0) return fulfilled[0];
+    throw (responses[0] as PromiseRejectedResult).reason;
+  }
+
+  private async requestQuorum(
+    payload: JsonRpcRequest
+  ): Promise<JsonRpcResponse> {
+    const quorum = this.opts.quorum!;
+    const endpoints = this.endpoints.filter((endpoint) => endpoint.healthy);
+    if (endpoints.length < quorum) {
+      throw new Error(
+        `${payload.method}: not enough healthy RPC endpoints to reach the quorum (${endpoints.length}/${quorum})`
+      );
+    }
+
+    const responses = await Promise.allSettled(
+      endpoints.map(
+        (endpoint) => this.send(endpoint, payload) as Promise<JsonRpcResponse>
+      )
+    );
+    const votes = new Map<
+      string,
+      { response: JsonRpcResponse; count: number }
+    >();
+    for (const response of responses) {
+      if (response.status !== "fulfilled") continue;
+      const key = this.getQuorumKey(response.value);
+      const vote = votes.get(key) || { response: response.value, count: 0 };
+      vote.count++;
+      votes.set(key, vote);
+    }
+
+    const agreed = Array.from(votes.values()).find(
+      (vote) => vote.count >= quorum
+    );
+    if (!agreed) {
+      throw new Error(
+        `${payload.method}: RPC endpoints disagree, quorum of ${quorum} is not reached (${votes.size} distinct results)`
+      );
+    }
+    return agreed.response;
+  }
+
+  private getQuorumKey(response: JsonRpcResponse): string {
+    if (response.error) return JSON.stringify({ error: response.error.code });
+
+    // results bound to the slot (Solana) are compared by value only
+    const result = response.result as
+      | { context?: unknown; value?: unknown }
+      | undefined;
+    if (
+      result &&
+      typeof result === "object" &&
+      "context" in result &&
+      "value" in result
+    ) {
+      return JSON.stringify(result.value);
+    }
+    return JSON.stringify(result);
+  }
+
+  private async send(
+    endpoint: Endpoint,
+    payload: JsonRpcPayload
+  ): Promise<JsonRpcResult> {
+    try {
+      const result = await this.post(endpoint, payload);
+      this.markHealthy(endpoint);
+      return result;
+    } catch (e) {
+      this.markUnhealthy(endpoint, `${e}`);
+      throw e;
+    }
+  }
+
+  private async post(
+    endpoint: Endpoint,
+    payload: JsonRpcPayload
+  ): Promise<JsonRpcResult> {
+    const startedAt = Date.now();
+    const response = await axios.post<JsonRpcResult>(endpoint.url, payload, {
+      timeout: REQUEST_TIMEOUT,
+      headers: { "Content-Type": "application/json" },
+    });
+    this.updateLatency(endpoint, Date.now() - startedAt);
+    return response.data;
+  }
+
+  private async checkHealth(): Promise<void> {
+    const heights = await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const response = (await this.post(endpoint, {
+            jsonrpc: "2.0",
+            id: `health-${this.nextId++}`,
+            method: this.opts.healthCheckMethod,
+          })) as JsonRpcResponse;
+          if (response.error) throw new Error(response.error.message);
+          return Number(response.result);
+        } catch (e) {
+          this.markUnhealthy(endpoint, `${e}`);
+          return undefined;
+        }
+      })
+    );
+
+    // the endpoint which responds but is stuck behind others is not healthy either
+    const maxHeight = Math.max(
+      ...heights.filter(
+        (height): height is number =>
+          height !== undefined && !Number.isNaN(height)
+      )
+    );
+    heights.forEach((height, idx) => {
+      if (height === undefined) return;
+      if (maxHeight - height > MAX_HEIGHT_LAG) {
+        this.markUnhealthy(
+          this.endpoints[idx],
+          `lagging behind by ${maxHeight - height} blocks`
+        );
+      } else {
+        this.markHealthy(this.endpoints[idx]);
+      }
+    });
+  }
+
+  private markHealthy(endpoint: Endpoint) {
+    if (!endpoint.healthy) {
+      this.logger.info(`RPC endpoint ${endpoint.url} is healthy again`);
+    }
+    endpoint.healthy = true;
+  }
+
+  private markUnhealthy(endpoint: Endpoint, reason: string) {
+    if (endpoint.healthy) {
+      this.logger.error(
+        `RPC endpoint ${endpoint.url} is marked as unhealthy: ${reason}`
+      );
+    }
+    endpoint.healthy = false;
+  }
+
+  private updateLatency(endpoint: Endpoint, latency: number) {
+    endpoint.latency =
+      endpoint.latency === 0
+        ? latency
+        : endpoint.latency * (1 - LATENCY_SMOOTHING) +
+          latency * LATENCY_SMOOTHING;
+  }
+
+  /**
+   * Returns healthy endpoints in the random order weighted by their latency (the faster the endpoint is, the more
+   * likely it comes first), followed by unhealthy endpoints as the last resort
+   */
+  private getEndpointsByPriority(): Endpoint[] {
+    const healthy = this.endpoints.filter((endpoint) => endpoint.healthy);
+    const unhealthy = this.endpoints.filter((endpoint) => !endpoint.healthy);
+
+    const ordered: Endpoint[] = [];
+    while (healthy.length > 0) {
+      const weights = healthy.map(
+        (endpoint) => 1 / Math.max(endpoint.latency, 1)
+      );
+      let point =
+        Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+      let idx = 0;
+      while (idx < healthy.length - 1 && point > weights[idx]) {
+        point -= weights[idx];
+        idx++;
+      }
+      ordered.push(...healthy.splice(idx, 1));
+    }
+
+    return [...ordered, ...unhealthy.sort((a, b) => a.latency - b.latency)];
+  }
+}
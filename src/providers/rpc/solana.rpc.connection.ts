@@ -0,0 +1,47 @@
+import { Connection, FetchFn } from "@solana/web3.js";
+import { Logger } from "pino";
+
+import { JsonRpcPayload, RpcPool } from "./rpc.pool";
+
+// reads the quorum of endpoints must agree on: order statuses are read from accounts, as well as token balances
+const SOLANA_QUORUM_METHODS = [
+  "getAccountInfo",
+  "getBalance",
+  "getParsedTokenAccountsByOwner",
+];
+
+/**
+ * Creates the Solana connection which sends requests thru the pool of RPC endpoints
+ */
+export const createSolanaRpcConnection = (
+  urls: string[],
+  quorum: number | undefined,
+  logger: Logger
+): Connection => {
+  const pool = new RpcPool(
+    urls,
+    {
+      healthCheckMethod: "getSlot",
+      broadcastMethods: ["sendTransaction"],
+      quorumMethods: SOLANA_QUORUM_METHODS,
+      quorum,
+    },
+    logger
+  );
+
+  // the connection is bound to the first endpoint, but every request is routed by the pool
+  const fetch = async (_url: unknown, init?: { body?: unknown }) => {
+    const payload = JSON.parse(init!.body as string) as JsonRpcPayload;
+    const result = await pool.request(payload);
+    return {
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      text: async () => JSON.stringify(result),
+    };
+  };
+
+  return new Connection(urls[0], {
+    fetch: fetch as unknown as FetchFn,
+  });
+};
@@ -17,6 +17,11 @@ export class SolanaProviderAdapter implements ProviderAdapter {
     this.wallet = new helpers.Wallet(wallet);
   }
 
+  // reads of accounts and balances require the quorum within the connection itself
+  public get quorumConnection(): Connection {
+    return this.connection;
+  }
+
   public get address(): string {
     return helpers.bufferToHex(this.wallet.publicKey.toBuffer());
   }
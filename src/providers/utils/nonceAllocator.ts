@@ -0,0 +1,83 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import Web3 from "web3";
+
+/**
+ * Fees of the txn: gasPrice for legacy txns, maxFeePerGas and maxPriorityFeePerGas for EIP-1559 txns
+ */
+export type TxFees = {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+};
+
+export type AllocatedNonce = {
+  nonce: number;
+
+  // fees of the stale txn sent with this nonce earlier, which must be replaced
+  staleFees?: TxFees;
+};
+
+/**
+ * Allocates nonces locally, so several txns sent by the same account in parallel don't collide on the
+ * result of getTransactionCount(). Nonces of txns which have never been broadcasted (or got stuck) are
+ * released to be reused by subsequent txns, otherwise the gap would block all txns sent after it
+ */
+export class NonceAllocator {
+  private nextNonce?: number;
+  private releasedNonces = new Map<number, TxFees | undefined>(); // nonce => fees of the stale txn
+
+  constructor(
+    private readonly connection: Web3,
+    private readonly address: string
+  ) {}
+
+  async allocate(): Promise<AllocatedNonce> {
+    const confirmedNonce = await this.connection.eth.getTransactionCount(
+      this.address
+    );
+
+    // forget nonces which have already been used by confirmed txns
+    for (const nonce of Array.from(this.releasedNonces.keys())) {
+      if (nonce < confirmedNonce) this.releasedNonces.delete(nonce);
+    }
+    if (this.nextNonce === undefined || this.nextNonce < confirmedNonce) {
+      this.nextNonce = confirmedNonce;
+    }
+
+    if (this.releasedNonces.size > 0) {
+      const nonce = Math.min(...Array.from(this.releasedNonces.keys()));
+      const staleFees = this.releasedNonces.get(nonce);
+      this.releasedNonces.delete(nonce);
+      return { nonce, staleFees };
+    }
+
+    return { nonce: this.nextNonce++ };
+  }
+
+  /**
+   * Releases the nonce of the txn which has not been confirmed. If the txn has been broadcasted, its fees
+   * must be given so the replacing txn can be priced higher
+   */
+  release(nonce: number, staleFees?: TxFees): void {
+    if (staleFees === undefined && nonce === this.nextNonce! - 1) {
+      this.nextNonce = nonce;
+      return;
+    }
+    this.releasedNonces.set(nonce, staleFees);
+  }
+}
+
+// fulfill and unlock providers may share the same account, so the allocator is shared per account
+const allocators = new Map<string, NonceAllocator>();
+
+export const getNonceAllocator = (
+  chainId: ChainId,
+  connection: Web3,
+  address: string
+): NonceAllocator => {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  if (!allocators.has(key)) {
+    allocators.set(key, new NonceAllocator(connection, address));
+  }
+  return allocators.get(key)!;
+};
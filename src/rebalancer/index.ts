@@ -0,0 +1,15 @@
+import {
+  RebalanceApproval,
+  RebalanceProposal,
+  ReserveRebalancer,
+  ReserveRebalancerBucketOpts,
+  ReserveRebalancerOpts,
+} from "./reserve.rebalancer";
+
+export {
+  RebalanceApproval,
+  RebalanceProposal,
+  ReserveRebalancer,
+  ReserveRebalancerBucketOpts,
+  ReserveRebalancerOpts,
+};
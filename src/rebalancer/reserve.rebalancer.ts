@@ -0,0 +1,594 @@
+import {
+  buffersAreEqual,
+  calculateExpectedTakeAmount,
+  ChainId,
+  evm,
+  OrderState,
+  OrderWithoutNonce,
+  tokenAddressToString,
+  TokensBucket,
+  tokenStringToBuffer,
+} from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import BigNumber from "bignumber.js";
+import { Logger } from "pino";
+import Web3 from "web3";
+
+import { IExecutor } from "../executors/executor";
+import { HooksEngine } from "../hooks/HooksEngine";
+import { createClientLogger } from "../logger";
+import { EvmProviderAdapter } from "../providers/evm.provider.adapter";
+import { SolanaProviderAdapter } from "../providers/solana.provider.adapter";
+
+// margin left for takers fulfilling rebalancing orders, same as the default margin of the universal processor
+const TAKER_MARGIN_BPS = 4;
+
+// rebalancing orders are expected to be unlocked in batches, as the deBridge app assumes
+const TAKER_BATCH_UNLOCK_SIZE = 10;
+
+// max time to wait for the rebalancing order to be fulfilled before the bucket is rebalanced again, in ms
+const MAX_IN_FLIGHT_DURATION = 60 * 60 * 1000;
+
+export type ReserveRebalancerBucketOpts = {
+  /**
+   * The bucket to keep balanced. The first token of the bucket is used as the reserve token on every chain
+   */
+  bucket: TokensBucket;
+
+  /**
+   * Desired distribution of the bucket's reserves between chains, e.g. {[ChainId.Ethereum]: 3, [ChainId.Solana]: 1}
+   * keeps 75% of reserves on Ethereum and 25% on Solana. Chains not listed here are not rebalanced
+   */
+  targetWeights: { [key in ChainId]?: number };
+
+  /**
+   * Deviation of the chain's share of reserves from its target share (e.g., 0.1 = 10 percentage points) which
+   * triggers rebalancing.
+   * Default: 0.1
+   */
+  threshold?: number;
+
+  /**
+   * Min amount of the reserve token (in token units, e.g. 100 = 100 USDC) worth transferring.
+   * Default: 0
+   */
+  minTransferAmount?: number;
+};
+
+export type ReserveRebalancerOpts = {
+  buckets: ReserveRebalancerBucketOpts[];
+
+  /**
+   * How often to check balances, in seconds.
+   * Default: 600
+   */
+  interval?: number;
+
+  /**
+   * Only propose transfers (via the ReserveRebalanceProposed hook) and wait for them to be approved through
+   * the admin API, rather than placing orders automatically.
+   * Default: false
+   */
+  approveOnly?: boolean;
+};
+
+export type RebalanceProposal = {
+  id: string;
+  bucketIndex: number;
+  giveChainId: ChainId;
+  giveToken: string;
+  takeChainId: ChainId;
+  takeToken: string;
+
+  /**
+   * Amount of the give token to transfer, in base units
+   */
+  giveAmount: string;
+  message: string;
+  createdAt: number;
+};
+
+export type RebalanceApproval =
+  | { placed: true; proposal: RebalanceProposal }
+  | { placed: false; reason: string };
+
+type ChainReserve = {
+  chainId: ChainId;
+  token: Uint8Array;
+  decimals: number;
+  amount: BigNumber; // in token units
+  weight: number;
+};
+
+/**
+ * Keeps reserves of token buckets distributed between chains according to target weights. Transfers are performed
+ * through DLN itself: the rebalancer places orders giving the reserve token on the chain having surplus and taking
+ * it on the chain having deficit, so other takers deliver funds
+ */
+export class ReserveRebalancer {
+  private readonly logger: Logger;
+  private readonly proposals = new Map<string, RebalanceProposal>();
+  private readonly inFlight = new Map<
+    number,
+    { proposal: RebalanceProposal; orderId?: string; placedAt: number }
+  >();
+  private nextProposalId = 1;
+  private isRebalancing = false;
+
+  constructor(
+    private readonly opts: ReserveRebalancerOpts,
+    private readonly executor: IExecutor,
+    private readonly hooksEngine: HooksEngine,
+    logger: Logger
+  ) {
+    this.logger = logger.child({ service: "ReserveRebalancer" });
+  }
+
+  start() {
+    setInterval(() => this.rebalance(), (this.opts.interval || 600) * 1000);
+    this.logger.info(
+      `rebalancing ${this.opts.buckets.length} bucket(s)${
+        this.opts.approveOnly ? " in approve-only mode" : ""
+      }`
+    );
+  }
+
+  getProposals(): RebalanceProposal[] {
+    return Array.from(this.proposals.values());
+  }
+
+  /**
+   * Places the order for the proposal awaiting approval. Balances may have changed since the proposal has been made
+   * (e.g., by the order placed upon the approval of the previous proposal), so the proposal is made once again from
+   * actual balances before placing the order. Returns undefined if the proposal is not found
+   */
+  async approve(proposalId: string): Promise<RebalanceApproval | undefined> {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) return undefined;
+    if (this.isRebalancing) {
+      return {
+        placed: false,
+        reason: `rebalancing is in progress, retry later`,
+      };
+    }
+
+    this.isRebalancing = true;
+    try {
+      this.proposals.delete(proposalId);
+      const { bucketIndex } = proposal;
+      const logger = this.logger.child({ bucketIndex, proposalId });
+      if (await this.isInFlight(bucketIndex, logger)) {
+        return {
+          placed: false,
+          reason: `rebalancing order of the bucket is in flight`,
+        };
+      }
+
+      const actual = await this.getProposal(
+        bucketIndex,
+        this.opts.buckets[bucketIndex],
+        logger
+      );
+      if (!actual) {
+        return { placed: false, reason: `reserves are balanced already` };
+      }
+      if (
+        actual.giveChainId !== proposal.giveChainId ||
+        actual.takeChainId !== proposal.takeChainId
+      ) {
+        return {
+          placed: false,
+          reason: `direction has changed, actual proposal: ${actual.message}`,
+        };
+      }
+
+      const approved = {
+        ...actual,
+        id: proposal.id,
+        createdAt: proposal.createdAt,
+      };
+      logger.info(`rebalancing approved: ${approved.message}`);
+      await this.placeOrder(approved, logger);
+      if (this.isDryRun(approved)) {
+        const chain = ChainId[approved.giveChainId];
+        return {
+          placed: false,
+          reason: `${chain} runs in dry run mode, the order has not been placed`,
+        };
+      }
+      return { placed: true, proposal: approved };
+    } finally {
+      this.isRebalancing = false;
+    }
+  }
+
+  /**
+   * Orders placed by the rebalancer are fulfilled by other takers, the executor must not fulfill them with its own
+   * funds on the chain lacking reserves
+   */
+  isOwnOrder(order: OrderWithoutNonce): boolean {
+    const giveChain = this.executor.chains[order.give.chainId];
+    if (!giveChain) return false;
+    return buffersAreEqual(
+      order.maker,
+      helpers.hexToBuffer(giveChain.fulfillProvider.address)
+    );
+  }
+
+  private async rebalance(): Promise<void> {
+    if (this.isRebalancing) return;
+    this.isRebalancing = true;
+
+    for (const [bucketIndex, bucketOpts] of this.opts.buckets.entries()) {
+      const logger = this.logger.child({ bucketIndex });
+      try {
+        await this.rebalanceBucket(bucketIndex, bucketOpts, logger);
+      } catch (e) {
+        logger.error(`unable to rebalance bucket: ${e}`);
+        logger.error(e);
+      }
+    }
+
+    this.isRebalancing = false;
+  }
+
+  private async rebalanceBucket(
+    bucketIndex: number,
+    bucketOpts: ReserveRebalancerBucketOpts,
+    logger: Logger
+  ) {
+    if (await this.isInFlight(bucketIndex, logger)) return;
+
+    const proposal = await this.getProposal(bucketIndex, bucketOpts, logger);
+    if (!proposal) return;
+
+    // the bucket may have a single proposal at a time: the proposal awaiting approval is refreshed with the actual
+    // amount, and announced again only if the direction has changed
+    const existing = this.getProposals().find(
+      (p) => p.bucketIndex === bucketIndex
+    );
+    if (existing) {
+      this.proposals.delete(existing.id);
+      if (
+        existing.giveChainId === proposal.giveChainId &&
+        existing.takeChainId === proposal.takeChainId
+      ) {
+        this.proposals.set(existing.id, {
+          ...proposal,
+          id: existing.id,
+          createdAt: existing.createdAt,
+        });
+        return;
+      }
+    }
+    logger.info(`rebalancing proposed: ${proposal.message}`);
+    // orders are never placed automatically from the chain running in dry run mode
+    const approveOnly = !!this.opts.approveOnly || this.isDryRun(proposal);
+    this.hooksEngine.handleReserveRebalanceProposed({ proposal, approveOnly });
+
+    if (approveOnly) {
+      this.proposals.set(proposal.id, proposal);
+      return;
+    }
+    await this.placeOrder(proposal, logger.child({ proposalId: proposal.id }));
+  }
+
+  /**
+   * Proposes the transfer from the chain having the largest surplus to the chain having the largest deficit, if
+   * reserves of the bucket are not balanced
+   */
+  private async getProposal(
+    bucketIndex: number,
+    bucketOpts: ReserveRebalancerBucketOpts,
+    logger: Logger
+  ): Promise<RebalanceProposal | undefined> {
+    const reserves = await this.getReserves(bucketOpts, logger);
+    const total = reserves.reduce(
+      (sum, reserve) => sum.plus(reserve.amount),
+      new BigNumber(0)
+    );
+    const totalWeight = reserves.reduce(
+      (sum, reserve) => sum + reserve.weight,
+      0
+    );
+    if (total.isZero() || totalWeight === 0) return;
+
+    // deviation of each chain's reserve from its target, in token units
+    const deviations = reserves
+      .map((reserve) => ({
+        reserve,
+        deviation: reserve.amount.minus(
+          total.multipliedBy(reserve.weight).div(totalWeight)
+        ),
+      }))
+      .sort((a, b) => a.deviation.comparedTo(b.deviation));
+    const deficit = deviations[0];
+    const surplus = deviations[deviations.length - 1];
+
+    const threshold = total.multipliedBy(bucketOpts.threshold ?? 0.1);
+    if (
+      surplus.deviation.lt(threshold) &&
+      deficit.deviation.negated().lt(threshold)
+    ) {
+      logger.debug(`reserves are balanced`);
+      return;
+    }
+
+    const transferAmount = BigNumber.min(
+      surplus.deviation,
+      deficit.deviation.negated()
+    );
+    if (transferAmount.lt(bucketOpts.minTransferAmount || 0)) {
+      logger.debug(
+        `transfer amount (${transferAmount}) is less than min transfer amount`
+      );
+      return;
+    }
+
+    const shares = reserves
+      .map(
+        (reserve) =>
+          `${ChainId[reserve.chainId]}: ${reserve.amount
+            .div(total)
+            .multipliedBy(100)
+            .toFixed(2)}%`
+      )
+      .join(", ");
+    const proposal: RebalanceProposal = {
+      id: `${this.nextProposalId++}`,
+      bucketIndex,
+      giveChainId: surplus.reserve.chainId,
+      giveToken: tokenAddressToString(
+        surplus.reserve.chainId,
+        surplus.reserve.token
+      ),
+      takeChainId: deficit.reserve.chainId,
+      takeToken: tokenAddressToString(
+        deficit.reserve.chainId,
+        deficit.reserve.token
+      ),
+      giveAmount: transferAmount
+        .multipliedBy(new BigNumber(10).pow(surplus.reserve.decimals))
+        .toFixed(0),
+      message: `transfer ${transferAmount.toFixed(2)} from ${
+        ChainId[surplus.reserve.chainId]
+      } to ${ChainId[deficit.reserve.chainId]} (actual shares: ${shares})`,
+      createdAt: Date.now(),
+    };
+    return proposal;
+  }
+
+  private async isInFlight(
+    bucketIndex: number,
+    logger: Logger
+  ): Promise<boolean> {
+    const inFlight = this.inFlight.get(bucketIndex);
+    if (!inFlight) return false;
+
+    if (
+      inFlight.orderId &&
+      Date.now() - inFlight.placedAt < MAX_IN_FLIGHT_DURATION
+    ) {
+      const takeChain = this.executor.chains[inFlight.proposal.takeChainId]!;
+      const status = await this.executor.client.getTakeOrderStatus(
+        inFlight.orderId,
+        takeChain.chain,
+        {
+          web3: takeChain.fulfillProvider.connection as Web3,
+        }
+      );
+      if (status?.status !== OrderState.Fulfilled) {
+        logger.debug(
+          `rebalancing order ${inFlight.orderId} is not fulfilled yet`
+        );
+        return true;
+      }
+    } else if (Date.now() - inFlight.placedAt < MAX_IN_FLIGHT_DURATION) {
+      return true;
+    }
+
+    this.inFlight.delete(bucketIndex);
+    return false;
+  }
+
+  private async getReserves(
+    bucketOpts: ReserveRebalancerBucketOpts,
+    logger: Logger
+  ): Promise<ChainReserve[]> {
+    const reserves: ChainReserve[] = [];
+    for (const [chainIdKey, weight] of Object.entries(
+      bucketOpts.targetWeights
+    )) {
+      const chainId = Number(chainIdKey) as ChainId;
+      const chain = this.executor.chains[chainId];
+      const token = bucketOpts.bucket.findFirstToken(chainId);
+      if (!chain || !token) {
+        logger.debug(
+          `${ChainId[chainId]} is not configured or not covered by the bucket, skipping`
+        );
+        continue;
+      }
+
+      const [balance, decimals] = await Promise.all([
+        chain.fulfillProvider.getBalance(token),
+        this.executor.client.getDecimals(
+          chainId,
+          token,
+          chain.fulfillProvider.connection as Web3
+        ),
+      ]);
+      reserves.push({
+        chainId,
+        token,
+        decimals,
+        amount: new BigNumber(balance).div(new BigNumber(10).pow(decimals)),
+        weight: weight || 0,
+      });
+    }
+    return reserves;
+  }
+
+  private isDryRun(proposal: RebalanceProposal): boolean {
+    return this.executor.chains[proposal.giveChainId]!.dryRun;
+  }
+
+  /**
+   * Places the order for the proposal. In dry run mode, the order is estimated and logged, but not placed
+   */
+  private async placeOrder(
+    proposal: RebalanceProposal,
+    logger: Logger
+  ): Promise<void> {
+    const giveChain = this.executor.chains[proposal.giveChainId]!;
+    const takeChain = this.executor.chains[proposal.takeChainId]!;
+    try {
+      const giveToken = tokenStringToBuffer(
+        proposal.giveChainId,
+        proposal.giveToken
+      );
+      const takeToken = tokenStringToBuffer(
+        proposal.takeChainId,
+        proposal.takeToken
+      );
+      const [giveDecimals, takeDecimals] = await Promise.all([
+        this.executor.client.getDecimals(
+          giveChain.chain,
+          giveToken,
+          giveChain.fulfillProvider.connection as Web3
+        ),
+        this.executor.client.getDecimals(
+          takeChain.chain,
+          takeToken,
+          takeChain.fulfillProvider.connection as Web3
+        ),
+      ]);
+
+      const maker = helpers.hexToBuffer(giveChain.fulfillProvider.address);
+      const receiver = helpers.hexToBuffer(takeChain.fulfillProvider.address);
+      const order: OrderWithoutNonce = {
+        maker,
+        give: {
+          chainId: giveChain.chain,
+          tokenAddress: giveToken,
+          amount: BigInt(proposal.giveAmount),
+        },
+        take: {
+          chainId: takeChain.chain,
+          tokenAddress: takeToken,
+          // rough amount (the same token on another chain), replaced by the estimated take amount below
+          amount: BigInt(
+            new BigNumber(proposal.giveAmount)
+              .div(new BigNumber(10).pow(giveDecimals - takeDecimals))
+              .toFixed(0)
+          ),
+        },
+        receiver,
+        givePatchAuthority: maker,
+        orderAuthorityDstAddress: receiver,
+      };
+
+      // take amount is picked the same way takers evaluate orders, so the order is profitable for them
+      const estimation = await calculateExpectedTakeAmount(
+        order,
+        TAKER_MARGIN_BPS,
+        {
+          client: this.executor.client,
+          giveConnection: giveChain.fulfillProvider.connection as Web3,
+          takeConnection: takeChain.fulfillProvider.connection as Web3,
+          priceTokenService: this.executor.tokenPriceService,
+          buckets: this.executor.buckets,
+          swapConnector: this.executor.swapConnector,
+          logger: createClientLogger(logger),
+          batchSize: TAKER_BATCH_UNLOCK_SIZE,
+        }
+      );
+      if (new BigNumber(estimation.requiredReserveDstAmount).isZero()) {
+        throw new Error(
+          `give amount is not enough to cover operating expenses`
+        );
+      }
+      order.take.amount = BigInt(estimation.profitableTakeAmount);
+      logger.info(
+        `placing order giving ${proposal.giveAmount} on ${
+          ChainId[giveChain.chain]
+        }, taking ${order.take.amount} on ${ChainId[takeChain.chain]}`
+      );
+
+      let tx: unknown;
+      if (giveChain.chain === ChainId.Solana) {
+        tx = await this.executor.client.createOrder<ChainId.Solana>(
+          order,
+          0,
+          undefined,
+          {
+            makerWallet: (giveChain.fulfillProvider as SolanaProviderAdapter)
+              .wallet.publicKey,
+          }
+        );
+      } else {
+        const giveProvider = giveChain.fulfillProvider as EvmProviderAdapter;
+        await giveProvider.approveToken(
+          proposal.giveToken,
+          (giveChain.client as evm.PmmEvmClient).getContractAddress(
+            giveChain.chain,
+            evm.ServiceType.Source
+          ),
+          logger,
+          giveChain.dryRun
+        );
+        tx = await this.executor.client.createOrder<ChainId.Ethereum>(
+          order,
+          0,
+          undefined,
+          {
+            permit: "0x",
+            giveWeb3: giveProvider.connection,
+          }
+        );
+      }
+
+      if (giveChain.dryRun) {
+        logger.info(
+          `dry run, rebalancing order not placed: ${JSON.stringify(
+            tx,
+            (key, value) =>
+              typeof value === "bigint" ? value.toString() : value
+          )}`
+        );
+        return;
+      }
+
+      const txHash = await giveChain.fulfillProvider.sendTransaction(tx, {
+        logger,
+      });
+      const createdOrder = await this.executor.client.getOrderFromTransaction(
+        giveChain.chain,
+        txHash,
+        {
+          web3: giveChain.fulfillProvider.connection as Web3,
+          loggerInstance: createClientLogger(logger),
+        }
+      );
+      const orderId = createdOrder
+        ? helpers.bufferToHex(Buffer.from(createdOrder.orderId))
+        : undefined;
+      logger.info(`rebalancing order placed: ${orderId}, txHash: ${txHash}`);
+
+      this.inFlight.set(proposal.bucketIndex, {
+        proposal,
+        orderId,
+        placedAt: Date.now(),
+      });
+      this.hooksEngine.handleReserveRebalanceOrderPlaced({
+        proposal,
+        orderId,
+        txHash,
+      });
+    } catch (e) {
+      const message = `placing rebalancing order failed: ${e}`;
+      logger.error(message);
+      logger.error(e);
+      this.hooksEngine.handleReserveRebalanceFailed({ proposal, message });
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import {
+  OrderFeedRecorder,
+  readOrderFeedRecording,
+  RecordedOrder,
+} from "./order.feed.recorder";
+
+export { OrderFeedRecorder, readOrderFeedRecording, RecordedOrder };
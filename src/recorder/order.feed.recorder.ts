@@ -0,0 +1,115 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { Logger } from "pino";
+
+import {
+  deserializeOrderData,
+  deserializeOrderPatch,
+  SerializedOrderPatch,
+  serializeOrderData,
+  serializeOrderPatch,
+} from "../helpers";
+import { IncomingOrder, OrderInfoStatus } from "../interfaces";
+
+export type RecordedOrder = {
+  /**
+   * Time the order has been delivered to the executor, in ms since epoch
+   */
+  recordedAt: number;
+  orderInfo: IncomingOrder<any>;
+
+  /**
+   * Payload the order has been decoded from, if passed by the order feed (e.g. the WS message)
+   */
+  rawPayload?: unknown;
+};
+
+type SerializedRecordedOrder = Omit<RecordedOrder, "orderInfo"> & {
+  orderInfo: Omit<IncomingOrder<any>, "order" | "patch"> & {
+    order: string;
+    patch?: SerializedOrderPatch;
+  };
+};
+
+/**
+ * Tees every order delivered to the executor into the append-only JSON-lines file, so the order feed can be
+ * played back later using the ReplayOrderFeed
+ */
+export class OrderFeedRecorder {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  constructor(
+    private readonly filePath: string = path.resolve(
+      process.cwd(),
+      "orderfeed.recording.jsonl"
+    )
+  ) {}
+
+  async init(logger: Logger): Promise<void> {
+    this.logger = logger.child({ service: "OrderFeedRecorder" });
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    this.logger.info(`recording the order feed to ${this.filePath}`);
+  }
+
+  record(orderInfo: IncomingOrder<any>, rawPayload?: unknown): void {
+    // patch statuses carry final amounts of the order
+    const { patch } =
+      orderInfo as IncomingOrder<OrderInfoStatus.TakeOfferDecreased>;
+    const record: SerializedRecordedOrder = {
+      recordedAt: Date.now(),
+      orderInfo: {
+        ...orderInfo,
+        order: serializeOrderData(orderInfo.order),
+        patch: patch ? serializeOrderPatch(patch) : undefined,
+      },
+      rawPayload,
+    };
+    const line = JSON.stringify(record) + "\n";
+    // writes are chained to preserve the order of entries in the file
+    this.writeQueue = this.writeQueue
+      .then(() => appendFile(this.filePath, line))
+      .catch((e) => {
+        this.logger.error(`unable to write to ${this.filePath}: ${e}`);
+        this.logger.error(e);
+      });
+  }
+
+  /**
+   * Resolves once all recorded orders have been written to the file
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Reads the recording made by the OrderFeedRecorder. Corrupted lines (e.g. the last line of the recording
+ * interrupted by the crash) are skipped
+ */
+export async function readOrderFeedRecording(
+  filePath: string,
+  logger: Logger
+): Promise<RecordedOrder[]> {
+  const records: RecordedOrder[] = [];
+  const lines = (await readFile(filePath, "utf-8")).split("\n");
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as SerializedRecordedOrder;
+      records.push({
+        ...record,
+        orderInfo: {
+          ...record.orderInfo,
+          order: deserializeOrderData(record.orderInfo.order),
+          patch: record.orderInfo.patch
+            ? deserializeOrderPatch(record.orderInfo.patch)
+            : undefined,
+        },
+      });
+    } catch (e) {
+      logger.error(`skipping corrupted line: ${line}`);
+    }
+  }
+  return records;
+}
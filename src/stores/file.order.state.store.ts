@@ -0,0 +1,150 @@
+import { existsSync } from "fs";
+import { appendFile, mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { Logger } from "pino";
+
+import {
+  deserializeOrderData,
+  deserializeOrderPatch,
+  SerializedOrderPatch,
+  serializeOrderData,
+  serializeOrderPatch,
+} from "../helpers";
+
+import {
+  OrderStateStore,
+  StoredOrder,
+  StoredOrderKind,
+} from "./order.state.store";
+
+type SerializedStoredOrder = Omit<StoredOrder, "orderInfo" | "patch"> & {
+  orderInfo: Omit<StoredOrder["orderInfo"], "order"> & { order: string };
+  patch?: SerializedOrderPatch;
+};
+
+type StoreEntry =
+  | { op: "put"; record: SerializedStoredOrder }
+  | { op: "delete"; kind: StoredOrderKind; orderId: string };
+
+/**
+ * Keeps orders in memory and mirrors every change to the append-only JSON-lines file. The file is compacted
+ * (rewritten with the actual state only) upon initialization
+ */
+export class FileOrderStateStore implements OrderStateStore {
+  private readonly records = new Map<string, StoredOrder>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  constructor(
+    private readonly filePath: string = path.resolve(
+      process.cwd(),
+      "executor.state.jsonl"
+    )
+  ) {}
+
+  async init(logger: Logger): Promise<void> {
+    this.logger = logger.child({ service: "FileOrderStateStore" });
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+
+    if (existsSync(this.filePath)) {
+      const lines = (await readFile(this.filePath, "utf-8")).split("\n");
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          this.applyEntry(JSON.parse(line) as StoreEntry);
+        } catch (e) {
+          this.logger.error(`skipping corrupted line: ${line}`);
+        }
+      }
+    }
+
+    await writeFile(
+      this.filePath,
+      Array.from(this.records.values())
+        .map((record) =>
+          this.entryToLine({ op: "put", record: this.serialize(record) })
+        )
+        .join("")
+    );
+    this.logger.info(
+      `loaded ${this.records.size} order(s) from ${this.filePath}`
+    );
+  }
+
+  put(record: StoredOrder): void {
+    this.records.set(
+      this.getKey(record.kind, record.orderInfo.orderId),
+      record
+    );
+    this.append({ op: "put", record: this.serialize(record) });
+  }
+
+  delete(kind: StoredOrderKind, orderId: string): void {
+    if (!this.records.delete(this.getKey(kind, orderId))) return;
+    this.append({ op: "delete", kind, orderId });
+  }
+
+  async getAll(): Promise<StoredOrder[]> {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Resolves once all changes have been written to the file
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private applyEntry(entry: StoreEntry) {
+    if (entry.op === "put") {
+      const record = this.deserialize(entry.record);
+      this.records.set(
+        this.getKey(record.kind, record.orderInfo.orderId),
+        record
+      );
+    } else {
+      this.records.delete(this.getKey(entry.kind, entry.orderId));
+    }
+  }
+
+  private append(entry: StoreEntry) {
+    const line = this.entryToLine(entry);
+    // writes are chained to preserve the order of entries in the file
+    this.writeQueue = this.writeQueue
+      .then(() => appendFile(this.filePath, line))
+      .catch((e) => {
+        this.logger.error(`unable to write to ${this.filePath}: ${e}`);
+        this.logger.error(e);
+      });
+  }
+
+  private entryToLine(entry: StoreEntry): string {
+    return JSON.stringify(entry) + "\n";
+  }
+
+  private getKey(kind: StoredOrderKind, orderId: string): string {
+    return `${kind}:${orderId}`;
+  }
+
+  private serialize(record: StoredOrder): SerializedStoredOrder {
+    return {
+      ...record,
+      orderInfo: {
+        ...record.orderInfo,
+        order: serializeOrderData(record.orderInfo.order),
+      },
+      patch: record.patch ? serializeOrderPatch(record.patch) : undefined,
+    };
+  }
+
+  private deserialize(record: SerializedStoredOrder): StoredOrder {
+    return {
+      ...record,
+      orderInfo: {
+        ...record.orderInfo,
+        order: deserializeOrderData(record.orderInfo.order),
+      },
+      patch: record.patch ? deserializeOrderPatch(record.patch) : undefined,
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { FileOrderStateStore } from "./file.order.state.store";
+import {
+  OrderStateStore,
+  StoredOrder,
+  StoredOrderKind,
+} from "./order.state.store";
+
+export { FileOrderStateStore, OrderStateStore, StoredOrder, StoredOrderKind };
@@ -0,0 +1,53 @@
+import { Logger } from "pino";
+
+import { IncomingOrder, OrderInfoStatus, OrderPatch } from "../interfaces";
+
+export enum StoredOrderKind {
+  /**
+   * order is waiting in the processor's queues or in the mempool
+   */
+  Pending,
+
+  /**
+   * order is fulfilled by the taker and is waiting in the batch unlock queue
+   */
+  Unlock,
+
+  /**
+   * order is fulfilled by the taker before its finalization and is counted against the unconfirmed orders budget
+   * of the give chain
+   */
+  UnconfirmedExposure,
+}
+
+export type StoredOrder = {
+  kind: StoredOrderKind;
+  orderInfo: IncomingOrder<OrderInfoStatus>;
+  attempts: number;
+
+  /**
+   * USD worth of the order counted against the unconfirmed orders budget (UnconfirmedExposure only)
+   */
+  usdWorth?: number;
+
+  /**
+   * Patches of the order received so far (Pending only)
+   */
+  patch?: OrderPatch;
+
+  /**
+   * Time the order has been added to the batch unlock queue, in ms (Unlock only)
+   */
+  queuedAt?: number;
+};
+
+/**
+ * Represents a persistent storage of the orders kept by processors, mempool and batch unlocker, so they can be
+ * restored after executor restarts. Write methods are fire-and-forget: implementations must handle their own errors.
+ */
+export interface OrderStateStore {
+  init(logger: Logger): Promise<void>;
+  put(record: StoredOrder): void;
+  delete(kind: StoredOrderKind, orderId: string): void;
+  getAll(): Promise<StoredOrder[]>;
+}
@@ -0,0 +1,123 @@
+import assert from "assert";
+import { request } from "http";
+import "mocha";
+
+import { AdminServer } from "../src/admin";
+import { IExecutor } from "../src/executors/executor";
+
+import { silentLogger } from "./helpers";
+
+const port = 37913;
+const authToken = "secret";
+
+type Response = { status: number; body: { error?: string } };
+
+function send(
+  method: string,
+  path: string,
+  headers: { [key in string]: string } = {}
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        host: "127.0.0.1",
+        port,
+        method,
+        path,
+        headers: { host: `127.0.0.1:${port}`, ...headers },
+      },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode!, body: JSON.parse(data) })
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+// no chains configured: endpoints reached by authorized requests respond with 404
+const executor = { chains: {} } as unknown as IExecutor;
+
+describe("AdminServer authorization", () => {
+  let server: AdminServer;
+
+  async function start(opts: { authToken?: string } = {}) {
+    server = new AdminServer({ port, ...opts }, executor, silentLogger);
+    await server.start();
+  }
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("should serve GET requests without the token", async () => {
+    await start({ authToken });
+    const response = await send("GET", "/chains");
+    assert.equal(response.status, 200);
+    assert.deepStrictEqual(response.body, []);
+  });
+
+  it("should reject state-changing requests without the token", async () => {
+    await start({ authToken });
+    const response = await send("POST", "/chains/56/pause");
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, "missing or invalid bearer token");
+  });
+
+  it("should reject state-changing requests with the wrong token", async () => {
+    await start({ authToken });
+    const wrongTokens = ["Bearer wrong!", `Bearer ${authToken}x`, authToken];
+    for (const authorization of wrongTokens) {
+      const response = await send("POST", "/chains/56/pause", {
+        authorization,
+      });
+      assert.equal(response.status, 401);
+    }
+  });
+
+  it("should accept state-changing requests with the token", async () => {
+    await start({ authToken });
+    const response = await send("POST", "/chains/56/pause", {
+      authorization: `Bearer ${authToken}`,
+    });
+    assert.equal(response.status, 404);
+    assert.equal(response.body.error, "take chain 56 not configured");
+  });
+
+  it("should disable state-changing requests unless the token is configured", async () => {
+    await start();
+    const response = await send("POST", "/chains/56/pause", {
+      authorization: "Bearer ",
+    });
+    assert.equal(response.status, 403);
+  });
+
+  it("should reject requests coming from foreign origins", async () => {
+    await start({ authToken });
+    const response = await send("GET", "/chains", {
+      origin: "http://evil.example",
+    });
+    assert.equal(response.status, 403);
+    assert.equal(
+      response.body.error,
+      "unexpected Origin header: http://evil.example"
+    );
+
+    const sameOrigin = await send("GET", "/chains", {
+      origin: `http://localhost:${port}`,
+    });
+    assert.equal(sameOrigin.status, 200);
+  });
+
+  it("should reject requests addressed to foreign hosts", async () => {
+    await start({ authToken });
+    const response = await send("GET", "/chains", {
+      host: `evil.example:${port}`,
+    });
+    assert.equal(response.status, 403);
+  });
+});
@@ -0,0 +1,144 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import assert from "assert";
+import "mocha";
+
+import { and, firstMatch, group, not, or } from "../src/filters";
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+} from "../src/filters/order.filter";
+
+import { createOrder, silentLogger } from "./helpers";
+
+const order = createOrder();
+
+const initContext = {
+  logger: silentLogger,
+} as unknown as OrderFilterInitContext;
+
+const filterContext = {
+  logger: silentLogger,
+  orderId: "0x01",
+} as unknown as FilterContext;
+
+/**
+ * Builds the filter returning the given result and recording its name upon each call
+ */
+function fakeFilter(
+  name: string,
+  result: boolean | FilterVerdict,
+  calls: string[] = []
+): OrderFilterInitializer {
+  return async () => async () => {
+    calls.push(name);
+    return result;
+  };
+}
+
+const approving = (name: string, calls?: string[]) =>
+  fakeFilter(name, { filter: name, approved: true }, calls);
+
+const rejecting = (name: string, calls?: string[]) =>
+  fakeFilter(name, { filter: name, approved: false, reason: "no" }, calls);
+
+async function run(initializer: OrderFilterInitializer) {
+  const filter = await initializer(ChainId.BSC, initContext);
+  return filter(order, filterContext) as Promise<FilterVerdict>;
+}
+
+describe("Filter combinators", () => {
+  describe("and", () => {
+    it("should approve if all filters approve", async () => {
+      const verdict = await run(and(approving("a"), approving("b")));
+      assert.equal(verdict.approved, true);
+    });
+
+    it("should return the first rejection and stop the evaluation", async () => {
+      const calls: string[] = [];
+      const verdict = await run(
+        and(approving("a", calls), rejecting("b", calls), rejecting("c", calls))
+      );
+      assert.equal(verdict.approved, false);
+      assert.equal(verdict.filter, "b");
+      assert.deepStrictEqual(calls, ["a", "b"]);
+    });
+
+    it("should accept filters returning bare booleans", async () => {
+      const verdict = await run(
+        and(fakeFilter("a", true), fakeFilter("b", false))
+      );
+      assert.equal(verdict.approved, false);
+      assert.equal(verdict.filter, "anonymous");
+    });
+  });
+
+  describe("or", () => {
+    it("should return the first approval and stop the evaluation", async () => {
+      const calls: string[] = [];
+      const verdict = await run(
+        or(rejecting("a", calls), approving("b", calls), approving("c", calls))
+      );
+      assert.equal(verdict.approved, true);
+      assert.equal(verdict.filter, "b");
+      assert.deepStrictEqual(calls, ["a", "b"]);
+    });
+
+    it("should reject if all filters reject", async () => {
+      const verdict = await run(or(rejecting("a"), rejecting("b")));
+      assert.equal(verdict.approved, false);
+      assert.equal(verdict.filter, "or");
+    });
+  });
+
+  describe("not", () => {
+    it("should invert the verdict", async () => {
+      assert.equal((await run(not(approving("a")))).approved, false);
+      assert.equal((await run(not(rejecting("a")))).approved, true);
+      assert.equal((await run(not(rejecting("a")))).filter, "not(a)");
+    });
+  });
+
+  describe("firstMatch", () => {
+    it("should let the first matching rule decide", async () => {
+      const calls: string[] = [];
+      const verdict = await run(
+        firstMatch(
+          { when: rejecting("when1", calls), then: approving("then1", calls) },
+          { when: approving("when2", calls), then: rejecting("then2", calls) },
+          { when: approving("when3", calls), then: approving("then3", calls) }
+        )
+      );
+      assert.equal(verdict.approved, false);
+      assert.equal(verdict.filter, "then2");
+      assert.deepStrictEqual(calls, ["when1", "when2", "then2"]);
+    });
+
+    it("should reject orders matching no rule", async () => {
+      const verdict = await run(
+        firstMatch({ when: rejecting("when"), then: approving("then") })
+      );
+      assert.equal(verdict.approved, false);
+      assert.equal(verdict.filter, "firstMatch");
+    });
+  });
+
+  describe("group", () => {
+    it("should approve if all filters of the group approve", async () => {
+      const verdict = await run(
+        group("trusted", [approving("a"), approving("b")])
+      );
+      assert.equal(verdict.approved, true);
+      assert.equal(verdict.filter, "trusted");
+    });
+
+    it("should reject if any filter of the group rejects", async () => {
+      const verdict = await run(
+        group("trusted", [approving("a"), rejecting("b")])
+      );
+      assert.equal(verdict.approved, false);
+      assert.equal(verdict.filter, "trusted");
+    });
+  });
+});
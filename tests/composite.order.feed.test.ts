@@ -0,0 +1,175 @@
+import { Order } from "@debridge-finance/dln-client";
+import assert from "assert";
+import "mocha";
+
+import { Hooks } from "../src/hooks/HookEnums";
+import { HooksEngine } from "../src/hooks/HooksEngine";
+import { HookParams } from "../src/hooks/types/HookParams";
+import {
+  GetNextOrder,
+  IncomingOrder,
+  OrderInfoStatus,
+  OrderProcessorFunc,
+} from "../src/interfaces";
+import { CompositeOrderFeed } from "../src/orderFeeds/composite.order.feed";
+
+import { createOrder, silentLogger } from "./helpers";
+
+class FakeOrderFeed extends GetNextOrder {
+  async init(processNextOrder: OrderProcessorFunc) {
+    this.processNextOrder = processNextOrder;
+  }
+
+  emit(order: IncomingOrder<any>) {
+    return this.processNextOrder(order);
+  }
+}
+
+const order = createOrder();
+const orderId = Order.calculateId(order);
+
+const created = (
+  confirmations?: number
+): IncomingOrder<OrderInfoStatus.Created> => ({
+  orderId,
+  order,
+  status: OrderInfoStatus.Created,
+  finalization_info:
+    confirmations === undefined
+      ? { Finalized: { transaction_hash: "0x01" } }
+      : {
+          Confirmed: {
+            confirmation_blocks_count: confirmations,
+            transaction_hash: "0x01",
+          },
+        },
+});
+
+const revoked = (): IncomingOrder<OrderInfoStatus.Created> => ({
+  orderId,
+  order,
+  status: OrderInfoStatus.Created,
+  finalization_info: "Revoked",
+});
+
+const fulfilled = (): IncomingOrder<OrderInfoStatus.Fulfilled> => ({
+  orderId,
+  order,
+  status: OrderInfoStatus.Fulfilled,
+  unlockAuthority: "0x01",
+});
+
+const takeOfferDecreased = (
+  takeAmount: bigint
+): IncomingOrder<OrderInfoStatus.TakeOfferDecreased> => ({
+  orderId,
+  order,
+  status: OrderInfoStatus.TakeOfferDecreased,
+  patch: { takeAmount },
+});
+
+describe("CompositeOrderFeed", () => {
+  let ws: FakeOrderFeed;
+  let logs: FakeOrderFeed;
+  let passed: IncomingOrder<any>[];
+  let lagged: HookParams<Hooks.OrderFeedLagged>[];
+
+  beforeEach(async () => {
+    ws = new FakeOrderFeed();
+    logs = new FakeOrderFeed();
+    passed = [];
+    lagged = [];
+
+    const feed = new CompositeOrderFeed({ ws, logs }, { maxLag: 0 });
+    feed.setLogger(silentLogger);
+    await feed.init(
+      async (orderInfo) => {
+        passed.push(orderInfo);
+      },
+      [],
+      [],
+      new HooksEngine(
+        {
+          [Hooks.OrderFeedLagged]: [
+            async (params) => {
+              lagged.push(params);
+            },
+          ],
+        },
+        silentLogger
+      )
+    );
+  });
+
+  it("passes the event delivered by several feeds once", async () => {
+    await ws.emit(created());
+    await logs.emit(created());
+    assert.equal(passed.length, 1);
+  });
+
+  it("reports the feed delivering the event later than others", async () => {
+    await ws.emit(created());
+    await logs.emit(created());
+    // hooks are run asynchronously
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(lagged.length, 1);
+    assert.equal(lagged[0].orderFeed, "logs");
+    assert.equal(lagged[0].orderId, orderId);
+  });
+
+  it("passes events advancing the order", async () => {
+    await logs.emit(created(1));
+    await ws.emit(created(5));
+    await logs.emit(created());
+    await ws.emit(fulfilled());
+    assert.deepStrictEqual(
+      passed.map((it) => it.status),
+      [
+        OrderInfoStatus.Created,
+        OrderInfoStatus.Created,
+        OrderInfoStatus.Created,
+        OrderInfoStatus.Fulfilled,
+      ]
+    );
+  });
+
+  it("drops events behind the known state of the order", async () => {
+    await ws.emit(created(5));
+    await logs.emit(created(3));
+    await ws.emit(fulfilled());
+    await logs.emit(created());
+    assert.deepStrictEqual(
+      passed.map((it) => it.status),
+      [OrderInfoStatus.Created, OrderInfoStatus.Fulfilled]
+    );
+  });
+
+  it("passes every distinct patch once until the order is settled", async () => {
+    await ws.emit(created());
+    await ws.emit(takeOfferDecreased(10n));
+    await logs.emit(takeOfferDecreased(10n));
+    await logs.emit(takeOfferDecreased(9n));
+    await ws.emit(fulfilled());
+    await ws.emit(takeOfferDecreased(8n));
+    assert.deepStrictEqual(
+      passed.map((it) => it.status),
+      [
+        OrderInfoStatus.Created,
+        OrderInfoStatus.TakeOfferDecreased,
+        OrderInfoStatus.TakeOfferDecreased,
+        OrderInfoStatus.Fulfilled,
+      ]
+    );
+  });
+
+  it("passes the revocation of the order which is not settled", async () => {
+    await ws.emit(created(1));
+    await logs.emit(revoked());
+    await ws.emit(revoked());
+    assert.equal(passed.length, 2);
+    assert.equal(
+      (passed[1] as IncomingOrder<OrderInfoStatus.Created>).finalization_info,
+      "Revoked"
+    );
+  });
+});
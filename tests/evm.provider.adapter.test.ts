@@ -0,0 +1,262 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import assert from "assert";
+import BigNumber from "bignumber.js";
+import "mocha";
+import { Logger } from "pino";
+
+import { EvmRebroadcastAdapterOpts } from "../src/config";
+import { EvmProviderAdapter, Tx } from "../src/providers/evm.provider.adapter";
+import { EvmRpcProvider } from "../src/providers/rpc/evm.rpc.provider";
+import { JsonRpcRequest, RpcPool } from "../src/providers/rpc/rpc.pool";
+import { TxFees } from "../src/providers/utils/nonceAllocator";
+
+import { silentLogger } from "./helpers";
+
+const PRIVATE_KEY = `0x${"11".repeat(32)}`;
+const GWEI = 1_000_000_000;
+
+const toHex = (value: number) => `0x${value.toString(16)}`;
+
+/**
+ * Creates the adapter talking to the node which responds with the given gas price and fee history. Results of other
+ * methods may be given as well, either as is or as functions called upon each request
+ */
+function createAdapter(
+  eip1559: boolean,
+  network: { gasPrice: number; baseFeePerGas: number; rewards: number[] },
+  opts: {
+    // nonce allocators are shared per chain and address, so adapters sending txns need a chain of their own
+    chainId?: ChainId;
+    rebroadcast?: EvmRebroadcastAdapterOpts;
+    results?: { [method in string]: unknown };
+  } = {}
+): EvmProviderAdapter {
+  const results: { [method in string]: unknown } = {
+    ...opts.results,
+    eth_gasPrice: toHex(network.gasPrice),
+    eth_feeHistory: {
+      oldestBlock: "0x1",
+      baseFeePerGas: [toHex(1), toHex(network.baseFeePerGas)],
+      gasUsedRatio: [0.5],
+      reward: network.rewards.map((reward) => [toHex(reward)]),
+    },
+  };
+  const pool = {
+    request: async (payload: JsonRpcRequest) => ({
+      jsonrpc: "2.0",
+      id: payload.id,
+      result:
+        typeof results[payload.method] === "function"
+          ? (results[payload.method] as () => unknown)()
+          : results[payload.method],
+    }),
+  } as unknown as RpcPool;
+  return new EvmProviderAdapter(
+    opts.chainId ?? ChainId.BSC,
+    new EvmRpcProvider(pool),
+    PRIVATE_KEY,
+    opts.rebroadcast ?? { bumpGasPriceMultiplier: 1.1 },
+    eip1559
+  );
+}
+
+// fees are picked by the private method, which is called directly so no txn is sent
+const getNextFees = (
+  adapter: EvmProviderAdapter,
+  staleFees?: TxFees,
+  cappedGasPrice?: number
+): Promise<TxFees> =>
+  (
+    adapter as unknown as {
+      getNextFees(
+        staleFees?: TxFees,
+        cappedGasPrice?: BigNumber
+      ): Promise<TxFees>;
+    }
+  ).getNextFees(
+    staleFees,
+    cappedGasPrice === undefined ? undefined : new BigNumber(cappedGasPrice)
+  );
+
+describe("EvmProviderAdapter fees", () => {
+  describe("legacy txns", () => {
+    const adapter = createAdapter(false, {
+      gasPrice: 50 * GWEI,
+      baseFeePerGas: 0,
+      rewards: [],
+    });
+
+    it("picks the gas price of the network for the new txn", async () => {
+      assert.deepStrictEqual(await getNextFees(adapter), {
+        gasPrice: `${50 * GWEI}`,
+      });
+    });
+
+    it("bumps the gas price of the stale txn", async () => {
+      assert.deepStrictEqual(
+        await getNextFees(adapter, { gasPrice: `${100 * GWEI}` }),
+        { gasPrice: `${110 * GWEI}` }
+      );
+    });
+
+    it("picks the gas price of the network if it exceeds the bumped one", async () => {
+      assert.deepStrictEqual(
+        await getNextFees(adapter, { gasPrice: `${10 * GWEI}` }),
+        { gasPrice: `${50 * GWEI}` }
+      );
+    });
+
+    it("lowers the gas price of the new txn to the cap", async () => {
+      assert.deepStrictEqual(await getNextFees(adapter, undefined, 40 * GWEI), {
+        gasPrice: `${40 * GWEI}`,
+      });
+    });
+
+    it("refuses to replace the stale txn above the cap", async () => {
+      await assert.rejects(
+        getNextFees(adapter, { gasPrice: `${60 * GWEI}` }, 65 * GWEI),
+        /exceeds the cap/
+      );
+    });
+  });
+
+  describe("EIP-1559 txns", () => {
+    const adapter = createAdapter(true, {
+      gasPrice: 0,
+      baseFeePerGas: 30 * GWEI,
+      rewards: [3 * GWEI, 1 * GWEI, 2 * GWEI],
+    });
+
+    it("picks the median reward and twice the base fee for the new txn", async () => {
+      assert.deepStrictEqual(await getNextFees(adapter), {
+        maxFeePerGas: `${62 * GWEI}`,
+        maxPriorityFeePerGas: `${2 * GWEI}`,
+      });
+    });
+
+    it("bumps both fees of the stale txn", async () => {
+      assert.deepStrictEqual(
+        await getNextFees(adapter, {
+          maxFeePerGas: `${100 * GWEI}`,
+          maxPriorityFeePerGas: `${10 * GWEI}`,
+        }),
+        {
+          maxFeePerGas: `${110 * GWEI}`,
+          maxPriorityFeePerGas: `${11 * GWEI}`,
+        }
+      );
+    });
+
+    it("keeps the max fee above the cap, capping the expected gas price", async () => {
+      // expected gas price is 30 + 2 = 32 gwei
+      assert.deepStrictEqual(await getNextFees(adapter, undefined, 40 * GWEI), {
+        maxFeePerGas: `${62 * GWEI}`,
+        maxPriorityFeePerGas: `${2 * GWEI}`,
+      });
+    });
+
+    it("lowers the priority fee of the new txn to fit the cap", async () => {
+      assert.deepStrictEqual(await getNextFees(adapter, undefined, 31 * GWEI), {
+        maxFeePerGas: `${61 * GWEI}`,
+        maxPriorityFeePerGas: `${1 * GWEI}`,
+      });
+    });
+
+    it("bumps the capped txn while the expected gas price is within the cap", async () => {
+      const cap = 32 * GWEI * 1.3;
+      const fees = await getNextFees(adapter, undefined, cap);
+      const bumped = await getNextFees(adapter, fees, cap);
+      assert.deepStrictEqual(bumped, {
+        maxFeePerGas: `${68.2 * GWEI}`,
+        maxPriorityFeePerGas: `${2.2 * GWEI}`,
+      });
+    });
+
+    it("refuses to replace the stale txn above the cap", async () => {
+      await assert.rejects(
+        getNextFees(
+          adapter,
+          {
+            maxFeePerGas: `${70 * GWEI}`,
+            maxPriorityFeePerGas: `${10 * GWEI}`,
+          },
+          40 * GWEI
+        ),
+        /exceeds the cap/
+      );
+    });
+
+    it("replaces the legacy stale txn with the txn paying at least its bumped gas price", async () => {
+      assert.deepStrictEqual(
+        await getNextFees(adapter, { gasPrice: `${40 * GWEI}` }),
+        {
+          maxFeePerGas: `${104 * GWEI}`,
+          maxPriorityFeePerGas: `${44 * GWEI}`,
+        }
+      );
+    });
+  });
+});
+
+describe("EvmProviderAdapter rebroadcasting", () => {
+  it("rebroadcasts the capped EIP-1559 txn with bumped fees", async () => {
+    const sent: Tx[] = [];
+    const adapter = createAdapter(
+      true,
+      { gasPrice: 0, baseFeePerGas: 30 * GWEI, rewards: [2 * GWEI] },
+      {
+        chainId: ChainId.Ethereum,
+        rebroadcast: {
+          bumpGasPriceMultiplier: 1.1,
+          rebroadcastInterval: 20,
+          rebroadcastMaxAttempts: 3,
+          pollingInterval: 5,
+          pollingTimeframe: 5_000,
+        },
+        results: {
+          eth_chainId: toHex(ChainId.Ethereum),
+          eth_getTransactionCount: "0x0",
+          // the txn gets confirmed once it has been rebroadcasted twice
+          eth_getTransactionReceipt: () =>
+            sent.length < 3
+              ? null
+              : { status: "0x1", transactionHash: "0x03", logs: [] },
+        },
+      }
+    );
+    // txns are not signed and sent, but recorded
+    (
+      adapter as unknown as {
+        sendTx(tx: Tx, logger: Logger): Promise<string>;
+      }
+    ).sendTx = async (tx: Tx) => {
+      sent.push({ ...tx });
+      return `0x0${sent.length}`;
+    };
+
+    const txHash = await adapter.sendTransaction(
+      {
+        to: "0x0000000000000000000000000000000000000001",
+        data: "0x",
+        value: "0",
+        // the cap the processor would predict: 1.3 × (30 + 2) gwei
+        cappedGasPrice: new BigNumber(32 * GWEI * 1.3),
+      },
+      { logger: silentLogger }
+    );
+
+    assert.equal(txHash, "0x03");
+    assert.deepStrictEqual(
+      sent.map((tx) => [tx.maxFeePerGas, tx.maxPriorityFeePerGas]),
+      [
+        [`${62 * GWEI}`, `${2 * GWEI}`],
+        [`${68.2 * GWEI}`, `${2.2 * GWEI}`],
+        [`${75.02 * GWEI}`, `${2.42 * GWEI}`],
+      ]
+    );
+    assert.equal(
+      sent.every((tx) => tx.nonce === 0),
+      true
+    );
+  });
+});
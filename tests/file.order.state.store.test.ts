@@ -0,0 +1,131 @@
+import { Order } from "@debridge-finance/dln-client";
+import assert from "assert";
+import { existsSync } from "fs";
+import { appendFile, mkdtemp, readFile, rm } from "fs/promises";
+import "mocha";
+import { tmpdir } from "os";
+import path from "path";
+
+import { IncomingOrder, OrderInfoStatus } from "../src/interfaces";
+import { FileOrderStateStore, StoredOrderKind } from "../src/stores";
+
+import { createOrder, silentLogger } from "./helpers";
+
+function createOrderInfo(
+  nonce: bigint
+): IncomingOrder<OrderInfoStatus.Created> {
+  const order = createOrder({ nonce });
+  return {
+    orderId: Order.calculateId(order),
+    order,
+    status: OrderInfoStatus.Created,
+    finalization_info: { Finalized: { transaction_hash: "0x01" } },
+  };
+}
+
+async function readLines(filePath: string): Promise<string[]> {
+  return (await readFile(filePath, "utf-8")).split("\n").filter(Boolean);
+}
+
+describe("FileOrderStateStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "dln-taker-"));
+    filePath = path.join(dir, "state", "executor.state.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates the file upon initialization", async () => {
+    const store = new FileOrderStateStore(filePath);
+    await store.init(silentLogger);
+    assert.ok(existsSync(filePath));
+    assert.deepStrictEqual(await store.getAll(), []);
+  });
+
+  it("replays changes written before the restart", async () => {
+    const first = createOrderInfo(1n);
+    const second = createOrderInfo(2n);
+
+    const store = new FileOrderStateStore(filePath);
+    await store.init(silentLogger);
+    store.put({ kind: StoredOrderKind.Pending, orderInfo: first, attempts: 0 });
+    store.put({
+      kind: StoredOrderKind.Pending,
+      orderInfo: second,
+      attempts: 0,
+    });
+    store.put({
+      kind: StoredOrderKind.Pending,
+      orderInfo: first,
+      attempts: 3,
+      patch: { takeAmount: 98_000_000_000_000_000_000n },
+    });
+    store.put({
+      kind: StoredOrderKind.Unlock,
+      orderInfo: first,
+      attempts: 0,
+      queuedAt: 1_700_000_000_000,
+    });
+    store.delete(StoredOrderKind.Pending, second.orderId);
+    await store.flush();
+
+    const restored = new FileOrderStateStore(filePath);
+    await restored.init(silentLogger);
+    const records = await restored.getAll();
+    assert.equal(records.length, 2);
+
+    const pending = records.find((it) => it.kind === StoredOrderKind.Pending)!;
+    assert.equal(pending.orderInfo.orderId, first.orderId);
+    assert.equal(pending.attempts, 3);
+    assert.equal(Order.calculateId(pending.orderInfo.order), first.orderId);
+    assert.equal(pending.patch?.takeAmount, 98_000_000_000_000_000_000n);
+    assert.equal(pending.patch?.giveAmount, undefined);
+
+    const unlock = records.find((it) => it.kind === StoredOrderKind.Unlock)!;
+    assert.equal(unlock.orderInfo.orderId, first.orderId);
+    assert.equal(unlock.queuedAt, 1_700_000_000_000);
+  });
+
+  it("compacts the file upon initialization", async () => {
+    const store = new FileOrderStateStore(filePath);
+    await store.init(silentLogger);
+    for (let nonce = 1n; nonce <= 5n; nonce++) {
+      const orderInfo = createOrderInfo(nonce);
+      store.put({ kind: StoredOrderKind.Pending, orderInfo, attempts: 0 });
+      store.put({ kind: StoredOrderKind.Pending, orderInfo, attempts: 1 });
+      if (nonce % 2n === 0n) {
+        store.delete(StoredOrderKind.Pending, orderInfo.orderId);
+      }
+    }
+    await store.flush();
+    assert.equal((await readLines(filePath)).length, 12);
+
+    const restored = new FileOrderStateStore(filePath);
+    await restored.init(silentLogger);
+    const lines = await readLines(filePath);
+    assert.equal(lines.length, 3);
+    assert.ok(lines.every((line) => JSON.parse(line).op === "put"));
+    assert.equal((await restored.getAll()).length, 3);
+  });
+
+  it("skips corrupted lines", async () => {
+    const orderInfo = createOrderInfo(1n);
+    const store = new FileOrderStateStore(filePath);
+    await store.init(silentLogger);
+    store.put({ kind: StoredOrderKind.Pending, orderInfo, attempts: 0 });
+    await store.flush();
+    // e.g., the process has been killed in the middle of the write
+    await appendFile(filePath, '{"op":"put","rec');
+
+    const restored = new FileOrderStateStore(filePath);
+    await restored.init(silentLogger);
+    const records = await restored.getAll();
+    assert.equal(records.length, 1);
+    assert.equal(records[0].orderInfo.orderId, orderInfo.orderId);
+  });
+});
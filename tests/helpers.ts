@@ -0,0 +1,62 @@
+import { ChainId, OrderData } from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import pino, { Logger } from "pino";
+
+import { OrderStateStore, StoredOrder, StoredOrderKind } from "../src/stores";
+
+export const silentLogger = pino({ level: "silent" });
+
+export function evmAddress(lastByte: number): Uint8Array {
+  return helpers.hexToBuffer(
+    `0x${lastByte.toString(16).padStart(2, "0").padStart(40, "0")}`
+  );
+}
+
+/**
+ * Builds the order coming from Arbitrum to BSC, with arbitrary but valid fields
+ */
+export function createOrder(overrides: Partial<OrderData> = {}): OrderData {
+  return {
+    nonce: 1n,
+    maker: evmAddress(1),
+    give: {
+      chainId: ChainId.Arbitrum,
+      tokenAddress: evmAddress(2),
+      amount: 100_000_000n,
+    },
+    take: {
+      chainId: ChainId.BSC,
+      tokenAddress: evmAddress(3),
+      amount: 99_000_000_000_000_000_000n,
+    },
+    receiver: evmAddress(4),
+    givePatchAuthority: evmAddress(1),
+    orderAuthorityDstAddress: evmAddress(4),
+    ...overrides,
+  };
+}
+
+/**
+ * Keeps records in memory, the last record per order and kind wins
+ */
+export class MemoryOrderStateStore implements OrderStateStore {
+  readonly records = new Map<string, StoredOrder>(); // key kind:orderid
+
+  async init(logger: Logger): Promise<void> {}
+
+  put(record: StoredOrder): void {
+    this.records.set(`${record.kind}:${record.orderInfo.orderId}`, record);
+  }
+
+  delete(kind: StoredOrderKind, orderId: string): void {
+    this.records.delete(`${kind}:${orderId}`);
+  }
+
+  async getAll(): Promise<StoredOrder[]> {
+    return [...this.records.values()];
+  }
+
+  get(kind: StoredOrderKind, orderId: string): StoredOrder | undefined {
+    return this.records.get(`${kind}:${orderId}`);
+  }
+}
@@ -0,0 +1,128 @@
+import { ChainId, Order, OrderData } from "@debridge-finance/dln-client";
+import assert from "assert";
+import "mocha";
+import { setTimeout } from "timers/promises";
+
+import { and, commitVerdicts, group, makerRateLimit } from "../src/filters";
+import { MakerRateLimitFilterOpts } from "../src/filters/maker.rate.limit";
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilter,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+} from "../src/filters/order.filter";
+
+import { createOrder, evmAddress, silentLogger } from "./helpers";
+
+const initContext = {
+  logger: silentLogger,
+} as unknown as OrderFilterInitContext;
+
+// every token is worth $1 and has 18 decimals, so the order created by default takes $99
+const filterContext = (order: OrderData) =>
+  ({
+    logger: silentLogger,
+    orderId: Order.calculateId(order),
+    config: {
+      tokenPriceService: { getPrice: async () => 1 },
+      client: { getDecimals: async () => 18 },
+    },
+    takeChain: { fulfillProvider: { connection: {} } },
+  } as unknown as FilterContext);
+
+/**
+ * Evaluates the order and commits the verdict if approved, the same way the executor does
+ */
+async function evaluate(filter: OrderFilter, order: OrderData) {
+  const verdict = (await filter(order, filterContext(order))) as FilterVerdict;
+  commitVerdicts([verdict]);
+  return verdict.approved;
+}
+
+function init(initializer: OrderFilterInitializer) {
+  return initializer(ChainId.BSC, initContext);
+}
+
+const rateLimit = (opts: MakerRateLimitFilterOpts) =>
+  init(makerRateLimit(opts));
+
+describe("makerRateLimit", () => {
+  it("should limit the number of orders per maker within the window", async () => {
+    const filter = await rateLimit({ window: 60, maxOrders: 2 });
+
+    assert.equal(await evaluate(filter, createOrder({ nonce: 1n })), true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 2n })), true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 3n })), false);
+  });
+
+  it("should not limit other makers", async () => {
+    const filter = await rateLimit({ window: 60, maxOrders: 1 });
+    const other = evmAddress(5);
+
+    assert.equal(await evaluate(filter, createOrder({ nonce: 1n })), true);
+    assert.equal(
+      await evaluate(filter, createOrder({ nonce: 2n, maker: other })),
+      true
+    );
+  });
+
+  it("should forget orders which have left the window", async () => {
+    const filter = await rateLimit({ window: 0.05, maxOrders: 1 });
+
+    assert.equal(await evaluate(filter, createOrder({ nonce: 1n })), true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 2n })), false);
+    await setTimeout(60);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 2n })), true);
+  });
+
+  it("should not count the same order twice", async () => {
+    const filter = await rateLimit({ window: 60, maxOrders: 1 });
+    const order = createOrder();
+
+    assert.equal(await evaluate(filter, order), true);
+    assert.equal(await evaluate(filter, order), true);
+  });
+
+  it("should count only committed orders", async () => {
+    const filter = await rateLimit({ window: 60, maxOrders: 1 });
+    const order = createOrder({ nonce: 1n });
+
+    // approved by this filter, but rejected by another one
+    const verdict = await filter(order, filterContext(order));
+    assert.equal((verdict as FilterVerdict).approved, true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 2n })), true);
+  });
+
+  it("should count orders committed through combinators", async () => {
+    const limit = makerRateLimit({ window: 60, maxOrders: 1 });
+    const filter = await init(group("limits", [and(limit)]));
+
+    assert.equal(await evaluate(filter, createOrder({ nonce: 1n })), true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 2n })), false);
+  });
+
+  it("should limit the take amount per maker within the window", async () => {
+    const filter = await rateLimit({ window: 60, maxTakeAmountUsd: 200 });
+
+    assert.equal(await evaluate(filter, createOrder({ nonce: 1n })), true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 2n })), true);
+    assert.equal(await evaluate(filter, createOrder({ nonce: 3n })), false);
+  });
+
+  it("should limit orders per receiver if requested", async () => {
+    const filter = await rateLimit({
+      window: 60,
+      maxOrders: 1,
+      trackReceiver: true,
+    });
+    const other = evmAddress(5);
+
+    assert.equal(await evaluate(filter, createOrder({ nonce: 1n })), true);
+    // another maker sends to the same receiver
+    assert.equal(
+      await evaluate(filter, createOrder({ nonce: 2n, maker: other })),
+      false
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "assert";
+import "mocha";
+import Web3 from "web3";
+
+import { NonceAllocator } from "../src/providers/utils/nonceAllocator";
+
+const ADDRESS = "0x0000000000000000000000000000000000000001";
+
+describe("NonceAllocator", () => {
+  let confirmedNonce: number;
+  let allocator: NonceAllocator;
+
+  beforeEach(() => {
+    confirmedNonce = 10;
+    const connection = {
+      eth: { getTransactionCount: async () => confirmedNonce },
+    } as unknown as Web3;
+    allocator = new NonceAllocator(connection, ADDRESS);
+  });
+
+  it("allocates sequential nonces starting from the confirmed one", async () => {
+    const nonces = await Promise.all([
+      allocator.allocate(),
+      allocator.allocate(),
+      allocator.allocate(),
+    ]);
+    assert.deepStrictEqual(
+      nonces.map((it) => it.nonce),
+      [10, 11, 12]
+    );
+    assert.ok(nonces.every((it) => it.staleFees === undefined));
+  });
+
+  it("takes back the last nonce released before the broadcast", async () => {
+    await allocator.allocate();
+    const { nonce } = await allocator.allocate();
+    allocator.release(nonce);
+    assert.equal((await allocator.allocate()).nonce, 11);
+    assert.equal((await allocator.allocate()).nonce, 12);
+  });
+
+  it("reuses the lowest released nonce to fill the gap", async () => {
+    const first = await allocator.allocate();
+    const second = await allocator.allocate();
+    await allocator.allocate();
+    allocator.release(second.nonce);
+    allocator.release(first.nonce);
+
+    assert.equal((await allocator.allocate()).nonce, 10);
+    assert.equal((await allocator.allocate()).nonce, 11);
+    assert.equal((await allocator.allocate()).nonce, 13);
+  });
+
+  it("passes fees of the stale txn along with its nonce", async () => {
+    const { nonce } = await allocator.allocate();
+    await allocator.allocate();
+    const staleFees = { gasPrice: "5000000000" };
+    allocator.release(nonce, staleFees);
+
+    const allocated = await allocator.allocate();
+    assert.equal(allocated.nonce, nonce);
+    assert.deepStrictEqual(allocated.staleFees, staleFees);
+  });
+
+  it("forgets released nonces used by confirmed txns", async () => {
+    const { nonce } = await allocator.allocate();
+    await allocator.allocate();
+    allocator.release(nonce, { gasPrice: "5000000000" });
+
+    // the stale txn got confirmed meanwhile
+    confirmedNonce = 12;
+    const allocated = await allocator.allocate();
+    assert.equal(allocated.nonce, 12);
+    assert.equal(allocated.staleFees, undefined);
+  });
+
+  it("catches up with txns sent outside of the allocator", async () => {
+    await allocator.allocate();
+    confirmedNonce = 20;
+    assert.equal((await allocator.allocate()).nonce, 20);
+  });
+});
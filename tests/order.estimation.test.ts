@@ -0,0 +1,175 @@
+import { ChainId, Order, TokensBucket } from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import assert from "assert";
+import "mocha";
+
+import { RejectionReason } from "../src/hooks/HookEnums";
+import { IncomingOrder, OrderInfoStatus } from "../src/interfaces";
+import { OrderProcessorContext } from "../src/processors/base";
+import {
+  checkFinalization,
+  checkOrderSupport,
+} from "../src/processors/order.estimation";
+import { UnconfirmedOrdersBudget } from "../src/processors/unconfirmed.orders.budget";
+
+import {
+  createOrder,
+  evmAddress,
+  MemoryOrderStateStore,
+  silentLogger,
+} from "./helpers";
+
+const order = createOrder(); // Arbitrum→BSC, gives $100
+
+const toHex = (address: Uint8Array) =>
+  helpers.bufferToHex(Buffer.from(address));
+
+const buckets = [
+  new TokensBucket({
+    [ChainId.Arbitrum]: [toHex(order.give.tokenAddress)],
+    [ChainId.BSC]: [toHex(order.take.tokenAddress)],
+  }),
+];
+
+function createdOrder(
+  finalizationInfo: IncomingOrder<OrderInfoStatus.Created>["finalization_info"],
+  orderData = order
+): IncomingOrder<OrderInfoStatus.Created> {
+  return {
+    orderId: Order.calculateId(orderData),
+    order: orderData,
+    status: OrderInfoStatus.Created,
+    finalization_info: finalizationInfo,
+  };
+}
+
+const confirmed = (confirmations: number, orderData = order) =>
+  createdOrder(
+    {
+      Confirmed: {
+        confirmation_blocks_count: confirmations,
+        transaction_hash: "0x01",
+      },
+    },
+    orderData
+  );
+
+describe("Order estimation", () => {
+  describe("checkOrderSupport", () => {
+    it("should approve orders covered by buckets", () => {
+      assert.equal(
+        checkOrderSupport(createdOrder("Revoked"), buckets),
+        undefined
+      );
+    });
+
+    it("should reject orders giving tokens out of buckets", () => {
+      const orderInfo = createdOrder(
+        "Revoked",
+        createOrder({ give: { ...order.give, tokenAddress: evmAddress(9) } })
+      );
+      assert.equal(
+        checkOrderSupport(orderInfo, buckets)?.reason,
+        RejectionReason.UNEXPECTED_GIVE_TOKEN
+      );
+    });
+
+    it("should reject orders carrying external calls without payload", () => {
+      const orderInfo = createdOrder(
+        "Revoked",
+        createOrder({
+          externalCall: {
+            executionFee: 1n,
+            fallbackDstAddress: evmAddress(4),
+            externalCallHash: new Uint8Array(32),
+          },
+        })
+      );
+      assert.equal(
+        checkOrderSupport(orderInfo, buckets)?.reason,
+        RejectionReason.UNSUPPORTED_EXTERNAL_CALL
+      );
+
+      orderInfo.externalCallData = "0x01";
+      assert.equal(checkOrderSupport(orderInfo, buckets), undefined);
+    });
+  });
+
+  describe("checkFinalization", () => {
+    let budget: UnconfirmedOrdersBudget;
+    let context: OrderProcessorContext;
+
+    beforeEach(() => {
+      budget = new UnconfirmedOrdersBudget(
+        ChainId.Arbitrum,
+        150,
+        new MemoryOrderStateStore(),
+        silentLogger
+      );
+      // every token is worth $1 and has 6 decimals
+      context = {
+        logger: silentLogger,
+        config: {
+          tokenPriceService: { getPrice: async () => 1 },
+          client: { getDecimals: async () => 6 },
+        },
+        giveChain: {
+          fulfillProvider: { connection: {} },
+          usdAmountConfirmations: [
+            { usdWorthFrom: 0, usdWorthTo: 1000, minBlockConfirmations: 5 },
+          ],
+          unconfirmedOrdersBudget: budget,
+        },
+      } as unknown as OrderProcessorContext;
+    });
+
+    const check = (orderInfo: IncomingOrder<OrderInfoStatus.Created>) =>
+      checkFinalization(orderInfo, orderInfo.order, context, silentLogger);
+
+    it("should approve finalized orders", async () => {
+      const orderInfo = createdOrder({
+        Finalized: { transaction_hash: "0x01" },
+      });
+      assert.equal(await check(orderInfo), undefined);
+      assert.equal(budget.getUsedUsd(), 0);
+    });
+
+    it("should reject revoked orders", async () => {
+      assert.equal(
+        (await check(createdOrder("Revoked")))?.reason,
+        RejectionReason.REVOKED
+      );
+    });
+
+    it("should reserve the worth of orders having enough confirmations", async () => {
+      assert.equal(await check(confirmed(5)), undefined);
+      assert.equal(budget.getUsedUsd(), 100);
+    });
+
+    it("should reject orders having not enough confirmations", async () => {
+      assert.equal(
+        (await check(confirmed(4)))?.reason,
+        RejectionReason.NOT_ENOUGH_BLOCK_CONFIRMATIONS_FOR_ORDER_WORTH
+      );
+    });
+
+    it("should reject orders worth more than confirmation ranges", async () => {
+      const expensive = createOrder({
+        give: { ...order.give, amount: 2_000_000_000n },
+      });
+      assert.equal(
+        (await check(confirmed(5, expensive)))?.reason,
+        RejectionReason.NOT_YET_FINALIZED
+      );
+    });
+
+    it("should reject orders exceeding the budget of unconfirmed orders", async () => {
+      assert.equal(await check(confirmed(5)), undefined);
+      const another = confirmed(5, createOrder({ nonce: 2n }));
+      assert.equal(
+        (await check(another))?.reason,
+        RejectionReason.UNCONFIRMED_ORDERS_BUDGED_EXCEEDED
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { ChainId } from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import assert from "assert";
+import "mocha";
+
+import {
+  disableFulfill,
+  group,
+  or,
+  toFilterVerdict,
+  whitelistedMaker,
+} from "../src/filters";
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilterInitContext,
+  OrderFilterInitializer,
+} from "../src/filters/order.filter";
+
+import { createOrder, silentLogger } from "./helpers";
+
+const order = createOrder();
+const maker = helpers.bufferToHex(Buffer.from(order.maker));
+
+const initContext = {
+  logger: silentLogger,
+} as unknown as OrderFilterInitContext;
+
+const filterContext = {
+  logger: silentLogger,
+  orderId: "0x01",
+} as unknown as FilterContext;
+
+async function run(
+  initializer: OrderFilterInitializer,
+  chainId: ChainId = ChainId.Arbitrum
+) {
+  const filter = await initializer(chainId, initContext);
+  return filter(order, filterContext) as Promise<FilterVerdict>;
+}
+
+describe("Filter verdicts", () => {
+  describe("toFilterVerdict", () => {
+    it("should attribute bare booleans to the given filter", () => {
+      assert.deepStrictEqual(toFilterVerdict(true, "custom"), {
+        filter: "custom",
+        approved: true,
+      });
+      assert.deepStrictEqual(toFilterVerdict(false, "custom"), {
+        filter: "custom",
+        approved: false,
+      });
+    });
+
+    it("should pass verdicts as is", () => {
+      const verdict = { filter: "named", approved: false, reason: "why" };
+      assert.strictEqual(toFilterVerdict(verdict, "custom"), verdict);
+    });
+  });
+
+  it("should explain the decision of the built-in filter", async () => {
+    assert.deepStrictEqual(await run(whitelistedMaker([maker])), {
+      filter: "whitelistedMaker",
+      approved: true,
+      reason: `maker ${maker} is whitelisted`,
+    });
+    assert.deepStrictEqual(await run(disableFulfill(), ChainId.BSC), {
+      filter: "disableFulfill",
+      approved: false,
+      reason: "fulfillment is disabled on BSC",
+    });
+  });
+
+  it("should list reasons of all rejections of the or combinator", async () => {
+    const verdict = await run(
+      or(disableFulfill(), async () => async () => false)
+    );
+    assert.equal(verdict.approved, false);
+    assert.equal(
+      verdict.reason,
+      "disableFulfill: fulfillment is disabled on Arbitrum; anonymous: rejected"
+    );
+  });
+
+  it("should name the rejecting filter within the group", async () => {
+    const verdict = await run(
+      group("trusted", [whitelistedMaker([maker]), disableFulfill()])
+    );
+    assert.equal(verdict.filter, "trusted");
+    assert.equal(verdict.approved, false);
+    assert.equal(
+      verdict.reason,
+      "disableFulfill: fulfillment is disabled on Arbitrum"
+    );
+  });
+});
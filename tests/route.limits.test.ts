@@ -0,0 +1,147 @@
+import { ChainId, OrderData, TokensBucket } from "@debridge-finance/dln-client";
+import { helpers } from "@debridge-finance/solana-utils";
+import assert from "assert";
+import "mocha";
+
+import { RouteLimit, routeLimits, RouteSchedule } from "../src/filters";
+import {
+  FilterContext,
+  FilterVerdict,
+  OrderFilterInitContext,
+} from "../src/filters/order.filter";
+import { RouteLimitsFilterOpts } from "../src/filters/route.limits";
+
+import { createOrder, silentLogger } from "./helpers";
+
+const order = createOrder(); // Arbitrum→BSC, takes $99
+
+const initContext = {
+  logger: silentLogger,
+} as unknown as OrderFilterInitContext;
+
+// every token is worth $1 and has 18 decimals
+const filterContext = {
+  logger: silentLogger,
+  orderId: "0x01",
+  config: {
+    tokenPriceService: { getPrice: async () => 1 },
+    client: { getDecimals: async () => 18 },
+  },
+  takeChain: { fulfillProvider: { connection: {} } },
+} as unknown as FilterContext;
+
+const giveTokenBucket = new TokensBucket({
+  [ChainId.Arbitrum]: [
+    helpers.bufferToHex(Buffer.from(order.give.tokenAddress)),
+  ],
+});
+
+const route = (limit: Partial<RouteLimit> = {}): RouteLimit => ({
+  giveChain: ChainId.Arbitrum,
+  takeChain: ChainId.BSC,
+  ...limit,
+});
+
+async function evaluate(
+  routes: RouteLimit[],
+  opts?: RouteLimitsFilterOpts,
+  orderData: OrderData = order
+): Promise<FilterVerdict> {
+  const filter = await routeLimits(routes, opts)(ChainId.BSC, initContext);
+  return filter(orderData, filterContext) as Promise<FilterVerdict>;
+}
+
+/**
+ * Builds the schedule open over midnight which includes the current hour
+ */
+function openOverMidnight(): RouteSchedule {
+  const hour = new Date().getUTCHours();
+  return hour >= 12
+    ? { fromHour: hour, toHour: 1 }
+    : { fromHour: 23, toHour: hour + 1 };
+}
+
+describe("routeLimits", () => {
+  it("should approve unlisted routes by default", async () => {
+    const verdict = await evaluate([
+      route({ takeChain: ChainId.Polygon, enabled: false }),
+    ]);
+    assert.equal(verdict.approved, true);
+  });
+
+  it("should reject unlisted routes if requested", async () => {
+    const verdict = await evaluate([], { rejectUnlistedRoutes: true });
+    assert.equal(verdict.approved, false);
+    assert.equal(verdict.reason, "route Arbitrum→BSC is not listed");
+  });
+
+  it("should reject orders of the disabled route", async () => {
+    assert.equal((await evaluate([route({ enabled: false })])).approved, false);
+    assert.equal((await evaluate([route({ enabled: true })])).approved, true);
+  });
+
+  it("should reject orders out of the USD worth range", async () => {
+    assert.equal(
+      (await evaluate([route({ minUsdWorth: 10, maxUsdWorth: 100 })])).approved,
+      true
+    );
+    assert.equal(
+      (await evaluate([route({ minUsdWorth: 100 })])).approved,
+      false
+    );
+    assert.equal(
+      (await evaluate([route({ maxUsdWorth: 50 })])).approved,
+      false
+    );
+  });
+
+  it("should reject orders coming on days the route is closed on", async () => {
+    const tomorrow = (new Date().getUTCDay() + 1) % 7;
+    const verdict = await evaluate([route({ schedule: { days: [tomorrow] } })]);
+    assert.equal(verdict.approved, false);
+    assert.equal(verdict.reason, "route Arbitrum→BSC is closed by schedule");
+  });
+
+  it("should approve orders coming within open hours", async () => {
+    const hour = new Date().getUTCHours();
+    const schedule = { fromHour: hour, toHour: hour + 1 };
+    assert.equal((await evaluate([route({ schedule })])).approved, true);
+  });
+
+  it("should reject orders coming out of open hours", async () => {
+    const hour = new Date().getUTCHours();
+    const schedule =
+      hour < 23 ? { fromHour: hour + 1 } : { fromHour: 0, toHour: 23 };
+    assert.equal((await evaluate([route({ schedule })])).approved, false);
+  });
+
+  it("should support schedules open over midnight", async () => {
+    const schedule = openOverMidnight();
+    assert.equal((await evaluate([route({ schedule })])).approved, true);
+  });
+
+  it("should prefer the route narrowed by the bucket", async () => {
+    const routes = [
+      route({ enabled: true }),
+      route({ bucket: giveTokenBucket, enabled: false }),
+    ];
+    assert.equal((await evaluate(routes)).approved, false);
+
+    // orders giving other tokens fall back to the route without the bucket
+    const otherToken = createOrder({
+      give: { ...order.give, tokenAddress: order.take.tokenAddress },
+    });
+    assert.equal((await evaluate(routes, {}, otherToken)).approved, true);
+  });
+
+  it("should validate open hours", () => {
+    assert.throws(
+      () => routeLimits([route({ schedule: { fromHour: 24 } })]),
+      /fromHour must be in \[0, 23\]/
+    );
+    assert.throws(
+      () => routeLimits([route({ schedule: { toHour: 0 } })]),
+      /toHour must be in \[1, 24\]/
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import assert from "assert";
+import { createServer, Server } from "http";
+import "mocha";
+import { AddressInfo } from "net";
+
+import {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcPool,
+  RpcPoolOpts,
+} from "../src/providers/rpc/rpc.pool";
+
+import { silentLogger } from "./helpers";
+
+type Node = {
+  url: string;
+  calls: string[]; // methods requested from the node, except health checks
+  server: Server;
+};
+
+/**
+ * Starts the JSON-RPC node responding with the result (or the error) given by the handler
+ */
+async function startNode(
+  handler: (method: string) => Pick<JsonRpcResponse, "result" | "error">
+): Promise<Node> {
+  const calls: string[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = JSON.parse(body) as JsonRpcRequest;
+      if (request.method === "eth_blockNumber") {
+        res.end(
+          JSON.stringify({ jsonrpc: "2.0", id: request.id, result: "0x1" })
+        );
+        return;
+      }
+      calls.push(request.method);
+      res.end(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: request.id,
+          ...handler(request.method),
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, calls, server };
+}
+
+/**
+ * Returns the url nothing listens at
+ */
+async function getDeadUrl(): Promise<string> {
+  const node = await startNode(() => ({}));
+  await new Promise((resolve) => node.server.close(resolve));
+  return node.url;
+}
+
+const OPTS: RpcPoolOpts = {
+  healthCheckMethod: "eth_blockNumber",
+  broadcastMethods: ["eth_sendRawTransaction"],
+};
+
+let id = 0;
+const request = (method: string): JsonRpcRequest => ({
+  jsonrpc: "2.0",
+  id: id++,
+  method,
+});
+
+describe("RpcPool", () => {
+  const nodes: Node[] = [];
+  const start = async (
+    handler: (method: string) => Pick<JsonRpcResponse, "result" | "error">
+  ) => {
+    const node = await startNode(handler);
+    nodes.push(node);
+    return node;
+  };
+
+  afterEach(async () => {
+    await Promise.all(
+      nodes
+        .splice(0)
+        .map((node) => new Promise((resolve) => node.server.close(resolve)))
+    );
+  });
+
+  it("fails over to another endpoint when the picked one is unreachable", async () => {
+    const node = await start(() => ({ result: "0x38" }));
+    const pool = new RpcPool(
+      [await getDeadUrl(), node.url],
+      OPTS,
+      silentLogger
+    );
+
+    for (let i = 0; i < 5; i++) {
+      const response = (await pool.request(
+        request("eth_chainId")
+      )) as JsonRpcResponse;
+      assert.equal(response.result, "0x38");
+    }
+    assert.equal(node.calls.length, 5);
+  });
+
+  it("throws the error once all endpoints are unreachable", async () => {
+    const pool = new RpcPool(
+      [await getDeadUrl(), await getDeadUrl()],
+      OPTS,
+      silentLogger
+    );
+    await assert.rejects(pool.request(request("eth_chainId")));
+  });
+
+  it("broadcasts txns to all endpoints and succeeds if any endpoint accepts the txn", async () => {
+    const accepting = await start(() => ({ result: "0xhash" }));
+    const rejecting = await start(() => ({
+      error: { code: -32000, message: "already known" },
+    }));
+    const pool = new RpcPool(
+      [accepting.url, rejecting.url],
+      OPTS,
+      silentLogger
+    );
+
+    const response = (await pool.request(
+      request("eth_sendRawTransaction")
+    )) as JsonRpcResponse;
+    assert.equal(response.result, "0xhash");
+    assert.deepStrictEqual(accepting.calls, ["eth_sendRawTransaction"]);
+    assert.deepStrictEqual(rejecting.calls, ["eth_sendRawTransaction"]);
+  });
+
+  describe("quorum", () => {
+    it("is required only by requests asking for it", async () => {
+      const first = await start(() => ({ result: "0x1" }));
+      const second = await start(() => ({ result: "0x1" }));
+      const pool = new RpcPool(
+        [first.url, second.url],
+        { ...OPTS, quorum: 2 },
+        silentLogger
+      );
+
+      await pool.request(request("eth_call"));
+      assert.equal(first.calls.length + second.calls.length, 1);
+
+      await pool.request(request("eth_call"), { quorum: true });
+      assert.equal(first.calls.length + second.calls.length, 3);
+    });
+
+    it("is always required by quorum methods", async () => {
+      const first = await start(() => ({ result: "0x1" }));
+      const second = await start(() => ({ result: "0x1" }));
+      const pool = new RpcPool(
+        [first.url, second.url],
+        { ...OPTS, quorum: 2, quorumMethods: ["eth_getBalance"] },
+        silentLogger
+      );
+
+      await pool.request(request("eth_getBalance"));
+      assert.deepStrictEqual(first.calls, ["eth_getBalance"]);
+      assert.deepStrictEqual(second.calls, ["eth_getBalance"]);
+    });
+
+    it("returns the result the quorum of endpoints agrees on", async () => {
+      const urls = [
+        (await start(() => ({ result: "0x1" }))).url,
+        (await start(() => ({ result: "0x2" }))).url,
+        (await start(() => ({ result: "0x1" }))).url,
+      ];
+      const pool = new RpcPool(urls, { ...OPTS, quorum: 2 }, silentLogger);
+
+      const response = (await pool.request(request("eth_call"), {
+        quorum: true,
+      })) as JsonRpcResponse;
+      assert.equal(response.result, "0x1");
+    });
+
+    it("throws the error when endpoints disagree", async () => {
+      const urls = [
+        (await start(() => ({ result: "0x1" }))).url,
+        (await start(() => ({ result: "0x2" }))).url,
+      ];
+      const pool = new RpcPool(urls, { ...OPTS, quorum: 2 }, silentLogger);
+
+      await assert.rejects(
+        pool.request(request("eth_call"), { quorum: true }),
+        /quorum of 2 is not reached/
+      );
+    });
+
+    it("can't exceed the number of endpoints", () => {
+      assert.throws(
+        () =>
+          new RpcPool(
+            ["http://127.0.0.1:1"],
+            { ...OPTS, quorum: 2 },
+            silentLogger
+          ),
+        /can't exceed the number of endpoints/
+      );
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { ChainId, Order } from "@debridge-finance/dln-client";
+import assert from "assert";
+import "mocha";
+
+import { IncomingOrder, OrderInfoStatus } from "../src/interfaces";
+import { UnconfirmedOrdersBudget } from "../src/processors/unconfirmed.orders.budget";
+import { StoredOrderKind } from "../src/stores";
+
+import { createOrder, MemoryOrderStateStore, silentLogger } from "./helpers";
+
+function confirmedOrder(nonce: bigint): IncomingOrder<OrderInfoStatus.Created> {
+  const order = createOrder({ nonce });
+  return {
+    orderId: Order.calculateId(order),
+    order,
+    status: OrderInfoStatus.Created,
+    finalization_info: {
+      Confirmed: { confirmation_blocks_count: 1, transaction_hash: "0x01" },
+    },
+  };
+}
+
+describe("UnconfirmedOrdersBudget", () => {
+  let store: MemoryOrderStateStore;
+  let budget: UnconfirmedOrdersBudget;
+  const first = confirmedOrder(1n);
+  const second = confirmedOrder(2n);
+
+  beforeEach(() => {
+    store = new MemoryOrderStateStore();
+    budget = new UnconfirmedOrdersBudget(
+      ChainId.Arbitrum,
+      1000,
+      store,
+      silentLogger
+    );
+  });
+
+  it("should reserve orders within the budget", () => {
+    assert.equal(budget.reserve(first.orderId, 600), true);
+    assert.equal(budget.reserve(second.orderId, 500), false);
+    assert.equal(budget.reserve(second.orderId, 400), true);
+    assert.equal(budget.getUsedUsd(), 1000);
+  });
+
+  it("should replace the reservation of the order evaluated once again", () => {
+    budget.reserve(first.orderId, 600);
+    assert.equal(budget.reserve(first.orderId, 900), true);
+    assert.equal(budget.getUsedUsd(), 900);
+  });
+
+  it("should free the budget upon cancellation", () => {
+    budget.reserve(first.orderId, 600);
+    budget.cancel(first.orderId);
+    assert.equal(budget.getUsedUsd(), 0);
+    assert.equal(store.records.size, 0);
+  });
+
+  it("should persist the exposure upon commit", () => {
+    budget.reserve(first.orderId, 600);
+    budget.commit(first);
+
+    const record = store.get(
+      StoredOrderKind.UnconfirmedExposure,
+      first.orderId
+    );
+    assert.equal(record?.usdWorth, 600);
+    assert.equal(budget.getUsedUsd(), 600);
+    // cancellation has no effect on the fulfilled order
+    budget.cancel(first.orderId);
+    assert.equal(budget.getUsedUsd(), 600);
+  });
+
+  it("should not count the fulfilled order twice", () => {
+    budget.reserve(first.orderId, 600);
+    budget.commit(first);
+    assert.equal(budget.reserve(first.orderId, 600), true);
+    assert.equal(budget.getUsedUsd(), 600);
+  });
+
+  it("should ignore commits of orders without the reservation", () => {
+    budget.commit(first);
+    assert.equal(budget.getUsedUsd(), 0);
+    assert.equal(store.records.size, 0);
+  });
+
+  it("should release the exposure and delete it from the store", () => {
+    budget.reserve(first.orderId, 600);
+    budget.commit(first);
+    budget.release(first.orderId);
+
+    assert.equal(budget.getUsedUsd(), 0);
+    assert.equal(store.records.size, 0);
+    assert.equal(budget.reserve(second.orderId, 1000), true);
+  });
+
+  it("should count restored exposures", () => {
+    budget.restore(first.orderId, 700);
+    assert.equal(budget.getUsedUsd(), 700);
+    assert.equal(budget.reserve(second.orderId, 400), false);
+  });
+});
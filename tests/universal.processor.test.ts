@@ -0,0 +1,168 @@
+import { ChainId, Order } from "@debridge-finance/dln-client";
+import assert from "assert";
+import "mocha";
+
+import { ExecutorInitializingChain } from "../src/executors/executor";
+import { withOrderPatch } from "../src/helpers";
+import { Hooks } from "../src/hooks/HookEnums";
+import { HooksEngine } from "../src/hooks/HooksEngine";
+import { HookParams } from "../src/hooks/types/HookParams";
+import {
+  IncomingOrder,
+  IncomingOrderContext,
+  OrderInfoStatus,
+} from "../src/interfaces";
+import { universalProcessor } from "../src/processors";
+import {
+  IManageableOrderProcessor,
+  OrderProcessorContext,
+} from "../src/processors/base";
+import { StoredOrderKind } from "../src/stores";
+
+import { createOrder, MemoryOrderStateStore, silentLogger } from "./helpers";
+
+const order = createOrder();
+const orderId = Order.calculateId(order);
+
+const context = (): OrderProcessorContext =>
+  ({ logger: silentLogger } as unknown as OrderProcessorContext);
+
+const created = (): IncomingOrderContext => ({
+  orderInfo: {
+    orderId,
+    order,
+    status: OrderInfoStatus.Created,
+    finalization_info: { Finalized: { transaction_hash: "0x01" } },
+  },
+  context: context(),
+  attempts: 0,
+});
+
+const takeOfferDecreased = (takeAmount: bigint): IncomingOrderContext => {
+  const orderInfo: IncomingOrder<OrderInfoStatus.TakeOfferDecreased> = {
+    orderId,
+    order,
+    status: OrderInfoStatus.TakeOfferDecreased,
+    patch: { takeAmount },
+  };
+  return { orderInfo, context: context(), attempts: 0 };
+};
+
+const giveOfferIncreased = (giveAmount: bigint): IncomingOrderContext => {
+  const orderInfo: IncomingOrder<OrderInfoStatus.GiveOfferIncreased> = {
+    orderId,
+    order,
+    status: OrderInfoStatus.GiveOfferIncreased,
+    patch: { giveAmount },
+  };
+  return { orderInfo, context: context(), attempts: 0 };
+};
+
+describe("UniversalProcessor: order patches", () => {
+  let store: MemoryOrderStateStore;
+  let patched: HookParams<Hooks.OrderPatched>[];
+  let processor: IManageableOrderProcessor;
+
+  beforeEach(async () => {
+    store = new MemoryOrderStateStore();
+    patched = [];
+    const hooksEngine = new HooksEngine(
+      {
+        [Hooks.OrderPatched]: [
+          async (params) => {
+            patched.push(params);
+          },
+        ],
+      },
+      silentLogger
+    );
+    // no buckets, so the processor approves no tokens upon initialization
+    processor = (await universalProcessor()(ChainId.BSC, {
+      takeChain: {
+        chain: ChainId.BSC,
+        dryRun: true,
+      } as unknown as ExecutorInitializingChain,
+      buckets: [],
+      logger: silentLogger,
+      hooksEngine,
+      orderStateStore: store,
+    })) as IManageableOrderProcessor;
+    // the paused processor only queues orders, so nothing is fulfilled
+    processor.pause();
+  });
+
+  it("should store the patch separately, leaving the order intact", async () => {
+    await processor.process(created());
+    await processor.process(takeOfferDecreased(90n));
+
+    const record = store.get(StoredOrderKind.Pending, orderId);
+    assert.deepStrictEqual(record?.patch, { takeAmount: 90n });
+    assert.equal(record?.orderInfo.status, OrderInfoStatus.Created);
+    assert.equal(record?.orderInfo.order.take.amount, order.take.amount);
+    assert.equal(Order.calculateId(record!.orderInfo.order), orderId);
+  });
+
+  it("should accumulate patches", async () => {
+    await processor.process(created());
+    await processor.process(takeOfferDecreased(90n));
+    await processor.process(giveOfferIncreased(200n));
+    await processor.process(takeOfferDecreased(80n));
+
+    assert.deepStrictEqual(store.get(StoredOrderKind.Pending, orderId)?.patch, {
+      takeAmount: 80n,
+      giveAmount: 200n,
+    });
+  });
+
+  it("should keep the patch when the order is announced once again", async () => {
+    await processor.process(created());
+    await processor.process(takeOfferDecreased(90n));
+    await processor.process(created());
+
+    assert.deepStrictEqual(store.get(StoredOrderKind.Pending, orderId)?.patch, {
+      takeAmount: 90n,
+    });
+  });
+
+  it("should trigger the hook with the accumulated patch", async () => {
+    await processor.process(created());
+    await processor.process(takeOfferDecreased(90n));
+    await processor.process(giveOfferIncreased(200n));
+
+    // hooks are run asynchronously
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(patched.length, 2);
+    assert.equal(patched[1].order.orderId, orderId);
+    assert.equal(patched[1].status, OrderInfoStatus.GiveOfferIncreased);
+    assert.deepStrictEqual(patched[1].patch, {
+      takeAmount: 90n,
+      giveAmount: 200n,
+    });
+  });
+
+  it("should ignore patches of unknown orders", async () => {
+    await processor.process(takeOfferDecreased(90n));
+
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(store.records.size, 0);
+    assert.equal(patched.length, 0);
+  });
+});
+
+describe("withOrderPatch", () => {
+  it("should apply patched amounts to the copy of the order", () => {
+    const patchedOrder = withOrderPatch(order, {
+      takeAmount: 90n,
+      giveAmount: 200n,
+    });
+
+    assert.equal(patchedOrder.take.amount, 90n);
+    assert.equal(patchedOrder.give.amount, 200n);
+    assert.equal(order.take.amount, createOrder().take.amount);
+    assert.equal(order.give.amount, createOrder().give.amount);
+  });
+
+  it("should return the order as is without the patch", () => {
+    assert.strictEqual(withOrderPatch(order), order);
+  });
+});